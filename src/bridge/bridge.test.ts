@@ -0,0 +1,195 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createEventBus } from '../eventbus/eventbus'
+import { bridgeBus } from './bridge'
+import type { BridgeChannel } from './bridge.types'
+
+type AppEvents = {
+  'cart:add': { sku: string }
+  'cart:checkout': { total: number }
+  'debug:trace': { message: string }
+  done: Record<string, never>
+}
+
+/** A channel whose incoming messages are dispatched by the test */
+function createFakeChannel() {
+  return Object.assign(new EventTarget(), { postMessage: vi.fn() }) as EventTarget &
+    BridgeChannel & { postMessage: ReturnType<typeof vi.fn> }
+}
+
+function deliver(channel: EventTarget, data: unknown): void {
+  channel.dispatchEvent(new MessageEvent('message', { data }))
+}
+
+describe('bridgeBus', () => {
+  const ports: MessagePort[] = []
+
+  const createPorts = () => {
+    const { port1, port2 } = new MessageChannel()
+    ports.push(port1, port2)
+    return [port1, port2] as const
+  }
+
+  afterEach(() => {
+    for (const port of ports.splice(0)) {
+      port.close()
+    }
+  })
+
+  it('should share events in both directions without echoing them back', async () => {
+    const [port1, port2] = createPorts()
+    const tab = createEventBus<AppEvents>()
+    const worker = createEventBus<AppEvents>()
+    const tabBridge = bridgeBus(tab, port1)
+    const workerBridge = bridgeBus(worker, port2)
+    const inTab = vi.fn()
+    const inWorker = vi.fn()
+    tab.on('cart:add', inTab)
+    worker.on('cart:add', inWorker)
+
+    const received = worker.waitFor('cart:add')
+    await tab.emit('cart:add', { sku: 'a' })
+    await received
+
+    expect(inWorker).toHaveBeenCalledWith(
+      { sku: 'a' },
+      expect.objectContaining({ metadata: { origin: tabBridge.origin } }),
+    )
+
+    // Messages arrive in order, so an echo of 'cart:add' would reach the tab before 'done'
+    const done = tab.waitFor('done')
+    await worker.emit('done', {})
+    await done
+
+    expect(inTab).toHaveBeenCalledTimes(1)
+    expect(inTab.mock.calls[0]?.[1].metadata).toEqual({})
+    expect(tabBridge.origin).not.toBe(workerBridge.origin)
+  })
+
+  it('should only post and accept events matching the patterns', async () => {
+    const channel = createFakeChannel()
+    const bus = createEventBus<AppEvents>()
+    const handler = vi.fn()
+    bridgeBus(bus, channel, { patterns: ['cart:*'], origin: 'local' })
+    bus.onPattern('**', handler)
+
+    await bus.emit('cart:add', { sku: 'a' })
+    await bus.emit('debug:trace', { message: 'hidden' })
+    deliver(channel, { type: 'ts-eventbus:event', origin: 'remote', event: 'debug:trace' })
+    deliver(channel, { type: 'other', origin: 'remote', event: 'cart:add' })
+    deliver(channel, 'not a bridge message')
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(2))
+
+    expect(channel.postMessage).toHaveBeenCalledTimes(1)
+    expect(channel.postMessage).toHaveBeenCalledWith({
+      type: 'ts-eventbus:event',
+      origin: 'local',
+      event: 'cart:add',
+      payload: { sku: 'a' },
+    })
+  })
+
+  it('should post after middleware registered later', async () => {
+    const channel = createFakeChannel()
+    const bus = createEventBus<AppEvents>()
+    bridgeBus(bus, channel, { origin: 'local' })
+    bus.useMiddleware(async (ctx, next) => {
+      if (ctx.event === 'debug:trace') {
+        return
+      }
+      if (ctx.event === 'cart:add') {
+        ctx.payload = { sku: '[redacted]' }
+      }
+      await next()
+    })
+
+    await bus.emit('debug:trace', { message: 'secret' })
+    await bus.emit('cart:add', { sku: 'pii' })
+
+    expect(channel.postMessage.mock.calls).toEqual([
+      [expect.objectContaining({ event: 'cart:add', payload: { sku: '[redacted]' } })],
+    ])
+  })
+
+  it('should respect the direction', async () => {
+    const channel = createFakeChannel()
+    const sender = createEventBus<AppEvents>()
+    const handler = vi.fn()
+    bridgeBus(sender, channel, { direction: 'send' })
+    sender.on('cart:add', handler)
+
+    deliver(channel, { type: 'ts-eventbus:event', origin: 'remote', event: 'cart:add' })
+    await sender.emit('cart:checkout', { total: 1 })
+    expect(handler).not.toHaveBeenCalled()
+    expect(channel.postMessage).toHaveBeenCalledTimes(1)
+
+    const receiver = createEventBus<AppEvents>()
+    bridgeBus(receiver, channel, { direction: 'receive' })
+    await receiver.emit('cart:checkout', { total: 2 })
+    expect(channel.postMessage).toHaveBeenCalledTimes(1)
+  })
+
+  it('should encode and decode payloads with the codec', async () => {
+    class Money {
+      constructor(readonly cents: number) {}
+    }
+    const [port1, port2] = createPorts()
+    const codec = {
+      encode: (payload: unknown) => ({ cents: (payload as { total: Money }).total.cents }),
+      decode: (data: unknown) => ({ total: new Money((data as { cents: number }).cents) }),
+    }
+    const shop = createEventBus()
+    const ledger = createEventBus()
+    bridgeBus(shop, port1, { codec, patterns: ['cart:checkout'] })
+    bridgeBus(ledger, port2, { codec, patterns: ['cart:checkout'] })
+
+    const received = ledger.waitFor('cart:checkout')
+    await shop.emit('cart:checkout', { total: new Money(250) })
+
+    await expect(received).resolves.toEqual({ total: new Money(250) })
+  })
+
+  it('should report payloads that cannot be posted without failing the emit', async () => {
+    const channel = createFakeChannel()
+    channel.postMessage.mockImplementation(() => {
+      throw new DOMException('could not be cloned', 'DataCloneError')
+    })
+    const onError = vi.fn()
+    const bus = createEventBus<AppEvents>()
+    const handler = vi.fn()
+    bridgeBus(bus, channel, { onError })
+    bus.on('cart:add', handler)
+
+    await bus.emit('cart:add', { sku: 'a' })
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(onError).toHaveBeenCalledWith(expect.any(DOMException), 'cart:add')
+  })
+
+  it('should stop bridging when closed or aborted', async () => {
+    const channel = createFakeChannel()
+    const bus = createEventBus<AppEvents>()
+    const handler = vi.fn()
+    const controller = new AbortController()
+    bus.on('cart:add', handler)
+
+    const bridge = bridgeBus(bus, channel)
+    bridge.close()
+    bridgeBus(bus, channel, { signal: controller.signal })
+    controller.abort()
+
+    await bus.emit('cart:checkout', { total: 1 })
+    deliver(channel, { type: 'ts-eventbus:event', origin: 'remote', event: 'cart:add' })
+    await Promise.resolve()
+
+    expect(channel.postMessage).not.toHaveBeenCalled()
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should reject malformed patterns', () => {
+    const bus = createEventBus()
+
+    expect(() => bridgeBus(bus, createFakeChannel(), { patterns: ['cart:{add'] })).toThrow(
+      'Invalid pattern "cart:{add"',
+    )
+  })
+})
@@ -0,0 +1,156 @@
+import type { EventBus, EventMap } from '../eventbus/eventbus.types'
+import { logger } from '../logger/logger'
+import type { PatternSyntax } from '../pattern-matcher/pattern-matcher.types'
+import type { Bridge, BridgeChannel, BridgeCodec, BridgeOptions } from './bridge.types'
+
+/** Marks messages posted by a bridge, so other traffic on a shared channel is ignored */
+const MESSAGE_TYPE = 'ts-eventbus:event'
+
+/** Envelope posted over the channel */
+interface BridgeMessage {
+  type: typeof MESSAGE_TYPE
+  origin: string
+  event: string
+  payload: unknown
+}
+
+/** Posts payloads as is, relying on structured cloning */
+const passThrough: BridgeCodec = {
+  encode: (payload) => payload,
+  decode: (data) => data,
+}
+
+/** Checks that channel data is an envelope posted by a bridge */
+function isBridgeMessage(data: unknown): data is BridgeMessage {
+  if (typeof data !== 'object' || data === null) {
+    return false
+  }
+  const message = data as Partial<BridgeMessage>
+  return (
+    message.type === MESSAGE_TYPE &&
+    typeof message.origin === 'string' &&
+    typeof message.event === 'string'
+  )
+}
+
+/**
+ * Connects a bus to a BroadcastChannel, MessagePort or worker port, so buses in other
+ * tabs, workers or threads share its events
+ * Local emits matching `patterns` are posted with this side's origin id; remote events are
+ * re-emitted locally with `metadata.origin` set to the sender's, and are never posted back
+ * @param bus - The local bus (or scope)
+ * @param channel - Channel shared with the other side
+ * @param options - Patterns, direction, codec and error reporting
+ * @returns Bridge handle; `close()` detaches from the channel without closing it
+ * @throws PatternSyntaxError if a pattern is malformed
+ * @example
+ * ```ts
+ * const bridge = bridgeBus(bus, new BroadcastChannel('app'), { patterns: ['cart:**'] })
+ * bus.on('cart:add', (item, { metadata }) => render(item, metadata.origin !== undefined))
+ * ```
+ */
+export function bridgeBus<
+  TEventMap extends EventMap,
+  TResponseMap extends EventMap,
+  TSyntax extends PatternSyntax,
+>(
+  bus: EventBus<TEventMap, TResponseMap, TSyntax>,
+  channel: BridgeChannel,
+  options: BridgeOptions = {},
+): Bridge {
+  const {
+    patterns = ['**'],
+    direction = 'both',
+    codec = passThrough,
+    origin = crypto.randomUUID(),
+    signal,
+    onError = (error: unknown, event: string) => {
+      logger.error(`Error bridging "${event}":`, error)
+    },
+  } = options
+
+  // Malformed patterns throw here rather than on the first emit
+  for (const pattern of patterns) {
+    bus.matches(pattern, '')
+  }
+
+  const isBridged = (event: string): boolean =>
+    patterns.some((pattern) => bus.matches(pattern, event))
+
+  // Origins seen on this channel; their events were re-emitted here and must not echo back
+  const peers = new Set<string>()
+
+  const post = (event: string, payload: unknown): void => {
+    try {
+      const message: BridgeMessage = {
+        type: MESSAGE_TYPE,
+        origin,
+        event,
+        payload: codec.encode(payload, event),
+      }
+      channel.postMessage(message)
+    } catch (error) {
+      onError(error, event)
+    }
+  }
+
+  // Innermost, so middleware registered later can still suppress or rewrite what is posted
+  const removeMiddleware =
+    direction === 'receive'
+      ? () => {}
+      : bus.useMiddleware(
+          (ctx, next) => {
+            const event = String(ctx.event)
+            const from = ctx.metadata.origin
+            if (!(typeof from === 'string' && peers.has(from)) && isBridged(event)) {
+              post(event, ctx.payload)
+            }
+            return next()
+          },
+          { innermost: true },
+        )
+
+  const receive = async ({ data }: { data: unknown }): Promise<void> => {
+    if (!isBridgeMessage(data) || data.origin === origin || !isBridged(data.event)) {
+      return
+    }
+
+    peers.add(data.origin)
+    try {
+      await bus.emit(
+        data.event as keyof TEventMap,
+        codec.decode(data.payload, data.event) as TEventMap[keyof TEventMap],
+        { metadata: { origin: data.origin } },
+      )
+    } catch (error) {
+      onError(error, data.event)
+    }
+  }
+
+  const onMessage = (event: { data: unknown }): void => {
+    void receive(event)
+  }
+
+  if (direction !== 'send') {
+    channel.addEventListener('message', onMessage)
+    channel.start?.()
+  }
+
+  const close = (): void => {
+    removeMiddleware()
+    channel.removeEventListener('message', onMessage)
+    signal?.removeEventListener('abort', close)
+  }
+
+  if (signal?.aborted) {
+    close()
+  } else {
+    signal?.addEventListener('abort', close, { once: true })
+  }
+
+  return {
+    origin,
+    close,
+    [Symbol.dispose]: close,
+  }
+}
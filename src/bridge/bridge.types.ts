@@ -0,0 +1,62 @@
+/**
+ * Which way events cross a bridge
+ * - `'both'`: post local events and re-emit remote ones
+ * - `'send'`: only post local events
+ * - `'receive'`: only re-emit remote events
+ */
+export type BridgeDirection = 'both' | 'send' | 'receive'
+
+/**
+ * Converts payloads to and from values the channel can clone
+ * Needed for payloads such as class instances or functions, which structured cloning drops or rejects
+ */
+export interface BridgeCodec {
+  /** Convert a local payload before it is posted */
+  encode(payload: unknown, event: string): unknown
+  /** Restore a payload received from the other side */
+  decode(data: unknown, event: string): unknown
+}
+
+/**
+ * Message channel a bridge posts to and listens on
+ * Satisfied by `BroadcastChannel`, `MessagePort`, `Worker` and worker_threads ports
+ */
+export interface BridgeChannel {
+  postMessage(message: unknown): void
+  addEventListener(type: 'message', listener: (event: { data: unknown }) => void): void
+  removeEventListener(type: 'message', listener: (event: { data: unknown }) => void): void
+  /** Called when present, since ports queue messages until started */
+  start?(): void
+}
+
+/**
+ * Options for bridgeBus
+ */
+export interface BridgeOptions {
+  /** Events that cross the bridge, in either direction (default: ['**']) */
+  patterns?: string[]
+  /** Which way events cross the bridge (default: 'both') */
+  direction?: BridgeDirection
+  /** Payload conversion for values the channel cannot clone (default: payloads are posted as is) */
+  codec?: BridgeCodec
+  /** Identifies this side in posted messages (default: a random UUID) */
+  origin?: string
+  /** Aborting closes the bridge */
+  signal?: AbortSignal
+  /**
+   * Called when a payload cannot be posted or a remote event fails locally
+   * When omitted, errors are logged
+   */
+  onError?: (error: unknown, event: string) => void
+}
+
+/**
+ * Handle returned by bridgeBus
+ */
+export interface Bridge {
+  /** Origin id this side attaches to the events it posts */
+  readonly origin: string
+  /** Stop posting and re-emitting events; the channel itself is left open */
+  close(): void
+  [Symbol.dispose](): void
+}
@@ -0,0 +1,47 @@
+/**
+ * Time source used by the EventBus for durations and timers
+ * Centralizes timer usage so tests can drive time deterministically
+ * Can be replaced with custom implementations (e.g., fake clocks)
+ */
+export interface Clock {
+  /** Current time in milliseconds */
+  now(): number
+  /**
+   * High-resolution time in milliseconds for measuring durations, from an arbitrary origin
+   * Durations are measured with `now` when omitted
+   */
+  monotonic?(): number
+  /** Schedule a callback after a delay, returning a handle for clearTimeout */
+  setTimeout(callback: () => void, delayMs: number): unknown
+  /** Cancel a callback scheduled with setTimeout */
+  clearTimeout(handle: unknown): void
+}
+
+/**
+ * Reads the clock used for durations
+ * @returns The clock's monotonic time if it has one, otherwise its current time
+ */
+export function elapsedTime(clock: Clock): number {
+  return clock.monotonic ? clock.monotonic() : clock.now()
+}
+
+/**
+ * Default clock backed by Date.now, performance.now and the global timer functions
+ */
+export const systemClock: Clock = {
+  now(): number {
+    return Date.now()
+  },
+
+  monotonic(): number {
+    return performance.now()
+  },
+
+  setTimeout(callback: () => void, delayMs: number): unknown {
+    return setTimeout(callback, delayMs)
+  },
+
+  clearTimeout(handle: unknown): void {
+    clearTimeout(handle as ReturnType<typeof setTimeout>)
+  },
+}
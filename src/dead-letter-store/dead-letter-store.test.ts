@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { createDeadLetterStore } from './dead-letter-store'
+import type { DeadLetter } from './dead-letter-store.types'
+
+const deadLetter = (event: string): Omit<DeadLetter, 'id'> => ({
+  event,
+  payload: {},
+  listenerId: Symbol('listener'),
+  pattern: event,
+  errors: [new Error('boom')],
+  emitId: 'emit:1',
+  failedAt: 0,
+})
+
+describe('DeadLetterStore', () => {
+  it('should assign unique IDs and list dead letters in insertion order', () => {
+    const store = createDeadLetterStore(10)
+
+    const first = store.add(deadLetter('order:placed'))
+    const second = store.add(deadLetter('order:shipped'))
+
+    expect(first).not.toBe(second)
+    expect(store.list().map((entry) => [entry.id, entry.event])).toEqual([
+      [first, 'order:placed'],
+      [second, 'order:shipped'],
+    ])
+    expect(store.get(first)?.event).toBe('order:placed')
+  })
+
+  it('should return copies from list', () => {
+    const store = createDeadLetterStore(10)
+    store.add(deadLetter('order:placed'))
+
+    store.list()[0]?.errors.push('mutated')
+
+    expect(store.list()[0]?.errors).toHaveLength(1)
+  })
+
+  it('should remove and clear dead letters', () => {
+    const store = createDeadLetterStore(10)
+    const id = store.add(deadLetter('order:placed'))
+    store.add(deadLetter('order:shipped'))
+
+    expect(store.remove(id)).toBe(true)
+    expect(store.remove(id)).toBe(false)
+    expect(store.list()).toHaveLength(1)
+
+    store.clear()
+    expect(store.list()).toEqual([])
+  })
+
+  it('should evict the oldest dead letters once the limit is reached', () => {
+    const store = createDeadLetterStore(2)
+    const first = store.add(deadLetter('order:placed'))
+    store.add(deadLetter('order:shipped'))
+    store.add(deadLetter('order:delivered'))
+
+    expect(store.get(first)).toBeUndefined()
+    expect(store.list().map((entry) => entry.event)).toEqual(['order:shipped', 'order:delivered'])
+  })
+
+  it('should keep nothing with a limit of 0 and reject invalid limits', () => {
+    const store = createDeadLetterStore(0)
+    store.add(deadLetter('order:placed'))
+
+    expect(store.list()).toEqual([])
+    expect(() => createDeadLetterStore(-1)).toThrow(RangeError)
+    expect(() => createDeadLetterStore(1.5)).toThrow(RangeError)
+  })
+})
@@ -0,0 +1,68 @@
+import type { DeadLetter } from './dead-letter-store.types'
+
+/**
+ * Stores dead letters in insertion order
+ */
+export interface DeadLetterStore {
+  /** Store a dead letter and return its generated ID, evicting the oldest once the store is full */
+  add(deadLetter: Omit<DeadLetter, 'id'>): string
+  /** Get a dead letter by ID */
+  get(id: string): DeadLetter | undefined
+  /** Get all dead letters, oldest first */
+  list(): DeadLetter[]
+  /** Remove a dead letter by ID */
+  remove(id: string): boolean
+  /** Remove all dead letters */
+  clear(): void
+}
+
+/**
+ * Creates a dead-letter store
+ * @param limit - Maximum number of dead letters kept; 0 disables recording
+ * @returns DeadLetterStore instance
+ * @throws RangeError if the limit is not a non-negative integer
+ */
+export function createDeadLetterStore(limit: number): DeadLetterStore {
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new RangeError(`Invalid deadLetterLimit ${limit}: expected a non-negative integer`)
+  }
+
+  const deadLetters = new Map<string, DeadLetter>()
+  let counter = 0
+
+  return {
+    add(deadLetter: Omit<DeadLetter, 'id'>): string {
+      counter++
+      const id = `dead-letter:${counter.toString(36)}`
+      if (limit === 0) {
+        return id
+      }
+
+      // Maps iterate in insertion order, so the first key is the oldest dead letter
+      if (deadLetters.size >= limit) {
+        deadLetters.delete(deadLetters.keys().next().value as string)
+      }
+      deadLetters.set(id, { ...deadLetter, id })
+      return id
+    },
+
+    get(id: string): DeadLetter | undefined {
+      return deadLetters.get(id)
+    },
+
+    list(): DeadLetter[] {
+      return [...deadLetters.values()].map((deadLetter) => ({
+        ...deadLetter,
+        errors: [...deadLetter.errors],
+      }))
+    },
+
+    remove(id: string): boolean {
+      return deadLetters.delete(id)
+    },
+
+    clear(): void {
+      deadLetters.clear()
+    },
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * A delivery that failed on every attempt allowed by its listener's retry policy
+ */
+export interface DeadLetter {
+  /** Identifier used to retry or remove the dead letter */
+  id: string
+  /** The event that was being delivered */
+  event: string
+  /** The payload the handler received */
+  payload: unknown
+  /** ID of the listener whose handler failed */
+  listenerId: symbol
+  /** Pattern the failing listener subscribed with */
+  pattern: string
+  /** The error of every attempt, oldest first */
+  errors: unknown[]
+  /** Identifier of the emit the delivery belonged to */
+  emitId: string
+  /** Time the delivery was given up on (milliseconds since epoch) */
+  failedAt: number
+}
+
+/**
+ * Result of redelivering a dead letter
+ * - `'delivered'` - the handler succeeded
+ * - `'failed'` - the handler failed again (after its retries) and a new dead letter was recorded
+ * - `'deferred'` - the listener's debounce or throttle window held the delivery back; it runs
+ *   when the window closes (a failure is then recorded as a new dead letter) unless a later
+ *   delivery replaces it
+ * - `'skipped'` - the listener's `where` filter rejected the payload; the dead letter is kept
+ * - `'missing'` - the dead letter or its listener no longer exists
+ */
+export type DeadLetterRetryStatus = 'delivered' | 'failed' | 'deferred' | 'skipped' | 'missing'
+
+/**
+ * Failed deliveries of listeners with a retry policy, kept for inspection and redrive
+ */
+export interface DeadLetterQueue {
+  /**
+   * Get all dead letters, oldest first
+   * @returns Copy of the stored dead letters
+   */
+  list(): DeadLetter[]
+
+  /**
+   * Redeliver a dead letter to its listener, through its `where` filter and rate limit
+   * The dead letter is removed once the handler runs or is deferred; if the listener
+   * fails again (after its retries) the failure is recorded as a new dead letter
+   * @param id - ID of the dead letter
+   * @returns Promise resolving to the outcome of the redelivery
+   * @example
+   * ```ts
+   * for (const letter of bus.deadLetters.list()) {
+   *   if ((await bus.deadLetters.retry(letter.id)) === 'failed') break
+   * }
+   * ```
+   */
+  retry(id: string): Promise<DeadLetterRetryStatus>
+
+  /**
+   * Discard a dead letter
+   * @param id - ID of the dead letter
+   * @returns True if a dead letter was removed
+   */
+  remove(id: string): boolean
+
+  /** Discard all dead letters */
+  clear(): void
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import type { Listener } from '../listener-store/listener-store'
+import { diagnoseListeners } from './diagnostics'
+
+const noop = () => {}
+
+const createListener = (pattern: string, overrides: Partial<Listener> = {}): Listener => ({
+  id: Symbol(pattern),
+  handler: noop,
+  priority: 0,
+  once: false,
+  pattern,
+  addedAt: 0,
+  executionCount: 0,
+  totalDuration: 0,
+  errorCount: 0,
+  timeoutCount: 0,
+  tags: [],
+  ...overrides,
+})
+
+const noLimit = () => undefined
+
+describe('diagnoseListeners', () => {
+  it('should report patterns over their listener limit', () => {
+    const listeners = [
+      createListener('user:login', { handler: () => {} }),
+      createListener('user:login', { handler: () => {} }),
+      createListener('user:logout', { handler: () => {} }),
+    ]
+
+    const diagnostics = diagnoseListeners(listeners, () => 1, 0)
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        kind: 'max-listeners-exceeded',
+        pattern: 'user:login',
+        listenerIds: [listeners[0]?.id, listeners[1]?.id],
+      }),
+    ])
+  })
+
+  it('should report old listeners that never ran', () => {
+    const stale = createListener('user:login', { addedAt: 0 })
+    const used = createListener('user:login', { addedAt: 0, executionCount: 3, handler: () => {} })
+    const fresh = createListener('user:login', { addedAt: 59_000, handler: () => {} })
+
+    const diagnostics = diagnoseListeners([stale, used, fresh], noLimit, 60_000)
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ kind: 'stale-listener', listenerIds: [stale.id] }),
+    ])
+  })
+
+  it('should honor a custom staleness threshold', () => {
+    const listener = createListener('user:login', { addedAt: 0 })
+
+    expect(diagnoseListeners([listener], noLimit, 1000, { staleAfterMs: 5000 })).toEqual([])
+    expect(diagnoseListeners([listener], noLimit, 1000, { staleAfterMs: 500 })).toHaveLength(1)
+  })
+
+  it('should report the same handler subscribed more than once', () => {
+    const handler = () => {}
+    const first = createListener('cart:*', { handler, addedAt: 100 })
+    const second = createListener('cart:*', { handler, addedAt: 100 })
+    const other = createListener('cart:*', { handler: () => {}, addedAt: 100 })
+
+    const diagnostics = diagnoseListeners([first, second, other], noLimit, 100)
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ kind: 'duplicate-handler', listenerIds: [first.id, second.id] }),
+    ])
+  })
+})
@@ -0,0 +1,82 @@
+import type { Listener } from '../listener-store/listener-store'
+import type { DiagnoseOptions, Diagnostic } from './diagnostics.types'
+
+/** Default age after which a listener that never ran is considered stale */
+const DEFAULT_STALE_AFTER_MS = 60_000
+
+/**
+ * Groups items by key, preserving their order
+ */
+function groupBy<T, K>(items: T[], keyOf: (item: T) => K): Map<K, T[]> {
+  const groups = new Map<K, T[]>()
+  for (const item of items) {
+    const key = keyOf(item)
+    const group = groups.get(key)
+    if (group) {
+      group.push(item)
+    } else {
+      groups.set(key, [item])
+    }
+  }
+  return groups
+}
+
+/**
+ * Finds suspicious listeners, such as leaks from components that re-subscribe on every render
+ * @param listeners - All registered listeners
+ * @param limitFor - Returns the maxListeners limit of a pattern (undefined = no limit)
+ * @param now - Current time, comparable with `Listener.addedAt`
+ * @param options - Optional thresholds
+ * @returns Diagnostics grouped by pattern; empty if nothing looks wrong
+ */
+export function diagnoseListeners(
+  listeners: Listener[],
+  limitFor: (pattern: string) => number | undefined,
+  now: number,
+  options: DiagnoseOptions = {},
+): Diagnostic[] {
+  const staleAfterMs = options.staleAfterMs ?? DEFAULT_STALE_AFTER_MS
+  const byPattern = groupBy(listeners, (listener) => listener.pattern)
+  const diagnostics: Diagnostic[] = []
+
+  for (const [pattern, group] of byPattern) {
+    const limit = limitFor(pattern)
+    if (limit !== undefined && group.length > limit) {
+      diagnostics.push({
+        kind: 'max-listeners-exceeded',
+        pattern,
+        listenerIds: group.map((listener) => listener.id),
+        message: `${group.length} listeners subscribed to "${pattern}" (limit ${limit})`,
+      })
+    }
+
+    const stale = group.filter(
+      (listener) =>
+        now - listener.addedAt >= staleAfterMs &&
+        listener.executionCount === 0 &&
+        listener.errorCount === 0 &&
+        listener.timeoutCount === 0,
+    )
+    if (stale.length > 0) {
+      diagnostics.push({
+        kind: 'stale-listener',
+        pattern,
+        listenerIds: stale.map((listener) => listener.id),
+        message: `${stale.length} listener(s) on "${pattern}" never ran in ${staleAfterMs}ms or more`,
+      })
+    }
+
+    for (const duplicates of groupBy(group, (listener) => listener.handler).values()) {
+      if (duplicates.length > 1) {
+        diagnostics.push({
+          kind: 'duplicate-handler',
+          pattern,
+          listenerIds: duplicates.map((listener) => listener.id),
+          message: `The same handler is subscribed ${duplicates.length} times to "${pattern}"`,
+        })
+      }
+    }
+  }
+
+  return diagnostics
+}
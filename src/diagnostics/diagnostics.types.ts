@@ -0,0 +1,29 @@
+/**
+ * Kind of problem found by `bus.diagnose()`
+ * - `'max-listeners-exceeded'` - a pattern has more listeners than its `maxListeners` limit
+ * - `'stale-listener'` - listeners that have never run although they were added long ago
+ * - `'duplicate-handler'` - the same handler function is subscribed more than once to a pattern
+ */
+export type DiagnosticKind = 'max-listeners-exceeded' | 'stale-listener' | 'duplicate-handler'
+
+/**
+ * A suspicious pattern reported by `bus.diagnose()`
+ */
+export interface Diagnostic {
+  /** What looks wrong */
+  kind: DiagnosticKind
+  /** The affected pattern */
+  pattern: string
+  /** The listeners involved */
+  listenerIds: symbol[]
+  /** Human-readable description */
+  message: string
+}
+
+/**
+ * Options for `bus.diagnose()`
+ */
+export interface DiagnoseOptions {
+  /** Age in milliseconds after which a listener that never ran is reported (default: 60000) */
+  staleAfterMs?: number
+}
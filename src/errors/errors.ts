@@ -0,0 +1,212 @@
+import type { HandlerError } from '../handler-executor/handler-executor.types'
+import type { ValidationIssue } from '../validation/validation.types'
+
+/**
+ * Rejection reason of `emit` when the error policy is `'throw'`
+ * Aggregates every handler error raised while emitting a single event
+ * @example
+ * ```ts
+ * try {
+ *   await bus.emit('user:login', payload)
+ * } catch (error) {
+ *   if (error instanceof EmitError) {
+ *     for (const failure of error.failures) console.log(failure.pattern, failure.error)
+ *   }
+ * }
+ * ```
+ */
+export class EmitError extends AggregateError {
+  override readonly name = 'EmitError'
+
+  /** The event whose handlers failed */
+  readonly event: string
+
+  /** Failed handlers with their listener IDs and patterns, in execution order */
+  readonly failures: HandlerError[]
+
+  constructor(event: string, failures: HandlerError[]) {
+    super(
+      failures.map((failure) => failure.error),
+      `${failures.length} handler(s) failed for event "${event}"`,
+    )
+    this.event = event
+    this.failures = failures
+  }
+}
+
+/**
+ * Reported when an async handler does not settle within its timeout
+ * Passed to onError callbacks and plugin hooks like any other handler error
+ */
+export class HandlerTimeoutError extends Error {
+  override readonly name = 'HandlerTimeoutError'
+
+  /** The event whose handler timed out */
+  readonly event: string
+
+  /** ID of the listener that timed out */
+  readonly listenerId: symbol
+
+  /** Pattern the listener subscribed with */
+  readonly pattern: string
+
+  /** The timeout that was exceeded, in milliseconds */
+  readonly timeoutMs: number
+
+  constructor(event: string, listenerId: symbol, pattern: string, timeoutMs: number) {
+    super(`Handler for "${event}" (pattern "${pattern}") timed out after ${timeoutMs}ms`)
+    this.event = event
+    this.listenerId = listenerId
+    this.pattern = pattern
+    this.timeoutMs = timeoutMs
+  }
+}
+
+/**
+ * Rejection reason of `request` when no responder is registered for the event
+ */
+export class NoResponderError extends Error {
+  override readonly name = 'NoResponderError'
+
+  /** The event that was requested */
+  readonly event: string
+
+  constructor(event: string) {
+    super(`No responder registered for "${event}"`)
+    this.event = event
+  }
+}
+
+/**
+ * Rejection reason of `request` and `requestAll` when responders do not answer in time
+ */
+export class RequestTimeoutError extends Error {
+  override readonly name = 'RequestTimeoutError'
+
+  /** The event that was requested */
+  readonly event: string
+
+  /** The timeout that was exceeded, in milliseconds */
+  readonly timeoutMs: number
+
+  constructor(event: string, timeoutMs: number) {
+    super(`Request for "${event}" timed out after ${timeoutMs}ms`)
+    this.event = event
+    this.timeoutMs = timeoutMs
+  }
+}
+
+/**
+ * Rejection reason of `waitFor` when no matching event arrives in time
+ */
+export class WaitForTimeoutError extends Error {
+  override readonly name = 'WaitForTimeoutError'
+
+  /** The event that was awaited */
+  readonly event: string
+
+  /** The timeout that was exceeded, in milliseconds */
+  readonly timeoutMs: number
+
+  constructor(event: string, timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms waiting for "${event}"`)
+    this.event = event
+    this.timeoutMs = timeoutMs
+  }
+}
+
+/**
+ * Thrown by a stream iterator whose buffer overflowed with the 'error' overflow policy
+ */
+export class StreamOverflowError extends Error {
+  override readonly name = 'StreamOverflowError'
+
+  /** The event or pattern being streamed */
+  readonly pattern: string
+
+  /** The buffer size that was exceeded */
+  readonly bufferSize: number
+
+  constructor(pattern: string, bufferSize: number) {
+    super(`Stream for "${pattern}" exceeded its buffer size of ${bufferSize}`)
+    this.pattern = pattern
+    this.bufferSize = bufferSize
+  }
+}
+
+/**
+ * Logged as a warning when a pattern has more listeners than its `maxListeners` limit
+ * Created while adding the offending listener, so its stack shows where that happened
+ */
+export class MaxListenersExceededWarning extends Error {
+  override readonly name = 'MaxListenersExceededWarning'
+
+  /** The pattern with too many listeners */
+  readonly pattern: string
+
+  /** Number of listeners after the offending one was added */
+  readonly count: number
+
+  /** The limit that was exceeded */
+  readonly limit: number
+
+  constructor(pattern: string, count: number, limit: number) {
+    super(
+      `Possible listener leak: ${count} listeners subscribed to "${pattern}" (limit ${limit}). ` +
+        'Remove listeners that are no longer needed or raise maxListeners',
+    )
+    this.pattern = pattern
+    this.count = count
+    this.limit = limit
+  }
+}
+
+/**
+ * Rejection reason of `emit` when a payload does not match its event's schema
+ * No listener runs for an invalid payload
+ */
+export class ValidationError extends Error {
+  override readonly name = 'ValidationError'
+
+  /** The event whose payload is invalid */
+  readonly event: string
+
+  /** Every problem reported by the schema */
+  readonly issues: ValidationIssue[]
+
+  constructor(event: string, issues: ValidationIssue[]) {
+    const details = issues
+      .map(
+        (issue) =>
+          `${issue.path.length > 0 ? issue.path.map(String).join('.') : '(root)'}: ${issue.message}`,
+      )
+      .join('; ')
+    super(`Invalid payload for "${event}": ${details}`)
+    this.event = event
+    this.issues = issues
+  }
+}
+
+/**
+ * Thrown when subscribing with a malformed pattern (e.g. an unclosed `{` or an empty `!`)
+ * @example
+ * ```ts
+ * bus.onPattern('user:{login,logout', handler)
+ * // PatternSyntaxError: Invalid pattern "user:{login,logout": unclosed "{" at index 5
+ * ```
+ */
+export class PatternSyntaxError extends Error {
+  override readonly name = 'PatternSyntaxError'
+
+  /** The malformed pattern */
+  readonly pattern: string
+
+  /** Position of the problem in the pattern */
+  readonly index: number
+
+  constructor(pattern: string, index: number, reason: string) {
+    super(`Invalid pattern "${pattern}": ${reason} at index ${index}`)
+    this.pattern = pattern
+    this.index = index
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { EventBus } from '../eventbus/eventbus.types'
+import { createPatternMatcher } from '../pattern-matcher/pattern-matcher'
+import { createEventHistory } from './event-history'
+import type { HistoryEntry } from './event-history.types'
+
+const entry = (event: string, timestamp: number): HistoryEntry => ({
+  event,
+  payload: { timestamp },
+  emitId: `emit:${timestamp}`,
+  timestamp,
+  duration: 0,
+  handlerCount: 0,
+  errorCount: 0,
+})
+
+describe('EventHistory', () => {
+  it('should keep the most recent entries, oldest first', () => {
+    const history = createEventHistory(createPatternMatcher(), 3)
+
+    for (let timestamp = 1; timestamp <= 5; timestamp++) {
+      history.record(entry('test:event', timestamp))
+    }
+
+    expect(history.query().map((e) => e.timestamp)).toEqual([3, 4, 5])
+  })
+
+  it('should record nothing when disabled', () => {
+    const history = createEventHistory(createPatternMatcher(), 0)
+
+    history.record(entry('test:event', 1))
+
+    expect(history.query()).toEqual([])
+  })
+
+  it('should filter by pattern, start time and limit', () => {
+    const history = createEventHistory(createPatternMatcher(), 10)
+
+    history.record(entry('user:login', 1))
+    history.record(entry('cart:add', 2))
+    history.record(entry('user:logout', 3))
+    history.record(entry('user:login', 4))
+
+    expect(history.query({ pattern: 'user:*' }).map((e) => e.timestamp)).toEqual([1, 3, 4])
+    expect(history.query({ since: 3 }).map((e) => e.timestamp)).toEqual([3, 4])
+    expect(history.query({ pattern: 'user:*', limit: 2 }).map((e) => e.timestamp)).toEqual([3, 4])
+    expect(history.query({ limit: 0 })).toEqual([])
+  })
+
+  it('should replay matching entries into a target bus in order', async () => {
+    const history = createEventHistory(createPatternMatcher(), 10)
+    const emit = vi.fn(async () => {})
+    const target = { emit } as unknown as EventBus
+
+    history.record(entry('user:login', 1))
+    history.record(entry('cart:add', 2))
+    history.record(entry('user:logout', 3))
+    await history.replay(target, { pattern: 'user:*' })
+
+    expect(emit.mock.calls).toEqual([
+      ['user:login', { timestamp: 1 }],
+      ['user:logout', { timestamp: 3 }],
+    ])
+  })
+
+  it('should reject invalid sizes', () => {
+    expect(() => createEventHistory(createPatternMatcher(), -1)).toThrow(RangeError)
+    expect(() => createEventHistory(createPatternMatcher(), 1.5)).toThrow(RangeError)
+  })
+})
@@ -0,0 +1,83 @@
+import type { EventBus, EventMap } from '../eventbus/eventbus.types'
+import type { PatternMatcher } from '../pattern-matcher/pattern-matcher'
+import type { PatternSyntax } from '../pattern-matcher/pattern-matcher.types'
+import type { EventHistory, HistoryEntry, HistoryQuery } from './event-history.types'
+
+/**
+ * Event history with the recording side used by the bus
+ */
+export interface EventHistoryRecorder extends EventHistory {
+  /** Record an emit, evicting the oldest entry once the history is full */
+  record(entry: HistoryEntry): void
+}
+
+/**
+ * Re-emits entries into a bus one at a time
+ * @param entries - Entries to replay, oldest first
+ * @param target - The bus to emit into
+ */
+export async function replayEntries<TEventMap extends EventMap, TSyntax extends PatternSyntax>(
+  entries: HistoryEntry[],
+  target: EventBus<TEventMap, EventMap, TSyntax>,
+): Promise<void> {
+  for (const { event, payload } of entries) {
+    await target.emit(event as keyof TEventMap, payload as TEventMap[keyof TEventMap])
+  }
+}
+
+/**
+ * Creates an event history backed by a ring buffer
+ * @param patternMatcher - Matcher used to filter entries by pattern
+ * @param size - Maximum number of entries kept; 0 disables recording
+ * @returns EventHistoryRecorder instance
+ * @throws RangeError if the size is not a non-negative integer
+ */
+export function createEventHistory(
+  patternMatcher: PatternMatcher,
+  size: number,
+): EventHistoryRecorder {
+  if (!Number.isInteger(size) || size < 0) {
+    throw new RangeError(`Invalid historySize ${size}: expected a non-negative integer`)
+  }
+
+  const buffer: HistoryEntry[] = []
+  // Index of the oldest entry once the buffer is full
+  let start = 0
+
+  const query = (filter: HistoryQuery = {}): HistoryEntry[] => {
+    const { pattern, since, limit } = filter
+    const ordered = [...buffer.slice(start), ...buffer.slice(0, start)]
+    const matching = ordered.filter(
+      (entry) =>
+        (pattern === undefined || patternMatcher.matches(pattern, entry.event)) &&
+        (since === undefined || entry.timestamp >= since),
+    )
+
+    return limit === undefined ? matching : matching.slice(Math.max(matching.length - limit, 0))
+  }
+
+  return {
+    record(entry: HistoryEntry): void {
+      if (size === 0) {
+        return
+      }
+
+      if (buffer.length < size) {
+        buffer.push(entry)
+        return
+      }
+
+      buffer[start] = entry
+      start = (start + 1) % size
+    },
+
+    query,
+
+    replay<TEventMap extends EventMap, TSyntax extends PatternSyntax>(
+      target: EventBus<TEventMap, EventMap, TSyntax>,
+      filter?: HistoryQuery,
+    ): Promise<void> {
+      return replayEntries(query(filter), target)
+    },
+  }
+}
@@ -0,0 +1,68 @@
+import type { EventBus, EventMap } from '../eventbus/eventbus.types'
+import type { PatternSyntax } from '../pattern-matcher/pattern-matcher.types'
+
+/**
+ * A recorded emit
+ */
+export interface HistoryEntry {
+  /** The emitted event */
+  event: string
+  /** The payload after middleware, as handlers received it (a reference, not a copy) */
+  payload: unknown
+  /** Identifier of the emit, as seen by handlers */
+  emitId: string
+  /** Time the emit started (milliseconds since epoch) */
+  timestamp: number
+  /** Time from the start of the emit until all handlers finished, in milliseconds */
+  duration: number
+  /** Number of handlers the event was delivered to */
+  handlerCount: number
+  /** Number of handlers that threw, rejected or timed out */
+  errorCount: number
+}
+
+/**
+ * Filter for history queries
+ */
+export interface HistoryQuery {
+  /** Only include events matching this name or pattern */
+  pattern?: string
+  /** Only include emits that started at or after this time (milliseconds since epoch) */
+  since?: number
+  /** Only include the most recent matching entries */
+  limit?: number
+}
+
+/**
+ * Bounded record of recent emits, enabled with the `historySize` config option
+ */
+export interface EventHistory {
+  /**
+   * Get recorded emits, oldest first
+   * @param filter - Optional pattern, start time and limit
+   * @returns Matching entries
+   * @example
+   * ```ts
+   * bus.history.query({ pattern: 'user:*', since: Date.now() - 60_000, limit: 20 })
+   * ```
+   */
+  query(filter?: HistoryQuery): HistoryEntry[]
+
+  /**
+   * Re-emit recorded events into another bus, one at a time and oldest first
+   * @param target - The bus to emit into
+   * @param filter - Optional filter selecting the entries to replay
+   * @returns Promise that resolves once every replayed emit completes
+   * @throws Whatever the target's emit rejects with; later entries are not replayed
+   * @example
+   * ```ts
+   * const repro = createEventBus<AppEvents>()
+   * repro.on('cart:*', handler)
+   * await bus.history.replay(repro, { pattern: 'cart:*' })
+   * ```
+   */
+  replay<TEventMap extends EventMap, TSyntax extends PatternSyntax>(
+    target: EventBus<TEventMap, EventMap, TSyntax>,
+    filter?: HistoryQuery,
+  ): Promise<void>
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from 'vitest'
+import { StreamOverflowError } from '../errors/errors'
+import type { ListenerHandler } from '../listener-store/listener-store.types'
+import { createEventStream } from './event-stream'
+
+const createSubscription = () => {
+  let current: ListenerHandler<unknown> | undefined
+  const unsubscribe = vi.fn(() => {
+    current = undefined
+  })
+
+  return {
+    subscribe: (handler: ListenerHandler<unknown>) => {
+      current = handler
+      return unsubscribe
+    },
+    deliver: (payload: unknown) => current?.(payload, {} as Parameters<ListenerHandler>[1]),
+    unsubscribe,
+  }
+}
+
+describe('EventStream', () => {
+  it('should yield delivered payloads in order', async () => {
+    const subscription = createSubscription()
+    const stream = createEventStream<number>('test:event', subscription.subscribe)
+
+    subscription.deliver(1)
+    const pending = stream.next()
+    subscription.deliver(2)
+
+    await expect(stream.next()).resolves.toEqual({ done: false, value: 2 })
+    await expect(pending).resolves.toEqual({ done: false, value: 1 })
+  })
+
+  it('should resolve waiting consumers when a payload arrives', async () => {
+    const subscription = createSubscription()
+    const stream = createEventStream<number>('test:event', subscription.subscribe)
+
+    const pending = stream.next()
+    subscription.deliver(1)
+
+    await expect(pending).resolves.toEqual({ done: false, value: 1 })
+  })
+
+  it('should unsubscribe when breaking out of for await', async () => {
+    const subscription = createSubscription()
+    const stream = createEventStream<number>('test:event', subscription.subscribe)
+    const received: number[] = []
+
+    subscription.deliver(1)
+    subscription.deliver(2)
+
+    for await (const payload of stream) {
+      received.push(payload)
+      if (payload === 2) {
+        break
+      }
+    }
+
+    expect(received).toEqual([1, 2])
+    expect(subscription.unsubscribe).toHaveBeenCalledTimes(1)
+    await expect(stream.next()).resolves.toEqual({ done: true, value: undefined })
+  })
+
+  it('should drop the oldest payload on overflow by default', async () => {
+    const subscription = createSubscription()
+    const stream = createEventStream<number>('test:event', subscription.subscribe, {
+      bufferSize: 2,
+    })
+
+    subscription.deliver(1)
+    subscription.deliver(2)
+    subscription.deliver(3)
+
+    await expect(stream.next()).resolves.toEqual({ done: false, value: 2 })
+    await expect(stream.next()).resolves.toEqual({ done: false, value: 3 })
+  })
+
+  it('should drop the newest payload with the drop-newest policy', async () => {
+    const subscription = createSubscription()
+    const stream = createEventStream<number>('test:event', subscription.subscribe, {
+      bufferSize: 2,
+      overflow: 'drop-newest',
+    })
+
+    subscription.deliver(1)
+    subscription.deliver(2)
+    subscription.deliver(3)
+
+    await expect(stream.next()).resolves.toEqual({ done: false, value: 1 })
+    await expect(stream.next()).resolves.toEqual({ done: false, value: 2 })
+  })
+
+  it('should throw after draining the buffer with the error policy', async () => {
+    const subscription = createSubscription()
+    const stream = createEventStream<number>('test:event', subscription.subscribe, {
+      bufferSize: 1,
+      overflow: 'error',
+    })
+
+    subscription.deliver(1)
+    subscription.deliver(2)
+
+    expect(subscription.unsubscribe).toHaveBeenCalledTimes(1)
+    await expect(stream.next()).resolves.toEqual({ done: false, value: 1 })
+    await expect(stream.next()).rejects.toBeInstanceOf(StreamOverflowError)
+    await expect(stream.next()).resolves.toEqual({ done: true, value: undefined })
+  })
+
+  it('should end the stream when the signal aborts', async () => {
+    const subscription = createSubscription()
+    const controller = new AbortController()
+    const stream = createEventStream<number>('test:event', subscription.subscribe, {
+      signal: controller.signal,
+    })
+
+    const pending = stream.next()
+    controller.abort()
+
+    await expect(pending).resolves.toEqual({ done: true, value: undefined })
+    expect(subscription.unsubscribe).toHaveBeenCalledTimes(1)
+  })
+
+  it('should reject invalid buffer sizes', () => {
+    const subscription = createSubscription()
+
+    expect(() =>
+      createEventStream('test:event', subscription.subscribe, { bufferSize: 0 }),
+    ).toThrow(RangeError)
+  })
+})
@@ -0,0 +1,114 @@
+import { StreamOverflowError } from '../errors/errors'
+import type { SubscribeFn } from '../wait-for/wait-for'
+import type { StreamOptions } from './event-stream.types'
+
+const DEFAULT_BUFFER_SIZE = 100
+
+/**
+ * Creates an async iterator over payloads delivered to a listener
+ * The listener is registered immediately and removed when the iterator returns
+ * (e.g., breaking out of `for await`), when the signal aborts, or on overflow error
+ *
+ * Payloads are buffered while the consumer is busy. Handlers never wait for the
+ * consumer, so a slow consumer does not slow down emit
+ * @template T - The type of the streamed payloads
+ * @param pattern - The event or pattern being streamed (used in error messages)
+ * @param subscribe - Registers the stream's listener
+ * @param options - Optional buffer size, overflow policy and signal
+ * @returns Async iterable iterator of payloads
+ * @throws RangeError if `options.bufferSize` is not a positive integer
+ */
+export function createEventStream<T>(
+  pattern: string,
+  subscribe: SubscribeFn,
+  options: StreamOptions = {},
+): AsyncIterableIterator<T> {
+  const { signal } = options
+  const bufferSize = options.bufferSize ?? DEFAULT_BUFFER_SIZE
+  const overflow = options.overflow ?? 'drop-oldest'
+
+  if (!Number.isInteger(bufferSize) || bufferSize < 1) {
+    throw new RangeError(`Invalid bufferSize ${bufferSize}: expected a positive integer`)
+  }
+
+  const buffer: T[] = []
+  const waiting: Array<(result: IteratorResult<T>) => void> = []
+  let closed = false
+  let failure: StreamOverflowError | undefined
+
+  const close = (): void => {
+    if (closed) {
+      return
+    }
+    closed = true
+    unsubscribe()
+    signal?.removeEventListener('abort', close)
+
+    // Consumers waiting on an empty buffer are finished right away
+    for (const resolve of waiting.splice(0)) {
+      resolve({ done: true, value: undefined })
+    }
+  }
+
+  const push = (payload: T): void => {
+    const next = waiting.shift()
+    if (next) {
+      next({ done: false, value: payload })
+      return
+    }
+
+    if (buffer.length < bufferSize) {
+      buffer.push(payload)
+      return
+    }
+
+    if (overflow === 'drop-oldest') {
+      buffer.shift()
+      buffer.push(payload)
+    } else if (overflow === 'error') {
+      failure = new StreamOverflowError(pattern, bufferSize)
+      close()
+    }
+  }
+
+  const unsubscribe = subscribe((payload) => {
+    if (!closed) {
+      push(payload as T)
+    }
+  })
+
+  if (signal?.aborted) {
+    close()
+  } else {
+    signal?.addEventListener('abort', close, { once: true })
+  }
+
+  const iterator: AsyncIterableIterator<T> = {
+    next(): Promise<IteratorResult<T>> {
+      if (buffer.length > 0) {
+        return Promise.resolve({ done: false, value: buffer.shift() as T })
+      }
+      if (failure) {
+        const error = failure
+        failure = undefined
+        return Promise.reject(error)
+      }
+      if (closed) {
+        return Promise.resolve({ done: true, value: undefined })
+      }
+      return new Promise((resolve) => waiting.push(resolve))
+    },
+
+    return(): Promise<IteratorResult<T>> {
+      close()
+      buffer.length = 0
+      return Promise.resolve({ done: true, value: undefined })
+    },
+
+    [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+      return iterator
+    },
+  }
+
+  return iterator
+}
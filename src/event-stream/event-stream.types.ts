@@ -0,0 +1,19 @@
+/**
+ * What a stream does when a payload arrives while its buffer is full
+ * - `'drop-oldest'` - discard the oldest buffered payload (default)
+ * - `'drop-newest'` - discard the incoming payload
+ * - `'error'` - end the stream; the iterator throws a StreamOverflowError once drained
+ */
+export type StreamOverflowPolicy = 'drop-oldest' | 'drop-newest' | 'error'
+
+/**
+ * Options for consuming events as an async iterator
+ */
+export interface StreamOptions {
+  /** Maximum number of payloads buffered while the consumer is busy (default: 100) */
+  bufferSize?: number
+  /** What to do when the buffer is full (default: 'drop-oldest') */
+  overflow?: StreamOverflowPolicy
+  /** Aborting ends the stream */
+  signal?: AbortSignal
+}
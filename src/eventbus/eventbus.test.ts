@@ -1,5 +1,17 @@
-import { describe, expect, it } from 'vitest'
+import { afterEach, describe, expect, expectTypeOf, it, vi } from 'vitest'
+import {
+  EmitError,
+  HandlerTimeoutError,
+  MaxListenersExceededWarning,
+  PatternSyntaxError,
+  ValidationError,
+} from '../errors/errors'
+import { createMemoryStorage } from '../outbox/outbox'
+import type { PatternHandler } from '../pattern-matcher/pattern-matcher.types'
+import type { Plugin } from '../plugin-manager/plugin-manager.types'
+import type { StandardSchemaV1 } from '../validation/standard-schema.types'
 import { createEventBus } from './eventbus'
+import type { EventBus, EventMap } from './eventbus.types'
 
 interface TestEvents extends Record<string, unknown> {
   'test:event': { message: string }
@@ -93,6 +105,340 @@ describe('EventBus', () => {
 
       expect(count).toBe(3)
     })
+
+    it('should match a single segment with * and any number with ** or #', async () => {
+      const bus = createEventBus({ wildcards: 'segment' })
+      const received: string[] = []
+
+      bus.onPattern('user:*', (_payload, { event }) => {
+        received.push(`* ${event}`)
+      })
+      bus.onPattern('user:**', (_payload, { event }) => {
+        received.push(`** ${event}`)
+      })
+      bus.onPattern('#:updated', (_payload, { event }) => {
+        received.push(`# ${event}`)
+      })
+
+      await bus.emit('user:login', {})
+      await bus.emit('user:profile:updated', {})
+
+      expect(received).toEqual([
+        '* user:login',
+        '** user:login',
+        '** user:profile:updated',
+        '# user:profile:updated',
+      ])
+    })
+
+    it('should use the configured delimiter', async () => {
+      const bus = createEventBus({ wildcards: 'segment', delimiter: '.' })
+      const handler = vi.fn()
+
+      bus.onPattern('user.*', handler)
+      await bus.emit('user.login', {})
+      await bus.emit('user.profile.updated', {})
+      await bus.emit('user:login', {})
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(bus.scope('cart').scope('items').namespace).toBe('cart.items')
+    })
+
+    it('should keep the previous wildcard behavior in legacy mode', async () => {
+      const bus = createEventBus({ wildcards: 'legacy' })
+      const handler = vi.fn()
+
+      bus.onPattern('user:*', handler)
+      bus.onPattern('*', handler)
+      await bus.emit('user:profile:updated', {})
+
+      expect(handler).toHaveBeenCalledTimes(2)
+    })
+
+    it('should match alternations, single characters and negations', async () => {
+      const bus = createEventBus()
+      const received: string[] = []
+
+      bus.onPattern('user:{login,logout}', (_payload, { event }) => {
+        received.push(`{} ${event}`)
+      })
+      bus.onPattern('user:log??t', (_payload, { event }) => {
+        received.push(`? ${event}`)
+      })
+      bus.onPattern('!user:**', (_payload, { event }) => {
+        received.push(`! ${event}`)
+      })
+
+      await bus.emit('user:login', {})
+      await bus.emit('user:logout', {})
+      await bus.emit('order:created', {})
+
+      expect(received).toEqual([
+        '{} user:login',
+        '{} user:logout',
+        '? user:logout',
+        '! order:created',
+      ])
+    })
+
+    it('should skip events matching an exclude pattern', async () => {
+      const bus = createEventBus()
+      const handler = vi.fn()
+
+      bus.onPattern('**', handler, { exclude: ['debug:**', 'user:ping'] })
+      await bus.emit('debug:trace', {})
+      await bus.emit('user:ping', {})
+      await bus.emit('user:login', {})
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(handler).toHaveBeenCalledWith({}, expect.objectContaining({ event: 'user:login' }))
+    })
+
+    it('should expose its matching rules through matches', () => {
+      const bus = createEventBus({ wildcards: 'segment', delimiter: '.' })
+
+      expect(bus.matches('user.*', 'user.login')).toBe(true)
+      expect(bus.matches('user.*', 'user.profile.updated')).toBe(false)
+      expect(bus.scope('user').matches('!login', 'logout')).toBe(true)
+    })
+
+    it('should reject malformed patterns when subscribing', () => {
+      const bus = createEventBus()
+
+      expect(() => bus.onPattern('user:{login', () => {})).toThrow(PatternSyntaxError)
+      expect(() => bus.onPattern('**', () => {}, { exclude: ['!!debug'] })).toThrow(
+        'Invalid pattern "!!debug": negation cannot be nested at index 1',
+      )
+      expect(bus.getListeners().size).toBe(0)
+    })
+  })
+
+  describe('pattern types', () => {
+    type TypedEvents = {
+      'user:login': { id: string; email: string }
+      'user:logout': { id: string }
+      'order:created': { total: number }
+      'order:item:added': { sku: string }
+    }
+
+    it('should type pattern payloads as the union of matching events', () => {
+      const bus = createEventBus<TypedEvents>()
+
+      bus.onPattern('user:*', (payload, context) => {
+        expectTypeOf(payload).toEqualTypeOf<{ id: string; email: string } | { id: string }>()
+        expectTypeOf(context.event).toEqualTypeOf<'user:login' | 'user:logout'>()
+      })
+      bus.onPattern('*:created', (payload) => {
+        expectTypeOf(payload).toEqualTypeOf<{ total: number }>()
+      })
+      bus.onPattern('order:*:added', (payload) => {
+        expectTypeOf(payload).toEqualTypeOf<{ sku: string }>()
+      })
+      bus.onPattern('*', (_payload, context) => {
+        expectTypeOf(context.event).toEqualTypeOf<keyof TypedEvents>()
+      })
+    })
+
+    it('should pair each matching payload with its event name', () => {
+      type Args = Parameters<PatternHandler<TypedEvents, 'user:login' | 'user:logout'>>
+
+      expectTypeOf<Extract<Args, [unknown, { event: 'user:login' }]>[0]>().toEqualTypeOf<{
+        id: string
+        email: string
+      }>()
+      expectTypeOf<Extract<Args, [unknown, { event: 'user:logout' }]>[0]>().toEqualTypeOf<{
+        id: string
+      }>()
+    })
+
+    it('should accept patterns typed as string', () => {
+      const bus = createEventBus<TypedEvents>()
+      const pattern: string = 'user:*'
+
+      bus.onPattern(pattern, (_payload, context) => {
+        expectTypeOf(context.event).toEqualTypeOf<keyof TypedEvents>()
+      })
+    })
+
+    it('should type multi-level wildcards', () => {
+      const bus = createEventBus<TypedEvents, EventMap, 'segment'>({ wildcards: 'segment' })
+
+      bus.onPattern('order:**', (_payload, context) => {
+        expectTypeOf(context.event).toEqualTypeOf<'order:created' | 'order:item:added'>()
+      })
+      bus.onPattern('#:added', (payload) => {
+        expectTypeOf(payload).toEqualTypeOf<{ sku: string }>()
+      })
+      bus.onPattern('user:login:**', (payload) => {
+        expectTypeOf(payload).toEqualTypeOf<{ id: string; email: string }>()
+      })
+      bus.onPattern('order:#:item:added', (payload) => {
+        expectTypeOf(payload).toEqualTypeOf<{ sku: string }>()
+      })
+      // @ts-expect-error - no event starts with 'admin'
+      bus.onPattern('admin:**', () => {})
+    })
+
+    it('should type alternations, single characters and negations', () => {
+      const bus = createEventBus<TypedEvents>()
+
+      bus.onPattern('user:{login,logout}', (_payload, context) => {
+        expectTypeOf(context.event).toEqualTypeOf<'user:login' | 'user:logout'>()
+      })
+      bus.onPattern('{user,order}:created', (payload) => {
+        expectTypeOf(payload).toEqualTypeOf<{ total: number }>()
+      })
+      bus.onPattern('user:log??t', (payload) => {
+        expectTypeOf(payload).toEqualTypeOf<{ id: string }>()
+      })
+      bus.onPattern('!user:{login,logout}', (_payload, context) => {
+        expectTypeOf(context.event).toEqualTypeOf<'order:created' | 'order:item:added'>()
+      })
+      bus.onPattern('!user:*', (_payload, context) => {
+        expectTypeOf(context.event).toEqualTypeOf<'order:created' | 'order:item:added'>()
+      })
+      // @ts-expect-error - no alternative is a known event
+      bus.onPattern('user:{signup,delete}', () => {})
+    })
+
+    it('should type patterns by the wildcard mode of the bus', () => {
+      const legacy = createEventBus<TypedEvents>()
+      const segment = createEventBus<TypedEvents, EventMap, 'segment'>({ wildcards: 'segment' })
+
+      legacy.onPattern('order:*', (_payload, context) => {
+        expectTypeOf(context.event).toEqualTypeOf<'order:created' | 'order:item:added'>()
+      })
+      segment.onPattern('order:*', (_payload, context) => {
+        expectTypeOf(context.event).toEqualTypeOf<'order:created'>()
+      })
+      segment.onPattern('!order:*', (_payload, context) => {
+        expectTypeOf(context.event).toEqualTypeOf<
+          'user:login' | 'user:logout' | 'order:item:added'
+        >()
+      })
+      // @ts-expect-error - * matches a single segment, and every event has two or more
+      segment.onPattern('*', () => {})
+      // @ts-expect-error - the wildcard mode must match the type argument
+      createEventBus<TypedEvents, EventMap, 'segment'>({ wildcards: 'legacy' })
+    })
+
+    it('should infer the syntax from the config or type patterns permissively', () => {
+      const inferred = createEventBus({ wildcards: 'segment', delimiter: '.' })
+      const permissive = createEventBus<TypedEvents>({ wildcards: 'segment', delimiter: '.' })
+
+      expectTypeOf(inferred).toEqualTypeOf<
+        EventBus<EventMap, EventMap, { wildcards: 'segment'; delimiter: '.' }>
+      >()
+      permissive.onPattern('user.*', (_payload, context) => {
+        expectTypeOf(context.event).toEqualTypeOf<keyof TypedEvents>()
+      })
+      permissive.on('user:login', (payload) => {
+        expectTypeOf(payload).toEqualTypeOf<{ id: string; email: string }>()
+      })
+      permissive.scope('user').on('login', () => {})
+    })
+
+    it('should type patterns and scopes with the configured delimiter', () => {
+      const bus = createEventBus<
+        { 'cart.add': { sku: string }; 'cart.item.removed': { sku: string } },
+        EventMap,
+        'segment',
+        '.'
+      >({ wildcards: 'segment', delimiter: '.' })
+
+      bus.onPattern('cart.*', (_payload, context) => {
+        expectTypeOf(context.event).toEqualTypeOf<'cart.add'>()
+      })
+      bus.scope('cart').on('add', (payload) => {
+        expectTypeOf(payload).toEqualTypeOf<{ sku: string }>()
+      })
+      expectTypeOf(bus.scope('cart').scope('item').emit).parameter(0).toEqualTypeOf<'removed'>()
+      createEventBus({ delimiter: '.' })
+        .scope('cart')
+        .on('add', () => {})
+    })
+
+    it('should reject patterns that match no known event', () => {
+      const bus = createEventBus<TypedEvents>()
+
+      // @ts-expect-error - no event starts with 'admin:'
+      bus.onPattern('admin:*', () => {})
+      // @ts-expect-error - exact names must exist
+      bus.onPattern('user:signup', () => {})
+    })
+
+    it('should accept any pattern on untyped buses', () => {
+      const bus = createEventBus()
+
+      bus.onPattern('anything:*', (payload, context) => {
+        expectTypeOf(payload).toEqualTypeOf<unknown>()
+        expectTypeOf(context.event).toEqualTypeOf<string>()
+      })
+    })
+
+    it('should deliver payloads of every matching event', async () => {
+      const bus = createEventBus<TypedEvents>()
+      const received: string[] = []
+
+      bus.onPattern('user:*', (payload, context) => {
+        received.push(`${context.event}:${payload.id}`)
+      })
+
+      await bus.emit('user:login', { id: '1', email: 'a@example.com' })
+      await bus.emit('user:logout', { id: '1' })
+
+      expect(received).toEqual(['user:login:1', 'user:logout:1'])
+    })
+  })
+
+  describe('handler context', () => {
+    it('should tell pattern handlers which event fired', async () => {
+      const bus = createEventBus<TestEvents>()
+      const received: string[] = []
+
+      bus.onPattern('user:*', (_payload, context) => {
+        received.push(`${context.pattern} -> ${context.event}`)
+      })
+
+      await bus.emit('user:login', { id: '123' })
+      await bus.emit('user:logout', { id: '123' })
+
+      expect(received).toEqual(['user:* -> user:login', 'user:* -> user:logout'])
+    })
+
+    it('should start the metadata from the emit options', async () => {
+      const bus = createEventBus<TestEvents>()
+      const handler = vi.fn()
+
+      bus.on('user:login', handler)
+      await bus.emit('user:login', { id: '123' }, { metadata: { origin: 'worker' } })
+
+      expect(handler).toHaveBeenCalledWith(
+        { id: '123' },
+        expect.objectContaining({ metadata: { origin: 'worker' } }),
+      )
+    })
+
+    it('should stop lower-priority listeners on stopPropagation', async () => {
+      const bus = createEventBus<TestEvents>()
+      const order: string[] = []
+
+      bus.onPattern('user:*', () => {
+        order.push('wildcard')
+      })
+      bus.on(
+        'user:login',
+        (_payload, context) => {
+          order.push('guard')
+          context.stopPropagation()
+        },
+        { priority: 10 },
+      )
+
+      await bus.emit('user:login', { id: '123' })
+
+      expect(order).toEqual(['guard'])
+    })
   })
 
   describe('priority', () => {
@@ -176,6 +522,122 @@ describe('EventBus', () => {
 
       expect(count).toBe(0)
     })
+
+    it('should remove wildcard listeners that receive the event', async () => {
+      const onUnsubscribe = vi.fn()
+      const bus = createEventBus<TestEvents>({ plugins: [{ name: 'spy', onUnsubscribe }] })
+      const removed = vi.fn()
+      const kept = vi.fn()
+
+      bus.on('user:login', removed)
+      bus.onPattern('user:*', removed)
+      bus.onPattern('*', removed)
+      bus.onPattern('test:*', kept)
+
+      bus.offAll('user:login')
+      await bus.emit('user:login', { id: '1' })
+      await bus.emit('test:event', { message: 'test' })
+
+      expect(removed).not.toHaveBeenCalled()
+      expect(kept).toHaveBeenCalledTimes(1)
+      expect(onUnsubscribe).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('tags and owners', () => {
+    it('should remove listeners by tag', async () => {
+      const bus = createEventBus<TestEvents>()
+      const analytics = vi.fn()
+      const kept = vi.fn()
+
+      bus.on('user:login', analytics, { tags: ['analytics'] })
+      bus.onPattern('user:*', analytics, { tags: ['analytics', 'debug'] })
+      bus.on('user:login', kept, { tags: ['session'] })
+
+      expect(bus.offByTag('analytics')).toBe(2)
+      expect(bus.offByTag('analytics')).toBe(0)
+      await bus.emit('user:login', { id: '1' })
+
+      expect(analytics).not.toHaveBeenCalled()
+      expect(kept).toHaveBeenCalledTimes(1)
+    })
+
+    it('should remove listeners by owner', async () => {
+      const bus = createEventBus<TestEvents>()
+      const component = {}
+      const handler = vi.fn()
+
+      bus.on('user:login', handler, { owner: component })
+      bus.on('test:event', handler, { owner: component })
+      bus.on('test:event', handler, { owner: {} })
+
+      expect(bus.offByOwner(component)).toBe(2)
+      await bus.emit('test:event', { message: 'test' })
+
+      expect(handler).toHaveBeenCalledTimes(1)
+    })
+
+    it('should filter getListeners by event, tag and owner', () => {
+      const bus = createEventBus<TestEvents>()
+      const owner = {}
+
+      bus.on('user:login', () => {}, { tags: ['ui'], owner })
+      bus.onPattern('user:*', () => {}, { tags: ['ui'] })
+      bus.on('test:event', () => {}, { tags: ['ui'] })
+      bus.on('user:login', () => {})
+
+      expect([...bus.getListeners({ tag: 'ui' }).keys()]).toEqual([
+        'user:login',
+        'test:event',
+        'user:*',
+      ])
+      expect(bus.getListeners({ event: 'user:login', tag: 'ui' }).get('user:login')).toEqual([
+        expect.objectContaining({ tags: ['ui'], owner }),
+      ])
+      expect([...bus.getListeners({ owner }).keys()]).toEqual(['user:login'])
+    })
+  })
+
+  describe('disposable subscriptions', () => {
+    it('should remove the listener at the end of a using block', async () => {
+      const bus = createEventBus<TestEvents>()
+      const handler = vi.fn()
+
+      {
+        using _subscription = bus.on('test:event', handler)
+        await bus.emit('test:event', { message: 'inside' })
+      }
+      await bus.emit('test:event', { message: 'outside' })
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(bus.getListeners().size).toBe(0)
+    })
+
+    it('should remove responders at the end of a using block', async () => {
+      const bus = createEventBus()
+      const cart = bus.scope('cart')
+
+      {
+        using _responder = bus.handle('user:get', () => 'user')
+        using _scoped = cart.handle('total', () => 42)
+        await expect(bus.request('cart:total', undefined)).resolves.toBe(42)
+      }
+
+      await expect(bus.requestAll('user:get', undefined)).resolves.toEqual([])
+      await expect(bus.requestAll('cart:total', undefined)).resolves.toEqual([])
+    })
+
+    it('should allow disposing after unsubscribing', () => {
+      const bus = createEventBus<TestEvents>()
+      const onUnsubscribe = vi.fn()
+      bus.use({ name: 'spy', onUnsubscribe })
+
+      const unsubscribe = bus.onPattern('user:*', () => {})
+      unsubscribe()
+      unsubscribe[Symbol.dispose]()
+
+      expect(onUnsubscribe).toHaveBeenCalledTimes(1)
+    })
   })
 
   describe('getListeners', () => {
@@ -214,6 +676,70 @@ describe('EventBus', () => {
     })
   })
 
+  describe('stats', () => {
+    it('should count emits and matched listeners per event', async () => {
+      const bus = createEventBus<TestEvents>({ onError: vi.fn() })
+      bus.on('user:login', () => {})
+      bus.onPattern('user:*', () => {
+        throw new Error('boom')
+      })
+
+      await bus.emit('user:login', { id: '1' })
+      await bus.emit('user:login', { id: '2' })
+      await bus.emit('test:event', { message: 'hi' })
+
+      const { events } = bus.getStats()
+      expect(events.get('user:login')).toMatchObject({
+        emitCount: 2,
+        listenerCount: 4,
+        errorCount: 2,
+      })
+      expect(events.get('test:event')).toMatchObject({ emitCount: 1, listenerCount: 0 })
+    })
+
+    it('should report duration percentiles and run and error timestamps per listener', async () => {
+      const bus = createEventBus<TestEvents>({ onError: vi.fn() })
+      bus.on('test:number', ({ value }) => {
+        if (value < 0) {
+          throw new Error('negative')
+        }
+      })
+
+      await bus.emit('test:number', { value: 1 })
+      await bus.emit('test:number', { value: -1 })
+
+      const [info] = bus.getStats().listeners.get('test:number') ?? []
+      expect(info?.executionCount).toBe(1)
+      expect(info?.errorCount).toBe(1)
+      expect(info?.p99Duration).toBeGreaterThanOrEqual(info?.p50Duration ?? 0)
+      expect(info?.maxDuration).toBeGreaterThanOrEqual(info?.minDuration ?? 0)
+      expect(info?.lastRunAt).toBeTypeOf('number')
+      expect(info?.lastErrorAt).toBeTypeOf('number')
+    })
+
+    it('should reset stats matching a pattern and keep listeners subscribed', async () => {
+      const bus = createEventBus<TestEvents>()
+      const handler = vi.fn()
+      bus.on('user:login', handler)
+      bus.on('test:event', handler)
+
+      await bus.emit('user:login', { id: '1' })
+      await bus.emit('test:event', { message: 'hi' })
+      bus.resetStats('user:*')
+
+      const { events, listeners } = bus.getStats()
+      expect([...events.keys()]).toEqual(['test:event'])
+      expect(listeners.get('user:login')?.[0]).toMatchObject({ executionCount: 0, p50Duration: 0 })
+      expect(listeners.get('user:login')?.[0]?.lastRunAt).toBeUndefined()
+      expect(listeners.get('test:event')?.[0]?.executionCount).toBe(1)
+
+      bus.resetStats()
+      await bus.emit('user:login', { id: '2' })
+      expect(handler).toHaveBeenCalledTimes(3)
+      expect([...bus.getStats().events.keys()]).toEqual(['user:login'])
+    })
+  })
+
   describe('async handlers', () => {
     it('should handle async handlers', async () => {
       const bus = createEventBus<TestEvents>()
@@ -296,4 +822,1322 @@ describe('EventBus', () => {
       expect(order).toEqual([10, 5, 1])
     })
   })
+
+  describe('abort signals', () => {
+    it('should remove listeners when their subscription signal aborts', async () => {
+      const onUnsubscribe = vi.fn()
+      const bus = createEventBus<TestEvents>({ plugins: [{ name: 'plugin', onUnsubscribe }] })
+      const controller = new AbortController()
+      let count = 0
+
+      bus.on(
+        'test:event',
+        () => {
+          count++
+        },
+        { signal: controller.signal },
+      )
+      bus.onPattern(
+        'user:*',
+        () => {
+          count++
+        },
+        { signal: controller.signal },
+      )
+
+      await bus.emit('test:event', { message: 'test' })
+      controller.abort()
+      await bus.emit('test:event', { message: 'test' })
+      await bus.emit('user:login', { id: '123' })
+
+      expect(count).toBe(1)
+      expect(bus.getListeners().size).toBe(0)
+      expect(onUnsubscribe).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not add listeners with an already-aborted signal', () => {
+      const bus = createEventBus<TestEvents>()
+
+      const unsubscribe = bus.on('test:event', () => {}, { signal: AbortSignal.abort() })
+
+      expect(bus.getListeners().size).toBe(0)
+      expect(() => unsubscribe()).not.toThrow()
+    })
+
+    it('should detach from the signal when the listener is removed another way', async () => {
+      const onUnsubscribe = vi.fn()
+      const bus = createEventBus<TestEvents>({ plugins: [{ name: 'plugin', onUnsubscribe }] })
+      const controller = new AbortController()
+
+      bus.once('test:event', () => {}, { signal: controller.signal })
+      await bus.emit('test:event', { message: 'test' })
+      controller.abort()
+
+      expect(onUnsubscribe).toHaveBeenCalledTimes(1)
+    })
+
+    it('should reject emit with the abort reason and skip remaining listeners', async () => {
+      const bus = createEventBus<TestEvents>()
+      const controller = new AbortController()
+      const reason = new Error('Cancelled')
+      const received: AbortSignal[] = []
+      let skipped = true
+
+      bus.on('test:event', (_payload, { signal }) => {
+        received.push(signal)
+        controller.abort(reason)
+      })
+      bus.on('test:event', () => {
+        skipped = false
+      })
+
+      await expect(
+        bus.emit('test:event', { message: 'test' }, { signal: controller.signal }),
+      ).rejects.toBe(reason)
+      expect(received).toEqual([controller.signal])
+      expect(skipped).toBe(true)
+    })
+
+    it('should reject immediately when the emit signal is already aborted', async () => {
+      const bus = createEventBus<TestEvents>()
+      const handler = vi.fn()
+
+      bus.on('test:event', handler)
+
+      await expect(
+        bus.emit('test:event', { message: 'test' }, { signal: AbortSignal.abort() }),
+      ).rejects.toThrow()
+      expect(handler).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('execution strategies', () => {
+    it('should run handlers in parallel when configured on the bus', async () => {
+      const bus = createEventBus<TestEvents>({ execution: 'parallel' })
+      const order: number[] = []
+
+      bus.on('test:event', async () => {
+        await new Promise((resolve) => setTimeout(resolve, 30))
+        order.push(1)
+      })
+      bus.on('test:event', async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10))
+        order.push(2)
+      })
+
+      await bus.emit('test:event', { message: 'test' })
+
+      expect(order).toEqual([2, 1])
+    })
+
+    it('should allow overriding the execution strategy per emit', async () => {
+      const bus = createEventBus<TestEvents>({ execution: 'parallel' })
+      const order: number[] = []
+
+      bus.on('test:event', async () => {
+        await new Promise((resolve) => setTimeout(resolve, 30))
+        order.push(1)
+      })
+      bus.on('test:event', async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10))
+        order.push(2)
+      })
+
+      await bus.emit('test:event', { message: 'test' }, { execution: 'sequential' })
+
+      expect(order).toEqual([1, 2])
+    })
+
+    it('should start handlers in priority order in parallel mode', async () => {
+      const bus = createEventBus<TestEvents>()
+      const started: number[] = []
+
+      bus.on('test:event', () => {
+        started.push(1)
+      })
+      bus.on(
+        'test:event',
+        () => {
+          started.push(10)
+        },
+        { priority: 10 },
+      )
+
+      await bus.emit('test:event', { message: 'test' }, { execution: { concurrency: 2 } })
+
+      expect(started).toEqual([10, 1])
+    })
+  })
+
+  describe('plugins', () => {
+    it('should call onInit for config plugins', async () => {
+      const onInit = vi.fn()
+      createEventBus<TestEvents>({ plugins: [{ name: 'plugin', onInit }] })
+
+      await Promise.resolve()
+
+      expect(onInit).toHaveBeenCalledTimes(1)
+    })
+
+    it('should call subscribe and unsubscribe hooks', () => {
+      const onSubscribe = vi.fn()
+      const onUnsubscribe = vi.fn()
+      const bus = createEventBus<TestEvents>({
+        plugins: [{ name: 'plugin', onSubscribe, onUnsubscribe }],
+      })
+
+      const unsubscribe = bus.on('test:event', () => {})
+      bus.onPattern('user:*', () => {})
+      bus.once('user:login', () => {})
+
+      expect(onSubscribe).toHaveBeenCalledTimes(3)
+      expect(onSubscribe).toHaveBeenNthCalledWith(2, 'user:*', expect.any(Symbol))
+
+      unsubscribe()
+      unsubscribe()
+      expect(onUnsubscribe).toHaveBeenCalledTimes(1)
+      expect(onUnsubscribe).toHaveBeenCalledWith('test:event', onSubscribe.mock.calls[0]?.[1])
+
+      bus.offAll()
+      expect(onUnsubscribe).toHaveBeenCalledTimes(3)
+    })
+
+    it('should call unsubscribe hooks when once listeners are removed', async () => {
+      const onUnsubscribe = vi.fn()
+      const bus = createEventBus<TestEvents>({ plugins: [{ name: 'plugin', onUnsubscribe }] })
+
+      bus.once('test:event', () => {})
+      await bus.emit('test:event', { message: 'test' })
+
+      expect(onUnsubscribe).toHaveBeenCalledWith('test:event', expect.any(Symbol))
+    })
+
+    it('should call emit hooks around handler execution', async () => {
+      const calls: string[] = []
+      const plugin: Plugin<TestEvents> = {
+        name: 'plugin',
+        onBeforeEmit: (event) => {
+          calls.push(`before:${String(event)}`)
+        },
+        onAfterEmit: (event, _payload, duration, handlerCount) => {
+          calls.push(`after:${String(event)}:${handlerCount}`)
+          expect(duration).toBeGreaterThanOrEqual(0)
+        },
+      }
+      const bus = createEventBus<TestEvents>({ plugins: [plugin] })
+
+      bus.on('test:event', () => {
+        calls.push('handler')
+      })
+      bus.onPattern('test:*', () => {
+        calls.push('handler')
+      })
+      await bus.emit('test:event', { message: 'test' })
+
+      expect(calls).toEqual(['before:test:event', 'handler', 'handler', 'after:test:event:2'])
+    })
+
+    it('should call onError when a handler fails', async () => {
+      const onError = vi.fn()
+      const bus = createEventBus<TestEvents>({
+        plugins: [{ name: 'plugin', onError }],
+        onError: () => {},
+      })
+      const error = new Error('Handler error')
+
+      bus.on('test:event', async () => {
+        throw error
+      })
+      await bus.emit('test:event', { message: 'test' })
+
+      expect(onError).toHaveBeenCalledWith(
+        'test:event',
+        { message: 'test' },
+        error,
+        expect.any(Symbol),
+      )
+    })
+
+    it('should isolate rejected plugin hooks', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const bus = createEventBus<TestEvents>({
+        plugins: [
+          {
+            name: 'broken',
+            onBeforeEmit: async () => {
+              throw new Error('Plugin error')
+            },
+          },
+        ],
+      })
+      let received = false
+
+      bus.on('test:event', () => {
+        received = true
+      })
+      await bus.emit('test:event', { message: 'test' })
+
+      expect(received).toBe(true)
+      expect(consoleErrorSpy).toHaveBeenCalled()
+      consoleErrorSpy.mockRestore()
+    })
+
+    it('should add and remove plugins at runtime', async () => {
+      const onInit = vi.fn()
+      const onBeforeEmit = vi.fn()
+      const bus = createEventBus<TestEvents>()
+
+      bus.use({ name: 'runtime', onInit, onBeforeEmit })
+      await bus.emit('test:event', { message: 'first' })
+
+      expect(onInit).toHaveBeenCalledTimes(1)
+      expect(onBeforeEmit).toHaveBeenCalledTimes(1)
+      expect(() => bus.use({ name: 'runtime' })).toThrow()
+
+      expect(bus.removePlugin('runtime')).toBe(true)
+      await bus.emit('test:event', { message: 'second' })
+
+      expect(onBeforeEmit).toHaveBeenCalledTimes(1)
+      expect(bus.removePlugin('runtime')).toBe(false)
+    })
+  })
+
+  describe('error handling', () => {
+    it('should log handler errors by default and continue', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const bus = createEventBus<TestEvents>()
+      let executed = false
+
+      bus.on('test:event', () => {
+        throw new Error('Handler error')
+      })
+      bus.on('test:event', () => {
+        executed = true
+      })
+      await bus.emit('test:event', { message: 'test' })
+
+      expect(executed).toBe(true)
+      expect(consoleErrorSpy).toHaveBeenCalled()
+      consoleErrorSpy.mockRestore()
+    })
+
+    it('should pass error context to the onError callback', async () => {
+      const onError = vi.fn()
+      const bus = createEventBus<TestEvents>({ onError })
+      const error = new Error('Handler error')
+
+      bus.onPattern('test:*', () => {
+        throw error
+      })
+      await bus.emit('test:event', { message: 'test' })
+
+      expect(onError).toHaveBeenCalledWith(error, {
+        event: 'test:event',
+        payload: { message: 'test' },
+        listenerId: expect.any(Symbol),
+        pattern: 'test:*',
+      })
+    })
+
+    it('should skip remaining handlers with the stop policy', async () => {
+      const bus = createEventBus<TestEvents>({ errorPolicy: 'stop', onError: () => {} })
+      let executed = false
+
+      bus.on('test:event', () => {
+        throw new Error('Handler error')
+      })
+      bus.on('test:event', () => {
+        executed = true
+      })
+
+      await expect(bus.emit('test:event', { message: 'test' })).resolves.toBeUndefined()
+      expect(executed).toBe(false)
+    })
+
+    it('should reject emit with an EmitError with the throw policy', async () => {
+      const bus = createEventBus<TestEvents>({ errorPolicy: 'throw' })
+      const error1 = new Error('First')
+      const error2 = new Error('Second')
+      let executed = false
+
+      bus.on('test:event', () => {
+        throw error1
+      })
+      bus.on('test:event', () => {
+        executed = true
+      })
+      bus.onPattern('test:*', async () => {
+        throw error2
+      })
+
+      const rejection = await bus.emit('test:event', { message: 'test' }).catch((e: unknown) => e)
+
+      expect(executed).toBe(true)
+      expect(rejection).toBeInstanceOf(EmitError)
+      expect(rejection).toBeInstanceOf(AggregateError)
+      const emitError = rejection as EmitError
+      expect(emitError.event).toBe('test:event')
+      expect(emitError.errors).toEqual([error1, error2])
+      expect(emitError.failures.map((f) => f.pattern)).toEqual(['test:event', 'test:*'])
+      expect(emitError.failures[0]?.listenerId).toEqual(expect.any(Symbol))
+    })
+
+    it('should count failed executions in listener stats', async () => {
+      const bus = createEventBus<TestEvents>({ onError: () => {} })
+
+      bus.on('test:event', () => {
+        throw new Error('Handler error')
+      })
+      await bus.emit('test:event', { message: 'test' })
+
+      const [info] = bus.getListeners('test:event').get('test:event') ?? []
+      expect(info?.errorCount).toBe(1)
+      expect(info?.executionCount).toBe(0)
+    })
+  })
+
+  describe('timeouts', () => {
+    it('should report timed out handlers and record them in listener stats', async () => {
+      vi.useFakeTimers()
+      try {
+        const onError = vi.fn()
+        const bus = createEventBus<TestEvents>({ handlerTimeoutMs: 100, onError })
+        let nextExecuted = false
+
+        bus.on('test:event', () => new Promise<void>(() => {}))
+        bus.on('test:event', () => {
+          nextExecuted = true
+        })
+
+        const pending = bus.emit('test:event', { message: 'test' })
+        await vi.advanceTimersByTimeAsync(100)
+        await pending
+
+        expect(nextExecuted).toBe(true)
+        expect(onError).toHaveBeenCalledWith(
+          expect.any(HandlerTimeoutError),
+          expect.objectContaining({ event: 'test:event' }),
+        )
+        const [info] = bus.getListeners('test:event').get('test:event') ?? []
+        expect(info?.timeoutCount).toBe(1)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should fail the emit when the timeout policy is throw', async () => {
+      vi.useFakeTimers()
+      try {
+        const bus = createEventBus<TestEvents>({ timeoutPolicy: 'throw' })
+
+        bus.on('test:event', () => new Promise<void>(() => {}), { timeoutMs: 50 })
+
+        const pending = bus.emit('test:event', { message: 'test' }).catch((e: unknown) => e)
+        await vi.advanceTimersByTimeAsync(50)
+        const rejection = await pending
+
+        expect(rejection).toBeInstanceOf(EmitError)
+        expect((rejection as EmitError).errors[0]).toBeInstanceOf(HandlerTimeoutError)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should reject invalid timeouts', () => {
+      const bus = createEventBus<TestEvents>()
+
+      expect(() => bus.on('test:event', () => {}, { timeoutMs: 0 })).toThrow(RangeError)
+      expect(() => createEventBus<TestEvents>({ handlerTimeoutMs: -1 })).toThrow(RangeError)
+    })
+  })
+
+  describe('request/response', () => {
+    interface TestResponses extends Record<string, unknown> {
+      'user:login': { token: string }
+    }
+
+    it('should resolve requests with typed responder results', async () => {
+      const bus = createEventBus<TestEvents, TestResponses>()
+
+      bus.handle('user:login', ({ id }) => ({ token: `token-${id}` }))
+      const response = await bus.request('user:login', { id: '123' })
+
+      expect(response.token).toBe('token-123')
+    })
+
+    it('should not deliver requests to event listeners', async () => {
+      const bus = createEventBus<TestEvents, TestResponses>()
+      const listener = vi.fn()
+
+      bus.on('user:login', listener)
+      bus.handle('user:login', () => ({ token: 'a' }))
+      bus.handle('user:login', () => ({ token: 'b' }), { priority: 1 })
+
+      await expect(bus.requestAll('user:login', { id: '123' })).resolves.toEqual([
+        { token: 'b' },
+        { token: 'a' },
+      ])
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('waitFor', () => {
+    it('should resolve with the next matching payload and remove its listener', async () => {
+      const bus = createEventBus<TestEvents>()
+
+      const pending = bus.waitFor('user:login', { filter: ({ id }) => id === '2' })
+      await bus.emit('user:login', { id: '1' })
+      await bus.emit('user:login', { id: '2' })
+
+      await expect(pending).resolves.toEqual({ id: '2' })
+      expect(bus.getListeners().size).toBe(0)
+    })
+
+    it('should remove its listener on timeout', async () => {
+      vi.useFakeTimers()
+      try {
+        const bus = createEventBus<TestEvents>()
+
+        const pending = bus.waitFor('user:login', { timeout: 50 }).catch((e: unknown) => e)
+        expect(bus.getListeners().size).toBe(1)
+        await vi.advanceTimersByTimeAsync(50)
+
+        expect(await pending).toBeInstanceOf(Error)
+        expect(bus.getListeners().size).toBe(0)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+  })
+
+  describe('stream', () => {
+    it('should iterate emitted payloads and unsubscribe on break', async () => {
+      const bus = createEventBus<TestEvents>()
+      const received: string[] = []
+
+      const consumer = (async () => {
+        for await (const payload of bus.stream('test:event')) {
+          received.push(payload.message)
+          if (received.length === 2) {
+            break
+          }
+        }
+      })()
+
+      await bus.emit('test:event', { message: 'a' })
+      await bus.emit('test:event', { message: 'b' })
+      await consumer
+
+      expect(received).toEqual(['a', 'b'])
+      expect(bus.getListeners().size).toBe(0)
+    })
+
+    it('should stream payloads matching a pattern', async () => {
+      const bus = createEventBus<TestEvents>()
+      const stream = bus.stream('user:*')
+
+      await bus.emit('user:login', { id: '1' })
+      await bus.emit('user:logout', { id: '2' })
+
+      await expect(stream.next()).resolves.toEqual({ done: false, value: { id: '1' } })
+      await expect(stream.next()).resolves.toEqual({ done: false, value: { id: '2' } })
+      await stream.return?.()
+    })
+  })
+
+  describe('middleware', () => {
+    it('should let middleware rewrite payloads and add metadata for handlers', async () => {
+      const bus = createEventBus<TestEvents>()
+      const received: unknown[] = []
+
+      bus.useMiddleware(async (ctx, next) => {
+        if (ctx.event === 'user:login') {
+          ctx.payload = { id: '[redacted]' }
+        }
+        ctx.metadata.tenant = 'acme'
+        await next()
+      })
+      bus.on('user:login', (payload, { metadata }) => {
+        received.push(payload, metadata.tenant)
+      })
+
+      await bus.emit('user:login', { id: '123' })
+
+      expect(received).toEqual([{ id: '[redacted]' }, 'acme'])
+    })
+
+    it('should suppress delivery when next is not called', async () => {
+      const onAfterEmit = vi.fn()
+      const bus = createEventBus<TestEvents>({ plugins: [{ name: 'plugin', onAfterEmit }] })
+      const handler = vi.fn()
+
+      bus.useMiddleware(async (ctx, next) => {
+        if (ctx.event !== 'test:event') {
+          await next()
+        }
+      })
+      bus.on('test:event', handler)
+
+      await bus.emit('test:event', { message: 'test' })
+
+      expect(handler).not.toHaveBeenCalled()
+      expect(onAfterEmit).toHaveBeenCalledWith(
+        'test:event',
+        { message: 'test' },
+        expect.any(Number),
+        0,
+      )
+    })
+
+    it('should run code after all handlers finish', async () => {
+      const bus = createEventBus<TestEvents>()
+      const order: string[] = []
+
+      bus.useMiddleware(async (_ctx, next) => {
+        order.push('before')
+        await next()
+        order.push('after')
+      })
+      bus.on('test:event', async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10))
+        order.push('handler')
+      })
+
+      await bus.emit('test:event', { message: 'test' })
+
+      expect(order).toEqual(['before', 'handler', 'after'])
+    })
+
+    it('should stop running removed middleware', async () => {
+      const bus = createEventBus<TestEvents>()
+      const middleware = vi.fn(async (_ctx: unknown, next: () => Promise<void>) => next())
+
+      const remove = bus.useMiddleware(middleware)
+      await bus.emit('test:event', { message: 'test' })
+      remove()
+      await bus.emit('test:event', { message: 'test' })
+
+      expect(middleware).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('sticky events', () => {
+    it('should replay the last sticky payload to late subscribers', async () => {
+      const bus = createEventBus<TestEvents>()
+      const handler = vi.fn()
+
+      await bus.emit('test:event', { message: 'first' }, { sticky: true })
+      await bus.emit('test:event', { message: 'second' }, { sticky: true })
+      bus.on('test:event', handler, { replay: true })
+      await Promise.resolve()
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(handler).toHaveBeenCalledWith(
+        { message: 'second' },
+        expect.objectContaining({ event: 'test:event' }),
+      )
+    })
+
+    it('should only replay to subscribers that ask for it', async () => {
+      const bus = createEventBus<TestEvents>({ sticky: ['test:event'] })
+      const handler = vi.fn()
+
+      await bus.emit('test:event', { message: 'hello' })
+      bus.on('test:event', handler)
+      await Promise.resolve()
+
+      expect(handler).not.toHaveBeenCalled()
+      expect(bus.getSticky().get('test:event')?.payload).toEqual({ message: 'hello' })
+    })
+
+    it('should let emit options override the sticky config', async () => {
+      const bus = createEventBus<TestEvents>({ sticky: ['test:event'] })
+
+      await bus.emit('test:event', { message: 'hello' }, { sticky: false })
+
+      expect(bus.getSticky().size).toBe(0)
+    })
+
+    it('should replay every matching sticky event to pattern subscribers', async () => {
+      const bus = createEventBus<TestEvents>({
+        sticky: ['user:login', 'user:logout', 'test:event'],
+      })
+      const received: string[] = []
+
+      await bus.emit('user:logout', { id: '1' })
+      await bus.emit('test:event', { message: 'ignored' })
+      await bus.emit('user:login', { id: '2' })
+      bus.onPattern(
+        'user:*',
+        (_payload, context) => {
+          received.push(context.event)
+        },
+        { replay: true },
+      )
+      await vi.waitFor(() => expect(received).toHaveLength(2))
+
+      expect(received).toEqual(['user:logout', 'user:login'])
+    })
+
+    it('should skip excluded sticky events and keep replaying', async () => {
+      const bus = createEventBus<TestEvents>({ sticky: ['user:logout', 'user:login'] })
+      const received: string[] = []
+
+      await bus.emit('user:logout', { id: '1' })
+      await bus.emit('user:login', { id: '2' })
+      bus.onPattern(
+        'user:*',
+        (_payload, context) => {
+          received.push(context.event)
+        },
+        { replay: true, exclude: ['user:logout'] },
+      )
+      await vi.waitFor(() => expect(received).toHaveLength(1))
+
+      expect(received).toEqual(['user:login'])
+    })
+
+    it('should replay only once to once listeners', async () => {
+      const bus = createEventBus<TestEvents>({ sticky: ['user:login', 'user:logout'] })
+      const handler = vi.fn()
+
+      await bus.emit('user:login', { id: '1' })
+      await bus.emit('user:logout', { id: '1' })
+      bus.onPattern('user:*', handler, { once: true, replay: true })
+      await vi.waitFor(() => expect(bus.getListeners().size).toBe(0))
+
+      expect(handler).toHaveBeenCalledTimes(1)
+    })
+
+    it('should retain the payload delivered after middleware', async () => {
+      const bus = createEventBus<TestEvents>({ sticky: ['test:event'] })
+
+      bus.useMiddleware(async (ctx, next) => {
+        ctx.metadata.traced = true
+        ctx.payload = { message: 'rewritten' }
+        await next()
+      })
+      await bus.emit('test:event', { message: 'original' })
+
+      expect(bus.getSticky('test:*').get('test:event')).toMatchObject({
+        payload: { message: 'rewritten' },
+        metadata: { traced: true },
+      })
+    })
+
+    it('should report replay errors like handler errors', async () => {
+      const onError = vi.fn()
+      const bus = createEventBus<TestEvents>({ sticky: ['test:event'], onError })
+      const error = new Error('boom')
+
+      await bus.emit('test:event', { message: 'hello' })
+      bus.on(
+        'test:event',
+        () => {
+          throw error
+        },
+        { replay: true },
+      )
+      await vi.waitFor(() => expect(onError).toHaveBeenCalled())
+
+      expect(onError).toHaveBeenCalledWith(error, expect.objectContaining({ event: 'test:event' }))
+    })
+
+    it('should clear retained payloads', async () => {
+      const bus = createEventBus<TestEvents>({ sticky: ['test:event', 'user:login'] })
+      const handler = vi.fn()
+
+      await bus.emit('test:event', { message: 'hello' })
+      await bus.emit('user:login', { id: '1' })
+
+      expect(bus.clearSticky('test:event')).toBe(true)
+      expect(bus.clearSticky('test:event')).toBe(false)
+      bus.on('test:event', handler, { replay: true })
+      await Promise.resolve()
+      expect(handler).not.toHaveBeenCalled()
+
+      expect(bus.clearSticky()).toBe(true)
+      expect(bus.getSticky().size).toBe(0)
+    })
+  })
+
+  describe('history', () => {
+    it('should record each emit', async () => {
+      const bus = createEventBus<TestEvents>({ historySize: 10, onError: vi.fn() })
+      const payload = { id: '123' }
+
+      bus.on('user:login', () => {})
+      bus.onPattern('user:*', () => {
+        throw new Error('boom')
+      })
+      await bus.emit('user:login', payload)
+
+      const [entry] = bus.history.query()
+      expect(entry).toMatchObject({ event: 'user:login', handlerCount: 2, errorCount: 1 })
+      expect(entry?.payload).toBe(payload)
+      expect(entry?.emitId).toMatch(/^emit:/)
+      expect(entry?.duration).toBeGreaterThanOrEqual(0)
+    })
+
+    it('should record the payload after middleware', async () => {
+      const bus = createEventBus<TestEvents>({ historySize: 10 })
+      bus.useMiddleware(async (ctx, next) => {
+        if (ctx.event === 'user:login') {
+          ctx.payload = { id: '[redacted]' }
+        }
+        await next()
+      })
+
+      await bus.emit('user:login', { id: '123' })
+
+      expect(bus.history.query()[0]?.payload).toEqual({ id: '[redacted]' })
+    })
+
+    it('should not record anything by default', async () => {
+      const bus = createEventBus<TestEvents>()
+
+      await bus.emit('user:login', { id: '123' })
+
+      expect(bus.history.query()).toEqual([])
+    })
+
+    it('should replay recorded events into another bus', async () => {
+      const bus = createEventBus<TestEvents>({ historySize: 10 })
+      const repro = createEventBus<TestEvents>()
+      const received: string[] = []
+
+      await bus.emit('user:login', { id: '1' })
+      await bus.emit('test:event', { message: 'skipped' })
+      await bus.emit('user:logout', { id: '1' })
+      repro.onPattern('*', (_payload, { event }) => {
+        received.push(event)
+      })
+      await bus.history.replay(repro, { pattern: 'user:*' })
+
+      expect(received).toEqual(['user:login', 'user:logout'])
+    })
+  })
+
+  describe('dead letters', () => {
+    it('should record deliveries that exhaust their retries', async () => {
+      const onError = vi.fn()
+      const bus = createEventBus<TestEvents>({ onError })
+      const error = new Error('offline')
+      const handler = vi.fn(() => {
+        throw error
+      })
+
+      bus.on('user:login', handler, { retry: { attempts: 1, delayMs: 0 } })
+      await bus.emit('user:login', { id: '123' })
+
+      expect(handler).toHaveBeenCalledTimes(2)
+      expect(onError).toHaveBeenCalledTimes(1)
+      expect(bus.deadLetters.list()).toEqual([
+        expect.objectContaining({
+          event: 'user:login',
+          payload: { id: '123' },
+          pattern: 'user:login',
+          errors: [error, error],
+        }),
+      ])
+    })
+
+    it('should redrive a dead letter to its listener', async () => {
+      const bus = createEventBus<TestEvents>({ onError: vi.fn() })
+      let online = false
+      const received: string[] = []
+
+      bus.on(
+        'user:login',
+        (payload) => {
+          if (!online) {
+            throw new Error('offline')
+          }
+          received.push(payload.id)
+        },
+        { retry: { attempts: 0 } },
+      )
+      await bus.emit('user:login', { id: '123' })
+      const [deadLetter] = bus.deadLetters.list()
+
+      expect(await bus.deadLetters.retry(deadLetter?.id ?? '')).toBe('failed')
+      expect(bus.deadLetters.list()).toHaveLength(1)
+
+      online = true
+      const [again] = bus.deadLetters.list()
+      expect(await bus.deadLetters.retry(again?.id ?? '')).toBe('delivered')
+      expect(received).toEqual(['123'])
+      expect(bus.deadLetters.list()).toEqual([])
+    })
+
+    it('should not redrive dead letters of removed listeners', async () => {
+      const bus = createEventBus<TestEvents>({ onError: vi.fn() })
+
+      const unsubscribe = bus.on(
+        'user:login',
+        () => {
+          throw new Error('boom')
+        },
+        { retry: { attempts: 0 } },
+      )
+      await bus.emit('user:login', { id: '123' })
+      unsubscribe()
+      const [deadLetter] = bus.deadLetters.list()
+
+      expect(await bus.deadLetters.retry(deadLetter?.id ?? '')).toBe('missing')
+      expect(await bus.deadLetters.retry('unknown')).toBe('missing')
+      expect(bus.deadLetters.remove(deadLetter?.id ?? '')).toBe(true)
+      expect(bus.deadLetters.list()).toEqual([])
+    })
+
+    it('should keep dead letters whose payload the filter now rejects', async () => {
+      const bus = createEventBus<TestEvents>({ onError: vi.fn() })
+      let accepted = true
+      const handler = vi.fn(() => {
+        throw new Error('boom')
+      })
+      bus.on('user:login', handler, { retry: { attempts: 0 }, where: () => accepted })
+      await bus.emit('user:login', { id: '123' })
+      const [deadLetter] = bus.deadLetters.list()
+
+      accepted = false
+      expect(await bus.deadLetters.retry(deadLetter?.id ?? '')).toBe('skipped')
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(bus.deadLetters.list()).toEqual([deadLetter])
+    })
+
+    it('should report retries held back by a rate limit as deferred', async () => {
+      vi.useFakeTimers()
+      try {
+        const bus = createEventBus<TestEvents>({ onError: vi.fn() })
+        let online = false
+        const received: string[] = []
+
+        bus.on(
+          'user:login',
+          (payload) => {
+            if (!online) {
+              throw new Error('offline')
+            }
+            received.push(payload.id)
+          },
+          { retry: { attempts: 0 }, throttleMs: 100 },
+        )
+        await bus.emit('user:login', { id: '123' })
+        const [deadLetter] = bus.deadLetters.list()
+
+        online = true
+        expect(await bus.deadLetters.retry(deadLetter?.id ?? '')).toBe('deferred')
+        expect(received).toEqual([])
+
+        await vi.advanceTimersByTimeAsync(100)
+        expect(received).toEqual(['123'])
+        expect(bus.deadLetters.list()).toEqual([])
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should keep at most deadLetterLimit dead letters', async () => {
+      const bus = createEventBus<TestEvents>({ onError: vi.fn(), deadLetterLimit: 2 })
+      bus.on(
+        'user:login',
+        () => {
+          throw new Error('boom')
+        },
+        { retry: { attempts: 0 } },
+      )
+
+      for (const id of ['1', '2', '3']) {
+        await bus.emit('user:login', { id })
+      }
+
+      expect(bus.deadLetters.list().map(({ payload }) => payload)).toEqual([
+        { id: '2' },
+        { id: '3' },
+      ])
+    })
+
+    it('should reject invalid retry policies', () => {
+      const bus = createEventBus<TestEvents>()
+
+      expect(() => bus.on('user:login', () => {}, { retry: { attempts: -1 } })).toThrow(RangeError)
+      expect(() => bus.on('user:login', () => {}, { retry: { attempts: 1, delayMs: -5 } })).toThrow(
+        RangeError,
+      )
+    })
+  })
+
+  describe('durable emits', () => {
+    it('should store durable emits until every listener succeeded', async () => {
+      const storage = createMemoryStorage()
+      const bus = createEventBus<TestEvents>({ storage, onError: vi.fn() })
+      bus.on('user:login', (payload) => {
+        if (payload.id === 'bad') {
+          throw new Error('offline')
+        }
+      })
+
+      await bus.emit('user:login', { id: 'good' }, { durable: true })
+      await bus.emit('user:login', { id: 'bad' }, { durable: true, metadata: { source: 'api' } })
+      await bus.emit('user:login', { id: 'bad' })
+
+      expect(await storage.pending()).toEqual([
+        expect.objectContaining({
+          event: 'user:login',
+          payload: { id: 'bad' },
+          metadata: { source: 'api' },
+        }),
+      ])
+    })
+
+    it('should store the envelope before dispatching', async () => {
+      const storage = createMemoryStorage()
+      const bus = createEventBus<TestEvents>({ storage })
+      const stored = vi.fn()
+      bus.on('user:login', async () => {
+        stored(await storage.pending())
+      })
+
+      await bus.emit('user:login', { id: '123' }, { durable: true })
+
+      expect(stored).toHaveBeenCalledWith([expect.objectContaining({ payload: { id: '123' } })])
+      expect(await storage.pending()).toEqual([])
+    })
+
+    it('should redeliver unacknowledged emits on recover with their original emitId', async () => {
+      const storage = createMemoryStorage()
+      const crashed = createEventBus<TestEvents>({ storage, onError: vi.fn() })
+      crashed.onPattern('**', () => {
+        throw new Error('crash')
+      })
+      await crashed.emit('user:login', { id: '123' }, { durable: true })
+      await crashed.emit('test:event', { message: 'other' }, { durable: true })
+      const [envelope] = await storage.pending()
+
+      const restarted = createEventBus<TestEvents>({ storage })
+      const handler = vi.fn()
+      restarted.on('user:login', handler)
+
+      await expect(restarted.recover('user:*')).resolves.toBe(1)
+      expect(handler).toHaveBeenCalledWith(
+        { id: '123' },
+        expect.objectContaining({ emitId: envelope?.id }),
+      )
+      expect((await storage.pending()).map(({ event }) => event)).toEqual(['test:event'])
+    })
+
+    it('should keep envelopes whose redelivery fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const storage = createMemoryStorage()
+      const bus = createEventBus<TestEvents>({ storage, errorPolicy: 'throw' })
+      const handler = vi.fn(() => {
+        throw new Error('still down')
+      })
+      bus.on('user:login', handler)
+
+      await expect(bus.emit('user:login', { id: '123' }, { durable: true })).rejects.toThrow(
+        EmitError,
+      )
+      await expect(bus.recover()).resolves.toBe(0)
+
+      expect(handler).toHaveBeenCalledTimes(2)
+      expect(await storage.pending()).toHaveLength(1)
+      vi.restoreAllMocks()
+    })
+
+    it('should acknowledge durable emits only after deferred deliveries succeed', async () => {
+      vi.useFakeTimers()
+      try {
+        const storage = createMemoryStorage()
+        const bus = createEventBus<TestEvents>({ storage, onError: vi.fn() })
+        const handler = vi.fn((payload: TestEvents['user:login']) => {
+          if (payload.id === 'bad') {
+            throw new Error('offline')
+          }
+        })
+        bus.on('user:login', handler, { throttleMs: 1000, leading: false })
+
+        await bus.emit('user:login', { id: 'good' }, { durable: true })
+        expect(handler).not.toHaveBeenCalled()
+        expect(await storage.pending()).toHaveLength(1)
+
+        await vi.advanceTimersByTimeAsync(1000)
+        expect(handler).toHaveBeenCalledTimes(1)
+        expect(await storage.pending()).toEqual([])
+
+        await vi.advanceTimersByTimeAsync(1000)
+        await bus.emit('user:login', { id: 'bad' }, { durable: true })
+        await vi.advanceTimersByTimeAsync(1000)
+        expect(handler).toHaveBeenCalledTimes(2)
+        expect(await storage.pending()).toEqual([
+          expect.objectContaining({ payload: { id: 'bad' } }),
+        ])
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should reject the emit when the envelope cannot be stored', async () => {
+      const storage = createMemoryStorage()
+      storage.append = () => Promise.reject(new Error('disk full'))
+      const bus = createEventBus<TestEvents>({ storage })
+      const handler = vi.fn()
+      bus.on('user:login', handler)
+
+      await expect(bus.emit('user:login', { id: '123' }, { durable: true })).rejects.toThrow(
+        'disk full',
+      )
+      expect(handler).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('subscription filters and rate shaping', () => {
+    it('should type where predicates by the subscribed payload', async () => {
+      const bus = createEventBus<TestEvents>()
+      const handler = vi.fn()
+
+      bus.on('test:number', handler, { where: (payload) => payload.value > 1 })
+      await bus.emit('test:number', { value: 1 })
+      await bus.emit('test:number', { value: 2 })
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(bus.getListeners('test:number').get('test:number')?.[0]?.executionCount).toBe(1)
+    })
+
+    it('should remove once listeners after the first delivery that passes the filter', async () => {
+      const bus = createEventBus<TestEvents>()
+      const handler = vi.fn()
+
+      bus.once('user:login', handler, { where: (payload) => payload.id === 'admin' })
+      await bus.emit('user:login', { id: 'guest' })
+      expect(bus.getListeners().size).toBe(1)
+
+      await bus.emit('user:login', { id: 'admin' })
+      await bus.emit('user:login', { id: 'admin' })
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(bus.getListeners().size).toBe(0)
+    })
+
+    it('should remove debounced once listeners after their first invocation', async () => {
+      vi.useFakeTimers()
+      try {
+        const bus = createEventBus<TestEvents>()
+        const handler = vi.fn()
+
+        bus.once('test:event', handler, { debounceMs: 100 })
+        await bus.emit('test:event', { message: 'a' })
+        await bus.emit('test:event', { message: 'b' })
+        expect(bus.getListeners().size).toBe(1)
+
+        await vi.advanceTimersByTimeAsync(100)
+        await bus.emit('test:event', { message: 'c' })
+        await vi.advanceTimersByTimeAsync(100)
+
+        expect(handler).toHaveBeenCalledTimes(1)
+        expect(handler).toHaveBeenCalledWith({ message: 'b' }, expect.anything())
+        expect(bus.getListeners().size).toBe(0)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should report errors of deferred invocations', async () => {
+      vi.useFakeTimers()
+      try {
+        const onError = vi.fn()
+        const bus = createEventBus<TestEvents>({ onError, errorPolicy: 'throw' })
+        const error = new Error('boom')
+
+        bus.on(
+          'test:event',
+          () => {
+            throw error
+          },
+          { throttleMs: 100 },
+        )
+        await expect(bus.emit('test:event', { message: 'a' })).rejects.toBeInstanceOf(EmitError)
+        await bus.emit('test:event', { message: 'b' })
+        await vi.advanceTimersByTimeAsync(100)
+
+        expect(onError).toHaveBeenCalledTimes(2)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should drop pending invocations when the listener is removed', async () => {
+      vi.useFakeTimers()
+      try {
+        const bus = createEventBus<TestEvents>()
+        const handler = vi.fn()
+
+        const unsubscribe = bus.on('test:event', handler, { debounceMs: 100 })
+        await bus.emit('test:event', { message: 'a' })
+        unsubscribe()
+        await vi.advanceTimersByTimeAsync(100)
+
+        expect(handler).not.toHaveBeenCalled()
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should reject invalid rate shaping options', () => {
+      const bus = createEventBus<TestEvents>()
+
+      expect(() => bus.on('test:event', () => {}, { debounceMs: 0 })).toThrow(RangeError)
+      expect(() => bus.on('test:event', () => {}, { debounceMs: 10, throttleMs: 10 })).toThrow(
+        RangeError,
+      )
+    })
+  })
+
+  describe('listener leak detection', () => {
+    it('should warn once when a pattern exceeds maxListeners', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const bus = createEventBus<TestEvents>({ maxListeners: 2 })
+
+      for (let i = 0; i < 4; i++) {
+        bus.on('test:event', () => {})
+      }
+
+      expect(warn).toHaveBeenCalledTimes(1)
+      const warning = warn.mock.calls[0]?.[1] as MaxListenersExceededWarning
+      expect(warning).toBeInstanceOf(MaxListenersExceededWarning)
+      expect(warning).toMatchObject({ pattern: 'test:event', count: 3, limit: 2 })
+      expect(warning.stack).toContain('eventbus.test.ts')
+      warn.mockRestore()
+    })
+
+    it('should apply per-event overrides', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const bus = createEventBus<TestEvents>({
+        maxListeners: 1,
+        maxListenersPerEvent: { 'user:*': 0, 'test:event': 3 },
+      })
+
+      for (let i = 0; i < 3; i++) {
+        bus.on('test:event', () => {})
+        bus.onPattern('user:*', () => {})
+      }
+      expect(warn).not.toHaveBeenCalled()
+
+      bus.on('user:login', () => {})
+      bus.on('user:login', () => {})
+      expect(warn).toHaveBeenCalledTimes(1)
+      warn.mockRestore()
+    })
+
+    it('should diagnose suspicious listeners', () => {
+      vi.useFakeTimers()
+      try {
+        const bus = createEventBus<TestEvents>({ maxListeners: 1 })
+        const handler = () => {}
+        vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+        bus.on('test:event', handler)
+        bus.on('test:event', handler)
+        vi.advanceTimersByTime(60_000)
+
+        expect(bus.diagnose().map((diagnostic) => diagnostic.kind)).toEqual([
+          'max-listeners-exceeded',
+          'stale-listener',
+          'duplicate-handler',
+        ])
+      } finally {
+        vi.useRealTimers()
+        vi.restoreAllMocks()
+      }
+    })
+  })
+
+  describe('schema validation', () => {
+    const loginSchema: StandardSchemaV1<unknown, { id: string }> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) => {
+          const id = (value as { id?: unknown } | null)?.id
+          return typeof id === 'string'
+            ? { value: { id: id.trim() } }
+            : { issues: [{ message: 'Expected string', path: ['id'] }] }
+        },
+      },
+    }
+
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('should infer the event map from schemas', () => {
+      const bus = createEventBus({ schemas: { 'user:login': loginSchema } })
+
+      expectTypeOf(bus.emit).parameter(0).toEqualTypeOf<'user:login'>()
+      expectTypeOf(bus.emit).parameter(1).toEqualTypeOf<{ id: string }>()
+    })
+
+    it('should deliver validated payloads', async () => {
+      const bus = createEventBus({ schemas: { 'user:login': loginSchema } })
+      const handler = vi.fn()
+
+      bus.on('user:login', handler)
+      await bus.emit('user:login', { id: ' 123 ' })
+
+      expect(handler).toHaveBeenCalledWith({ id: '123' }, expect.any(Object))
+    })
+
+    it('should reject invalid payloads before any listener runs', async () => {
+      const onBeforeEmit = vi.fn()
+      const bus = createEventBus({
+        schemas: { 'user:login': loginSchema },
+        plugins: [{ name: 'plugin', onBeforeEmit }],
+      })
+      const handler = vi.fn()
+
+      bus.on('user:login', handler)
+      const untrusted = JSON.parse('{"id":123}') as { id: string }
+      const error = await bus.emit('user:login', untrusted).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(ValidationError)
+      expect((error as ValidationError).issues).toEqual([
+        { message: 'Expected string', path: ['id'] },
+      ])
+      expect(handler).not.toHaveBeenCalled()
+      expect(onBeforeEmit).not.toHaveBeenCalled()
+    })
+
+    it('should validate handler-side in development mode', async () => {
+      vi.stubEnv('NODE_ENV', 'development')
+      const bus = createEventBus({
+        schemas: { 'user:login': loginSchema },
+        validation: 'development',
+      })
+      const handler = vi.fn()
+
+      bus.useMiddleware(async (ctx, next) => {
+        ctx.payload = { id: 42 } as unknown as { id: string }
+        await next()
+      })
+      bus.on('user:login', handler)
+
+      await expect(bus.emit('user:login', { id: '123' })).rejects.toBeInstanceOf(ValidationError)
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('should skip validation in production with development mode', async () => {
+      vi.stubEnv('NODE_ENV', 'production')
+      const bus = createEventBus({
+        schemas: { 'user:login': loginSchema },
+        validation: 'development',
+      })
+      const handler = vi.fn()
+
+      bus.on('user:login', handler)
+      await bus.emit('user:login', JSON.parse('{"id":123}') as { id: string })
+
+      expect(handler).toHaveBeenCalledWith({ id: 123 }, expect.any(Object))
+    })
+  })
 })
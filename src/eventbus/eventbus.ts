@@ -1,29 +1,270 @@
-import { createHandlerExecutor } from '../handler-executor/handler-executor'
-import { createListenerStore } from '../listener-store/listener-store'
+import { elapsedTime, systemClock } from '../clock/clock'
+import { createDeadLetterStore } from '../dead-letter-store/dead-letter-store'
+import type { DeadLetterRetryStatus } from '../dead-letter-store/dead-letter-store.types'
+import { diagnoseListeners } from '../diagnostics/diagnostics'
+import type { DiagnoseOptions, Diagnostic } from '../diagnostics/diagnostics.types'
+import { EmitError, MaxListenersExceededWarning } from '../errors/errors'
+import { createEventHistory } from '../event-history/event-history'
+import { createEventStream } from '../event-stream/event-stream'
+import type { StreamOptions } from '../event-stream/event-stream.types'
+import {
+  createEmitId,
+  createHandlerExecutor,
+  type HandlerExecutionResult,
+} from '../handler-executor/handler-executor'
+import type { HandlerError } from '../handler-executor/handler-executor.types'
+import { createListenerStore, createUnsubscribe } from '../listener-store/listener-store'
 import type {
+  ListenerFilter,
   ListenerHandler,
   ListenerMap,
   SubscribeOptions,
+  Unsubscribe,
 } from '../listener-store/listener-store.types'
-import { createPatternMatcher } from '../pattern-matcher/pattern-matcher'
-import type { EventBus, EventBusConfig, EventMap } from './eventbus.types'
+import { logger } from '../logger/logger'
+import { createMiddlewarePipeline } from '../middleware/middleware'
+import type { EmitContext, Middleware, MiddlewareOptions } from '../middleware/middleware.types'
+import { createMemoryStorage } from '../outbox/outbox'
+import type { OutboxEnvelope } from '../outbox/outbox.types'
+import { createPatternMatcher, type WildcardMode } from '../pattern-matcher/pattern-matcher'
+import type { PatternSyntax } from '../pattern-matcher/pattern-matcher.types'
+import { createPluginManager } from '../plugin-manager/plugin-manager'
+import type { Plugin } from '../plugin-manager/plugin-manager.types'
+import { createRequestManager } from '../request-manager/request-manager'
+import type {
+  RequestOptions,
+  Responder,
+  ResponderOptions,
+} from '../request-manager/request-manager.types'
+import { createScopedBus } from '../scope/scope'
+import { createEventStats } from '../stats/stats'
+import type { EventBusStats } from '../stats/stats.types'
+import { createStickyStore } from '../sticky-store/sticky-store'
+import type { StickyMap } from '../sticky-store/sticky-store.types'
+import type { StandardSchemaV1 } from '../validation/standard-schema.types'
+import { isDevelopment, validatePayload } from '../validation/validation'
+import { waitForEvent } from '../wait-for/wait-for'
+import type { WaitForOptions } from '../wait-for/wait-for.types'
+import type { EmitOptions, EventBus, EventBusConfig, EventMap } from './eventbus.types'
 
-export function createEventBus<TEventMap extends EventMap = EventMap>(
-  _config?: EventBusConfig<TEventMap>,
-): EventBus<TEventMap> {
-  const patternMatcher = createPatternMatcher()
+/**
+ * Creates an event bus whose pattern types follow the `wildcards` and `delimiter` of
+ * the config, inferred or given as the third and fourth type arguments
+ */
+export function createEventBus<
+  TEventMap extends EventMap = EventMap,
+  TResponseMap extends EventMap = EventMap,
+  TWildcards extends WildcardMode = 'legacy',
+  TDelimiter extends string = ':',
+>(
+  config?: EventBusConfig<TEventMap, TWildcards, TDelimiter>,
+): EventBus<TEventMap, TResponseMap, { wildcards: TWildcards; delimiter: TDelimiter }>
+/**
+ * Creates an event bus whose syntax is set in the config but not in the type arguments,
+ * e.g. `createEventBus<AppEvents>({ delimiter: '.' })`
+ * Wildcard patterns are then accepted without checking which events they match
+ */
+export function createEventBus<
+  TEventMap extends EventMap = EventMap,
+  TResponseMap extends EventMap = EventMap,
+>(config: EventBusConfig<TEventMap>): EventBus<TEventMap, TResponseMap, PatternSyntax>
+export function createEventBus<
+  TEventMap extends EventMap = EventMap,
+  TResponseMap extends EventMap = EventMap,
+>(config: EventBusConfig<TEventMap> = {}): EventBus<TEventMap, TResponseMap, PatternSyntax> {
+  const patternMatcher = createPatternMatcher({
+    wildcards: config.wildcards,
+    delimiter: config.delimiter,
+  })
   const listenerStore = createListenerStore(patternMatcher)
-  const handlerExecutor = createHandlerExecutor<TEventMap>()
+  const errorPolicy = config.errorPolicy ?? 'continue'
+  const clock = config.clock ?? systemClock
+  const handlerExecutor = createHandlerExecutor<TEventMap>({
+    errorPolicy,
+    execution: config.execution,
+    timeoutMs: config.handlerTimeoutMs,
+    timeoutPolicy: config.timeoutPolicy,
+    clock,
+    // Nothing awaits a debounced or throttled invocation, so 'throw' policy errors are only reported
+    onDeferredResult: (event, payload, emitId, result) => {
+      void settleExecution(event, payload as TEventMap[keyof TEventMap], emitId, {
+        ...result,
+        shouldThrow: false,
+      })
+        .then(() => settleDeferred(emitId, result))
+        .catch((error: unknown) => {
+          logger.error(`Error acknowledging "${event}" after a deferred delivery:`, error)
+        })
+    },
+  })
+  const pluginManager = createPluginManager<TEventMap>(config.plugins)
+  const requestManager = createRequestManager(patternMatcher, clock)
+  const middlewarePipeline = createMiddlewarePipeline<TEventMap>()
+  const stickyStore = createStickyStore(patternMatcher)
+  const eventStats = createEventStats()
+  const stickyEvents = new Set<keyof TEventMap>(config.sticky)
+  const history = createEventHistory(patternMatcher, config.historySize ?? 0)
+  const deadLetterStore = createDeadLetterStore(config.deadLetterLimit ?? 1000)
+  // Durable emits by ID, with the number of debounced or throttled deliveries still to run
+  const deferredDeliveries = new Map<string, number>()
+  const storage = config.storage ?? createMemoryStorage()
+  const validation = config.validation ?? 'emit'
+  const validateOnDelivery = validation === 'development' && isDevelopment()
+
+  const getSchema = (event: keyof TEventMap): StandardSchemaV1<unknown, unknown> | undefined =>
+    config.schemas?.[event]
+
+  // Patterns that already triggered a MaxListenersExceededWarning
+  const warnedPatterns = new Set<string>()
+
+  const maxListenersFor = (pattern: string): number | undefined => {
+    const limit = config.maxListenersPerEvent?.[pattern] ?? config.maxListeners
+    return limit !== undefined && limit > 0 ? limit : undefined
+  }
+
+  /**
+   * Warns once per pattern when it has more listeners than allowed
+   * Called while subscribing, so the warning's stack shows where the listener was added
+   */
+  const checkListenerLimit = (pattern: string): void => {
+    const limit = maxListenersFor(pattern)
+    const count = listenerStore.count(pattern)
+    if (limit === undefined || count <= limit || warnedPatterns.has(pattern)) {
+      return
+    }
+
+    warnedPatterns.add(pattern)
+    const warning = new MaxListenersExceededWarning(pattern, count, limit)
+    logger.warn(warning.message, warning)
+  }
+
+  // Detaches subscription signals from listeners that are no longer registered
+  const abortCleanups = new Map<symbol, () => void>()
+
+  /**
+   * Runs bookkeeping for a listener that was removed from the store
+   * Hooks never reject (errors are isolated by the plugin manager), so
+   * synchronous methods can fire them without awaiting
+   */
+  const notifyUnsubscribed = (pattern: string, listenerId: symbol): void => {
+    abortCleanups.get(listenerId)?.()
+    abortCleanups.delete(listenerId)
+    handlerExecutor.release(listenerId)
+    void pluginManager.callHook('onUnsubscribe', pattern, listenerId)
+  }
+
+  const reportError = async <K extends keyof TEventMap>(
+    event: K,
+    payload: TEventMap[K],
+    { listenerId, pattern, error }: HandlerError,
+    willThrow: boolean,
+  ): Promise<void> => {
+    if (config.onError) {
+      try {
+        config.onError(error, { event: String(event), payload, listenerId, pattern })
+      } catch (callbackError) {
+        logger.error('Error in onError callback:', callbackError)
+      }
+    } else if (!willThrow) {
+      logger.error(`Error in handler for "${String(event)}" (pattern "${pattern}"):`, error)
+    }
+
+    await pluginManager.callHook('onError', event, payload, error, listenerId)
+  }
+
+  /**
+   * Bookkeeping after handlers ran: reports errors, records dead letters
+   * and removes once listeners that were invoked
+   */
+  const settleExecution = async <K extends keyof TEventMap>(
+    event: K,
+    payload: TEventMap[K],
+    emitId: string,
+    { listenersToRemove, errors, shouldThrow, deadLetters }: HandlerExecutionResult,
+  ): Promise<void> => {
+    for (const error of errors) {
+      await reportError(event, payload, error, shouldThrow)
+    }
+
+    for (const { listenerId, pattern, errors: attemptErrors } of deadLetters) {
+      deadLetterStore.add({
+        event: String(event),
+        payload,
+        listenerId,
+        pattern,
+        errors: attemptErrors,
+        emitId,
+        failedAt: clock.now(),
+      })
+    }
+
+    for (const listenerId of listenersToRemove) {
+      off(listenerId)
+    }
+  }
 
   const subscribe = (
     pattern: string,
     handler: ListenerHandler<unknown>,
     options: SubscribeOptions = {},
-  ): (() => void) => {
+  ): Unsubscribe => {
+    const { signal } = options
+    if (signal?.aborted) {
+      return createUnsubscribe(() => {})
+    }
+
     const listenerId = listenerStore.add(pattern, handler, options)
+    checkListenerLimit(pattern)
+    void pluginManager.callHook('onSubscribe', pattern, listenerId)
 
-    return (): void => {
-      listenerStore.remove(pattern, listenerId)
+    const unsubscribe = createUnsubscribe(() => {
+      if (listenerStore.remove(pattern, listenerId)) {
+        notifyUnsubscribed(pattern, listenerId)
+      }
+    }, listenerId)
+
+    if (signal) {
+      signal.addEventListener('abort', unsubscribe, { once: true })
+      abortCleanups.set(listenerId, () => signal.removeEventListener('abort', unsubscribe))
+    }
+
+    if (options.replay) {
+      void replaySticky(pattern, listenerId, signal)
+    }
+
+    return unsubscribe
+  }
+
+  /**
+   * Delivers retained sticky payloads matching a pattern to a single new listener
+   * Skips payloads the listener does not receive (e.g. excluded events) and stops early
+   * once the listener is removed (e.g. a once listener after its first call)
+   */
+  const replaySticky = async (
+    pattern: string,
+    listenerId: symbol,
+    signal: AbortSignal | undefined,
+  ): Promise<void> => {
+    for (const sticky of stickyStore.getMatching(pattern)) {
+      const listener = listenerStore.get(listenerId)
+      if (!listener) {
+        return
+      }
+      if (!listenerStore.getMatching(sticky.event).includes(listener)) {
+        continue
+      }
+
+      const event = sticky.event as keyof TEventMap
+      const payload = sticky.payload as TEventMap[keyof TEventMap]
+      const result = await handlerExecutor.execute(event, payload, [listener], {
+        emitId: sticky.emitId,
+        timestamp: sticky.timestamp,
+        signal,
+        metadata: sticky.metadata,
+      })
+
+      // Nothing awaits a replay, so 'throw' policy errors are reported like any other
+      await settleExecution(event, payload, sticky.emitId, { ...result, shouldThrow: false })
     }
   }
 
@@ -31,63 +272,368 @@ export function createEventBus<TEventMap extends EventMap = EventMap>(
     event: K,
     handler: ListenerHandler<TEventMap[K]>,
     options?: SubscribeOptions,
-  ): (() => void) => {
+  ): Unsubscribe => {
     return subscribe(String(event), handler as ListenerHandler<unknown>, options)
   }
 
   const onPattern = (
     pattern: string,
-    handler: ListenerHandler<unknown>,
+    handler: ListenerHandler<never>,
     options?: SubscribeOptions,
-  ): (() => void) => {
-    return subscribe(pattern, handler, options)
+  ): Unsubscribe => {
+    return subscribe(pattern, handler as ListenerHandler<unknown>, options)
   }
 
   const once = <K extends keyof TEventMap>(
     event: K,
     handler: ListenerHandler<TEventMap[K]>,
     options?: Omit<SubscribeOptions, 'once'>,
-  ): (() => void) => {
+  ): Unsubscribe => {
     return subscribe(String(event), handler as ListenerHandler<unknown>, { ...options, once: true })
   }
 
-  const emit = async <K extends keyof TEventMap>(
+  /**
+   * Runs an emit; a recovered envelope was stored and validated by the original emit
+   * @returns True if the emit is durable and was acknowledged
+   */
+  const dispatch = async <K extends keyof TEventMap>(
     event: K,
     payload: TEventMap[K],
-  ): Promise<void> => {
+    options: EmitOptions,
+    recovered?: OutboxEnvelope,
+  ): Promise<boolean> => {
     const eventStr = String(event)
+    const startTime = clock.now()
+    const startElapsed = elapsedTime(clock)
+    options.signal?.throwIfAborted()
+
+    const sticky = options.sticky ?? stickyEvents.has(event)
+    const schema = getSchema(event)
+    const validated =
+      schema && validation === 'emit' && !recovered
+        ? ((await validatePayload(eventStr, schema, payload)) as TEventMap[K])
+        : payload
 
-    const matchingListeners = listenerStore.getMatching(eventStr)
+    const emitId = recovered?.id ?? createEmitId()
+    const durable = recovered !== undefined || options.durable === true
+    if (durable && !recovered) {
+      await storage.append({
+        id: emitId,
+        event: eventStr,
+        payload: validated,
+        timestamp: startTime,
+        metadata: { ...options.metadata },
+      })
+    }
 
-    const { listenersToRemove } = await handlerExecutor.execute(event, payload, matchingListeners)
+    await pluginManager.callHook('onBeforeEmit', event, validated)
 
-    // Remove once listeners
-    for (const listenerId of listenersToRemove) {
-      listenerStore.removeById(listenerId)
+    const ctx = {
+      event,
+      payload: validated,
+      metadata: { ...options.metadata },
+      emitId,
+      timestamp: startTime,
+    } as EmitContext<TEventMap>
+    let handlerCount = 0
+    let errorCount = 0
+    let deferredCount = 0
+    let failure: EmitError | undefined
+
+    // Innermost step of the middleware chain: deliver to matching handlers
+    const deliver = async (): Promise<void> => {
+      if (schema && validateOnDelivery) {
+        ctx.payload = (await validatePayload(eventStr, schema, ctx.payload)) as TEventMap[K]
+      }
+
+      if (sticky) {
+        stickyStore.set({
+          event: eventStr,
+          payload: ctx.payload,
+          emitId: ctx.emitId,
+          timestamp: startTime,
+          metadata: { ...ctx.metadata },
+        })
+      }
+
+      const matchingListeners = listenerStore.getMatching(eventStr)
+      handlerCount = matchingListeners.length
+
+      const result = await handlerExecutor.execute(
+        event,
+        ctx.payload as TEventMap[K],
+        matchingListeners,
+        {
+          execution: options.execution,
+          emitId: ctx.emitId,
+          timestamp: startTime,
+          signal: options.signal,
+          metadata: ctx.metadata,
+        },
+      )
+
+      errorCount = result.errors.length
+      deferredCount = result.deferred.length
+      await settleExecution(event, ctx.payload as TEventMap[K], ctx.emitId, result)
+
+      if (result.shouldThrow) {
+        failure = new EmitError(eventStr, result.errors)
+      }
+    }
+
+    await middlewarePipeline.run(ctx, deliver)
+
+    const duration = elapsedTime(clock) - startElapsed
+    eventStats.record(eventStr, handlerCount, errorCount, startTime)
+    // The payload as handlers received it, so middleware redactions apply to the history
+    history.record({
+      event: eventStr,
+      payload: ctx.payload,
+      emitId: ctx.emitId,
+      timestamp: startTime,
+      duration,
+      handlerCount,
+      errorCount,
+    })
+    await pluginManager.callHook('onAfterEmit', event, ctx.payload, duration, handlerCount)
+
+    options.signal?.throwIfAborted()
+
+    if (failure) {
+      throw failure
     }
+
+    // Handlers that failed (after their retries) need the envelope for redelivery
+    if (!durable || errorCount > 0) {
+      return false
+    }
+    // Debounced or throttled listeners have not run yet; settleDeferred acknowledges later
+    if (deferredCount > 0) {
+      deferredDeliveries.set(emitId, deferredCount)
+      return false
+    }
+    await storage.acknowledge(emitId)
+    return true
+  }
+
+  /**
+   * Acknowledges a durable emit once its last deferred delivery succeeded
+   * A failed or dropped delivery leaves the emit stored for `recover`
+   */
+  const settleDeferred = async (emitId: string, result: HandlerExecutionResult): Promise<void> => {
+    const remaining = deferredDeliveries.get(emitId)
+    if (remaining === undefined) {
+      return
+    }
+
+    if (result.errors.length > 0) {
+      deferredDeliveries.delete(emitId)
+    } else if (remaining > 1) {
+      deferredDeliveries.set(emitId, remaining - 1)
+    } else {
+      deferredDeliveries.delete(emitId)
+      await storage.acknowledge(emitId)
+    }
+  }
+
+  const emit = async <K extends keyof TEventMap>(
+    event: K,
+    payload: TEventMap[K],
+    options: EmitOptions = {},
+  ): Promise<void> => {
+    await dispatch(event, payload, options)
+  }
+
+  const recover = async (pattern?: string): Promise<number> => {
+    let acknowledged = 0
+    for (const envelope of await storage.pending()) {
+      if (pattern !== undefined && !patternMatcher.matches(pattern, envelope.event)) {
+        continue
+      }
+
+      try {
+        const event = envelope.event as keyof TEventMap
+        const payload = envelope.payload as TEventMap[keyof TEventMap]
+        if (await dispatch(event, payload, { metadata: envelope.metadata }, envelope)) {
+          acknowledged++
+        }
+      } catch (error) {
+        logger.error(`Error redelivering "${envelope.event}":`, error)
+      }
+    }
+    return acknowledged
   }
 
   const off = (listenerId: symbol): void => {
-    listenerStore.removeById(listenerId)
+    const pattern = listenerStore.removeById(listenerId)
+    if (pattern !== undefined) {
+      notifyUnsubscribed(pattern, listenerId)
+    }
+  }
+
+  const removeListeners = (filter: ListenerFilter): number => {
+    const removed = listenerStore.removeWhere(filter)
+    for (const [pattern, listenerId] of removed) {
+      notifyUnsubscribed(pattern, listenerId)
+    }
+    return removed.length
   }
 
   const offAll = <K extends keyof TEventMap>(event?: K): void => {
-    listenerStore.removeAll(event ? String(event) : undefined)
+    removeListeners({ event: event === undefined ? undefined : String(event) })
+  }
+
+  const getListeners = (filter: string | ListenerFilter = {}): ListenerMap => {
+    return listenerStore.getAll(typeof filter === 'string' ? { event: filter } : filter)
+  }
+
+  const getStats = (): EventBusStats => ({
+    events: eventStats.getAll(),
+    listeners: getListeners(),
+  })
+
+  const resetStats = (pattern?: string): void => {
+    eventStats.reset(pattern === undefined ? undefined : (e) => patternMatcher.matches(pattern, e))
+    listenerStore.resetStats(
+      pattern === undefined ? undefined : (l) => patternMatcher.matches(pattern, l.pattern),
+    )
+  }
+
+  const retryDeadLetter = async (id: string): Promise<DeadLetterRetryStatus> => {
+    const deadLetter = deadLetterStore.get(id)
+    const listener = deadLetter
+      ? listenerStore.getMatching(deadLetter.event).find((l) => l.id === deadLetter.listenerId)
+      : undefined
+    if (!deadLetter || !listener) {
+      return 'missing'
+    }
+
+    const event = deadLetter.event as keyof TEventMap
+    const payload = deadLetter.payload as TEventMap[keyof TEventMap]
+    const result = await handlerExecutor.execute(event, payload, [listener], {
+      emitId: deadLetter.emitId,
+    })
+
+    // Kept when the handler did not run: filtered out, or its filter threw
+    const handled = result.errors.length === 0 || result.deadLetters.length > 0
+    if (result.filtered.length === 0 && handled) {
+      deadLetterStore.remove(id)
+    }
+    await settleExecution(event, payload, deadLetter.emitId, { ...result, shouldThrow: false })
+
+    if (result.filtered.length > 0) {
+      return 'skipped'
+    }
+    if (result.deferred.length > 0) {
+      return 'deferred'
+    }
+    return result.errors.length === 0 ? 'delivered' : 'failed'
+  }
+
+  const diagnose = (options?: DiagnoseOptions): Diagnostic[] => {
+    // Listener ages are measured with Date.now(), like their addedAt timestamps
+    return diagnoseListeners(listenerStore.list(), maxListenersFor, Date.now(), options)
+  }
+
+  const getSticky = (pattern?: string): StickyMap => {
+    return stickyStore.getAll(pattern)
+  }
+
+  const clearSticky = <K extends keyof TEventMap>(event?: K): boolean => {
+    return stickyStore.clear(event === undefined ? undefined : String(event))
+  }
+
+  const use = (plugin: Plugin<TEventMap>): void => {
+    pluginManager.add(plugin)
+    void pluginManager.callPluginHook(plugin.name, 'onInit')
+  }
+
+  const removePlugin = (name: string): boolean => {
+    return pluginManager.remove(name)
+  }
+
+  const handle = <K extends keyof TResponseMap & keyof TEventMap>(
+    event: K,
+    responder: Responder<TEventMap[K], TResponseMap[K]>,
+    options?: ResponderOptions,
+  ): Unsubscribe => {
+    return requestManager.handle(String(event), responder as Responder, options)
   }
 
-  const getListeners = (event?: string): ListenerMap => {
-    return listenerStore.getAll(event)
+  const request = <K extends keyof TResponseMap & keyof TEventMap>(
+    event: K,
+    payload: TEventMap[K],
+    options?: RequestOptions,
+  ): Promise<TResponseMap[K]> => {
+    return requestManager.request(String(event), payload, options) as Promise<TResponseMap[K]>
+  }
+
+  const requestAll = <K extends keyof TResponseMap & keyof TEventMap>(
+    event: K,
+    payload: TEventMap[K],
+    options?: RequestOptions,
+  ): Promise<TResponseMap[K][]> => {
+    return requestManager.requestAll(String(event), payload, options) as Promise<TResponseMap[K][]>
+  }
+
+  const waitFor = <K extends keyof TEventMap>(
+    event: K,
+    options?: WaitForOptions<TEventMap[K]>,
+  ): Promise<TEventMap[K]> => {
+    const eventStr = String(event)
+    return waitForEvent(eventStr, (handler) => subscribe(eventStr, handler), clock, options)
+  }
+
+  const stream = (pattern: string, options?: StreamOptions): AsyncIterableIterator<unknown> => {
+    return createEventStream(pattern, (handler) => subscribe(pattern, handler), options)
   }
 
-  const bus: EventBus<TEventMap> = {
+  const useMiddleware = (
+    middleware: Middleware<TEventMap>,
+    options?: MiddlewareOptions,
+  ): (() => void) => {
+    return middlewarePipeline.use(middleware, options)
+  }
+
+  const bus: EventBus<TEventMap, TResponseMap, PatternSyntax> = {
+    history: {
+      query: history.query,
+      replay: history.replay,
+    },
+    deadLetters: {
+      list: deadLetterStore.list,
+      retry: retryDeadLetter,
+      remove: deadLetterStore.remove,
+      clear: deadLetterStore.clear,
+    },
     on,
     onPattern,
     once,
     emit,
+    recover,
     off,
     offAll,
+    offByTag: (tag) => removeListeners({ tag }),
+    offByOwner: (owner) => removeListeners({ owner }),
     getListeners,
+    getStats,
+    resetStats,
+    matches: patternMatcher.matches,
+    diagnose,
+    getSticky,
+    clearSticky,
+    use,
+    removePlugin,
+    handle,
+    request,
+    requestAll,
+    waitFor,
+    useMiddleware,
+    stream: stream as EventBus<TEventMap, TResponseMap>['stream'],
+    scope: (namespace) => createScopedBus(bus, namespace, patternMatcher),
   }
 
+  void pluginManager.callHook('onInit')
+
   return bus
 }
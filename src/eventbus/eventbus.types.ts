@@ -1,8 +1,38 @@
+import type { Clock } from '../clock/clock'
+import type { DeadLetterQueue } from '../dead-letter-store/dead-letter-store.types'
+import type { DiagnoseOptions, Diagnostic } from '../diagnostics/diagnostics.types'
+import type { EventHistory } from '../event-history/event-history.types'
+import type { StreamOptions } from '../event-stream/event-stream.types'
+import type { ErrorPolicy, ExecutionStrategy } from '../handler-executor/handler-executor.types'
 import type {
+  ListenerFilter,
   ListenerHandler,
   ListenerMap,
   SubscribeOptions,
+  Unsubscribe,
 } from '../listener-store/listener-store.types'
+import type { Middleware, MiddlewareOptions } from '../middleware/middleware.types'
+import type { StorageAdapter } from '../outbox/outbox.types'
+import type { WildcardMode } from '../pattern-matcher/pattern-matcher'
+import type {
+  DefaultPatternSyntax,
+  EventPattern,
+  MatchingEvents,
+  PatternHandler,
+  PatternSyntax,
+  ValidPattern,
+} from '../pattern-matcher/pattern-matcher.types'
+import type { Plugin } from '../plugin-manager/plugin-manager.types'
+import type {
+  RequestOptions,
+  Responder,
+  ResponderOptions,
+} from '../request-manager/request-manager.types'
+import type { EventNamespace, ScopedEventBus, ScopedEventMap } from '../scope/scope.types'
+import type { EventBusStats } from '../stats/stats.types'
+import type { StickyMap } from '../sticky-store/sticky-store.types'
+import type { EventSchemas, ValidationMode } from '../validation/validation.types'
+import type { WaitForOptions } from '../wait-for/wait-for.types'
 
 /**
  * Type-safe mapping of event names to their payload types
@@ -19,52 +49,182 @@ export type EventMap = Record<string, unknown>
 /**
  * Configuration options for creating an EventBus
  * @template TEventMap - The event map defining available events and their payloads
+ * @template TWildcards - The `wildcards` mode, as seen by the bus's pattern types
+ * @template TDelimiter - The `delimiter`, as seen by the bus's pattern and scope types
+ */
+export interface EventBusConfig<
+  TEventMap extends EventMap = EventMap,
+  TWildcards extends WildcardMode = WildcardMode,
+  TDelimiter extends string = string,
+> {
+  /** Plugins to register when the bus is created (their onInit hooks run immediately) */
+  plugins?: Plugin<TEventMap>[]
+  /** How to proceed when a handler throws or rejects (default: 'continue') */
+  errorPolicy?: ErrorPolicy
+  /** How handlers are run for each emit (default: 'sequential') */
+  execution?: ExecutionStrategy
+  /** Default timeout for async handlers in milliseconds (default: none) */
+  handlerTimeoutMs?: number
+  /**
+   * How to proceed when a handler times out (default: the error policy)
+   * Timeouts are reported as HandlerTimeoutError through onError and plugin hooks
+   */
+  timeoutPolicy?: ErrorPolicy
+  /** Time source for durations and timeouts; inject a fake clock in tests */
+  clock?: Clock
+  /**
+   * Standard Schema validators (Zod, Valibot, ArkType, ...) keyed by event name
+   * The event map is inferred from the schemas' output types when not given explicitly
+   */
+  schemas?: EventSchemas<TEventMap>
+  /** When payloads are validated against `schemas` (default: 'emit') */
+  validation?: ValidationMode
+  /** Events whose last payload is always retained, as if emitted with `sticky: true` */
+  sticky?: Array<keyof TEventMap>
+  /** Number of recent emits kept in `bus.history` (default: 0, history disabled) */
+  historySize?: number
+  /** Number of dead letters kept in `bus.deadLetters`; the oldest are dropped first (default: 1000) */
+  deadLetterLimit?: number
+  /**
+   * How pattern wildcards are interpreted (default: 'legacy')
+   * - `'segment'`: `*` matches within one segment, a `**` or `#` segment matches zero or more segments
+   * - `'legacy'`: every `*` matches any run of characters, so 'user:*' also matches 'user:profile:updated'
+   */
+  wildcards?: TWildcards
+  /** Separator between event name segments, also used to prefix scoped events (default: ':') */
+  delimiter?: TDelimiter
+  /**
+   * Log a MaxListenersExceededWarning when a pattern gets more listeners than this,
+   * once per pattern (default: no limit; 0 also means no limit)
+   */
+  maxListeners?: number
+  /** Per-pattern overrides of `maxListeners`, keyed by event name or pattern */
+  maxListenersPerEvent?: Record<string, number>
+  /** Where durable emits are kept until every listener handled them (default: in memory) */
+  storage?: StorageAdapter
+  /**
+   * Called for every handler error, in addition to plugin onError hooks
+   * When omitted, handler errors are logged unless emit rejects with them
+   */
+  onError?: (error: unknown, context: HandlerErrorContext) => void
+}
+
+/**
+ * Options for a single emit
+ */
+export interface EmitOptions {
+  /** Execution strategy for this emit, overriding the bus default */
+  execution?: ExecutionStrategy
+  /**
+   * Aborting stops invoking remaining listeners and rejects emit with the abort reason
+   * Handlers receive the signal through their context
+   */
+  signal?: AbortSignal
+  /**
+   * Retain the payload for late subscribers that pass `replay: true`
+   * Defaults to whether the event is listed in the `sticky` config
+   */
+  sticky?: boolean
+  /** Initial metadata of the emit, seen by middleware and as `context.metadata` in handlers */
+  metadata?: Record<string, unknown>
+  /**
+   * Store the emit in the configured `storage` before dispatching it, and acknowledge it
+   * only once no listener failed, including debounced or throttled ones that run later;
+   * `bus.recover()` redelivers unacknowledged emits
+   */
+  durable?: boolean
+}
+
+/**
+ * Context passed to the config-level onError callback
  */
-export type EventBusConfig<_TEventMap extends EventMap = EventMap> = Record<string, never>
+export interface HandlerErrorContext {
+  /** The event being emitted */
+  event: string
+  /** The emitted payload */
+  payload: unknown
+  /** ID of the listener whose handler failed */
+  listenerId: symbol
+  /** Pattern the failing listener subscribed with */
+  pattern: string
+}
 
 /**
  * Type-safe event bus for publishing and subscribing to events
  * Supports both exact matches and wildcard patterns
  * @template TEventMap - The event map defining available events and their payloads
+ * @template TResponseMap - Maps requestable events to the type their responders return
+ * @template TSyntax - Wildcard mode and delimiter the pattern and scope types follow
  */
-export interface EventBus<TEventMap extends EventMap = EventMap> {
+export interface EventBus<
+  TEventMap extends EventMap = EventMap,
+  TResponseMap extends EventMap = EventMap,
+  TSyntax extends PatternSyntax = DefaultPatternSyntax,
+> {
+  /**
+   * Recent emits, recorded when the bus is created with `historySize`
+   * @example
+   * ```ts
+   * const bus = createEventBus<AppEvents>({ historySize: 500 })
+   * bus.history.query({ pattern: 'cart:*', limit: 10 })
+   * ```
+   */
+  readonly history: EventHistory
+
+  /**
+   * Deliveries that failed on every attempt of their listener's `retry` policy
+   * @example
+   * ```ts
+   * bus.on('order:placed', syncToCrm, { retry: { attempts: 3, backoff: 'exponential' } })
+   * // later
+   * for (const { id } of bus.deadLetters.list()) await bus.deadLetters.retry(id)
+   * ```
+   */
+  readonly deadLetters: DeadLetterQueue
+
   /**
    * Subscribe to an event
    * @param event - The event name to listen for
    * @param handler - Function to call when the event is emitted
-   * @param options - Optional subscription settings (priority, once)
-   * @returns Unsubscribe function
+   * @param options - Optional subscription settings (priority, once, replay, where, debounceMs, ...)
+   * @returns Unsubscribe function, also disposable with `using`
    * @example
    * ```ts
    * const unsubscribe = bus.on('user:login', (payload) => {
    *   console.log('User logged in:', payload.userId)
    * })
+   *
+   * {
+   *   using sub = bus.on('user:login', audit) // removed at the end of the block
+   * }
    * ```
    */
   on<K extends keyof TEventMap>(
     event: K,
     handler: ListenerHandler<TEventMap[K]>,
-    options?: SubscribeOptions,
-  ): () => void
+    options?: SubscribeOptions<TEventMap[K]>,
+  ): Unsubscribe
 
   /**
-   * Subscribe to an event pattern (supports wildcards like 'user:*')
-   * @param pattern - The pattern to match (supports * wildcard)
+   * Subscribe to an event pattern (supports wildcards like 'user:*' and 'user:**')
+   * The handler receives the payload union of all matching events and `context.event` names
+   * the one that fired; patterns that match no known event are a type error
+   * @param pattern - The pattern to match (* within a segment, ** or # for any number of segments)
    * @param handler - Function to call when matching events are emitted
    * @param options - Optional subscription settings (priority, once)
    * @returns Unsubscribe function
    * @example
    * ```ts
-   * bus.onPattern('user:*', (payload) => {
-   *   console.log('User event:', payload)
+   * bus.onPattern('user:*', (payload, { event }) => {
+   *   console.log('User event:', event, payload)
    * })
    * ```
    */
-  onPattern(
-    pattern: string,
-    handler: ListenerHandler<unknown>,
-    options?: SubscribeOptions,
-  ): () => void
+  onPattern<P extends EventPattern<TEventMap, TSyntax> | (string & {})>(
+    pattern: ValidPattern<TEventMap, P, TSyntax>,
+    handler: PatternHandler<TEventMap, MatchingEvents<TEventMap, P, TSyntax>>,
+    options?: SubscribeOptions<TEventMap[MatchingEvents<TEventMap, P, TSyntax>]>,
+  ): Unsubscribe
 
   /**
    * Subscribe to an event once (automatically unsubscribes after first call)
@@ -82,21 +242,48 @@ export interface EventBus<TEventMap extends EventMap = EventMap> {
   once<K extends keyof TEventMap>(
     event: K,
     handler: ListenerHandler<TEventMap[K]>,
-    options?: Omit<SubscribeOptions, 'once'>,
-  ): () => void
+    options?: Omit<SubscribeOptions<TEventMap[K]>, 'once'>,
+  ): Unsubscribe
 
   /**
    * Emit an event to all matching listeners
-   * Executes handlers sequentially in priority order (FIFO within same priority)
+   * Starts handlers in priority order (FIFO within same priority), sequentially by default
    * @param event - The event name to emit
    * @param payload - The data to send to listeners
+   * @param options - Optional emit settings (execution strategy)
    * @returns Promise that resolves when all handlers complete
+   * @throws ValidationError if the payload does not match the event's schema
+   * @throws EmitError if any handler fails and the error policy is 'throw'
+   * @throws The abort reason if `options.signal` is aborted
+   * @throws The storage error if a durable emit cannot be stored or acknowledged
    * @example
    * ```ts
    * await bus.emit('user:login', { userId: '123' })
+   * await bus.emit('audit:record', entry, { execution: { concurrency: 4 } })
+   * await bus.emit('auth:ready', session, { sticky: true })
+   * await bus.emit('order:placed', order, { durable: true })
    * ```
    */
-  emit<K extends keyof TEventMap>(event: K, payload: TEventMap[K]): Promise<void>
+  emit<K extends keyof TEventMap>(
+    event: K,
+    payload: TEventMap[K],
+    options?: EmitOptions,
+  ): Promise<void>
+
+  /**
+   * Redeliver durable emits that were stored but not acknowledged, e.g. after a crash
+   * Each is emitted again with its original `emitId`, which handlers can use to skip
+   * deliveries they already processed; failed redeliveries stay stored for the next call
+   * @param pattern - Optional event name or pattern of the emits to redeliver
+   * @returns Promise resolving to the number of emits acknowledged
+   * @example
+   * ```ts
+   * const bus = createEventBus<AppEvents>({ storage: createFileStorage('./outbox.jsonl', fs) })
+   * bus.on('order:placed', fulfil)
+   * await bus.recover()
+   * ```
+   */
+  recover(pattern?: string): Promise<number>
 
   /**
    * Remove a specific listener by its ID
@@ -105,21 +292,257 @@ export interface EventBus<TEventMap extends EventMap = EventMap> {
   off(listenerId: symbol): void
 
   /**
-   * Remove all listeners for an event (or all listeners if no event specified)
+   * Remove all listeners that receive an event, including matching wildcard subscriptions
+   * (or all listeners if no event specified)
    * @param event - Optional event name to remove listeners for
    * @example
    * ```ts
-   * bus.offAll('user:login') // Remove all user:login listeners
+   * bus.offAll('user:login') // Remove user:login, user:* and * listeners
    * bus.offAll() // Remove ALL listeners
    * ```
    */
   offAll<K extends keyof TEventMap>(event?: K): void
 
   /**
-   * Get all active listeners (optionally filtered by event)
+   * Remove all listeners subscribed with a tag
+   * @param tag - Tag given in `SubscribeOptions.tags`
+   * @returns Number of listeners removed
+   */
+  offByTag(tag: string): number
+
+  /**
+   * Remove all listeners registered for an owner
+   * @param owner - Object given as `SubscribeOptions.owner`
+   * @returns Number of listeners removed
+   * @example
+   * ```ts
+   * bus.on('cart:add', this.render, { owner: this })
+   * bus.on('cart:remove', this.render, { owner: this })
+   * // on unmount
+   * bus.offByOwner(this)
+   * ```
+   */
+  offByOwner(owner: object): number
+
+  /**
+   * Get all active listeners (optionally filtered by event, tag or owner)
    * Useful for debugging and introspection
-   * @param event - Optional event name to filter listeners
+   * @param filter - Optional event name, or criteria that all must match
    * @returns Map of patterns to their listener information
    */
-  getListeners(event?: string): ListenerMap
+  getListeners(filter?: string | ListenerFilter): ListenerMap
+
+  /**
+   * Get emit counters per event and execution stats per listener
+   * @returns Snapshot of the bus's metrics; pass it to `toPrometheus` to export them
+   * @example
+   * ```ts
+   * const { events, listeners } = bus.getStats()
+   * for (const [pattern, infos] of listeners) {
+   *   console.log(pattern, infos.map((info) => info.p95Duration))
+   * }
+   * ```
+   */
+  getStats(): EventBusStats
+
+  /**
+   * Clear emit counters and listener execution stats (optionally only those matching a pattern)
+   * Listeners stay subscribed
+   * @param pattern - Optional event name or pattern; resets the events it matches and the
+   * listeners whose pattern it matches
+   */
+  resetStats(pattern?: string): void
+
+  /**
+   * Check whether a pattern matches an event name, using the bus's wildcard mode and delimiter
+   * @param pattern - Event name or pattern
+   * @param event - Event name to test
+   * @returns True if a listener subscribed with the pattern would receive the event
+   * @throws PatternSyntaxError if the pattern is malformed
+   */
+  matches(pattern: string, event: string): boolean
+
+  /**
+   * Report suspicious listeners: patterns over their `maxListeners` limit, listeners that
+   * have never run long after being added, and handlers subscribed more than once
+   * @param options - Optional thresholds
+   * @returns Diagnostics grouped by pattern; empty if nothing looks wrong
+   * @example
+   * ```ts
+   * for (const { kind, message } of bus.diagnose({ staleAfterMs: 5 * 60_000 })) {
+   *   console.warn(kind, message)
+   * }
+   * ```
+   */
+  diagnose(options?: DiagnoseOptions): Diagnostic[]
+
+  /**
+   * Get the retained payloads of sticky events (optionally filtered by pattern)
+   * @param pattern - Optional event name or pattern to filter by
+   * @returns Map of event names to their retained payloads, oldest emit first
+   */
+  getSticky(pattern?: string): StickyMap
+
+  /**
+   * Forget the retained payload of a sticky event (or of all events if none specified)
+   * @param event - Optional event name to clear
+   * @returns True if a retained payload was removed
+   */
+  clearSticky<K extends keyof TEventMap>(event?: K): boolean
+
+  /**
+   * Register a plugin at runtime
+   * The plugin's onInit hook is called immediately, and it receives all subsequent hooks
+   * @param plugin - The plugin to register
+   * @throws Error if a plugin with the same name is already registered
+   * @example
+   * ```ts
+   * bus.use({ name: 'metrics', onAfterEmit: (event, _payload, duration) => record(event, duration) })
+   * ```
+   */
+  use(plugin: Plugin<TEventMap>): void
+
+  /**
+   * Unregister a plugin by name
+   * @param name - The name of the plugin to remove
+   * @returns True if a plugin was removed
+   */
+  removePlugin(name: string): boolean
+
+  /**
+   * Register a responder that answers requests for an event
+   * Responders are ordered by priority like listeners; the highest-priority one answers `request`
+   * @param event - The event name to respond to
+   * @param responder - Function returning (or resolving to) the response
+   * @param options - Optional settings (priority, signal)
+   * @returns Function that unregisters the responder, also usable with `using`
+   * @example
+   * ```ts
+   * bus.handle('user:get', async ({ id }) => db.users.find(id))
+   * ```
+   */
+  handle<K extends keyof TResponseMap & keyof TEventMap>(
+    event: K,
+    responder: Responder<TEventMap[K], TResponseMap[K]>,
+    options?: ResponderOptions,
+  ): Unsubscribe
+
+  /**
+   * Send a request and resolve with the highest-priority responder's result
+   * @param event - The event name to request
+   * @param payload - The data to send to the responder
+   * @param options - Optional settings (timeout, signal)
+   * @returns Promise with the response
+   * @throws NoResponderError if no responder is registered for the event
+   * @throws RequestTimeoutError if the responder does not answer within `options.timeout`
+   * @example
+   * ```ts
+   * const user = await bus.request('user:get', { id: '123' }, { timeout: 1000 })
+   * ```
+   */
+  request<K extends keyof TResponseMap & keyof TEventMap>(
+    event: K,
+    payload: TEventMap[K],
+    options?: RequestOptions,
+  ): Promise<TResponseMap[K]>
+
+  /**
+   * Send a request to every matching responder and collect their results in priority order
+   * Resolves with an empty array if no responder is registered
+   * @param event - The event name to request
+   * @param payload - The data to send to the responders
+   * @param options - Optional settings (timeout, signal)
+   * @returns Promise with all responses
+   * @throws RequestTimeoutError if the responders do not all answer within `options.timeout`
+   */
+  requestAll<K extends keyof TResponseMap & keyof TEventMap>(
+    event: K,
+    payload: TEventMap[K],
+    options?: RequestOptions,
+  ): Promise<TResponseMap[K][]>
+
+  /**
+   * Wait for the next occurrence of an event
+   * Uses a temporary listener that is removed on match, timeout or abort
+   * @param event - The event name to wait for
+   * @param options - Optional filter, timeout and signal
+   * @returns Promise with the payload of the next matching event
+   * @throws WaitForTimeoutError if no matching event arrives within `options.timeout`
+   * @throws The abort reason if `options.signal` is aborted
+   * @example
+   * ```ts
+   * const { userId } = await bus.waitFor('user:login', {
+   *   filter: (payload) => payload.userId === '123',
+   *   timeout: 5000,
+   * })
+   * ```
+   */
+  waitFor<K extends keyof TEventMap>(
+    event: K,
+    options?: WaitForOptions<TEventMap[K]>,
+  ): Promise<TEventMap[K]>
+
+  /**
+   * Consume an event (or pattern) as an async iterator of payloads
+   * Payloads are buffered while the consumer is busy; breaking out of `for await`,
+   * calling `return()` or aborting `options.signal` removes the listener
+   * @param event - The event name or pattern to stream
+   * @param options - Optional buffer size, overflow policy and signal
+   * @returns Async iterable iterator of payloads
+   * @example
+   * ```ts
+   * for await (const payload of bus.stream('user:login')) {
+   *   console.log(payload.userId)
+   *   if (done) break
+   * }
+   * ```
+   */
+  stream<K extends keyof TEventMap>(
+    event: K,
+    options?: StreamOptions,
+  ): AsyncIterableIterator<TEventMap[K]>
+  stream(pattern: string, options?: StreamOptions): AsyncIterableIterator<unknown>
+
+  /**
+   * Register a Koa-style middleware that wraps every emit
+   * Middleware run in registration order before listeners are matched. They can
+   * replace `ctx.payload`, add `ctx.metadata` (visible to handlers), suppress delivery
+   * by not calling `next()`, or run code after all handlers finish
+   * @param middleware - The middleware to add
+   * @param options - Optional settings (innermost)
+   * @returns Function that removes the middleware
+   * @example
+   * ```ts
+   * bus.useMiddleware(async (ctx, next) => {
+   *   ctx.metadata.tenant = currentTenant()
+   *   await next()
+   * })
+   * ```
+   */
+  useMiddleware(middleware: Middleware<TEventMap>, options?: MiddlewareOptions): () => void
+
+  /**
+   * Create a child bus for a namespace
+   * The child's `on`, `emit`, `onPattern` and other methods prefix event names with
+   * the namespace and the configured delimiter, and it is typed against the matching
+   * subset of the event map.
+   * Disposing it removes only what was registered through it (including nested scopes)
+   * @param namespace - Prefix for the child's events, without the trailing delimiter
+   * @returns Scoped child bus
+   * @throws TypeError if the namespace is empty
+   * @example
+   * ```ts
+   * const cart = bus.scope('cart')
+   * cart.on('add', (item) => render(item)) // listens to 'cart:add'
+   * await cart.emit('add', item)
+   * cart.dispose()
+   * ```
+   */
+  scope<P extends EventNamespace<TEventMap, TSyntax['delimiter']> | (string & {})>(
+    namespace: P,
+  ): ScopedEventBus<
+    ScopedEventMap<TEventMap, P, TSyntax['delimiter']>,
+    ScopedEventMap<TResponseMap, P, TSyntax['delimiter']>,
+    TSyntax
+  >
 }
@@ -1,25 +1,66 @@
 import { describe, expect, it, vi } from 'vitest'
+import type { Clock } from '../clock/clock'
+import { HandlerTimeoutError } from '../errors/errors'
 import type { Listener } from '../listener-store/listener-store'
+import type { HandlerContext } from '../listener-store/listener-store.types'
 import { createHandlerExecutor } from './handler-executor'
+import type { RetryPolicy } from './handler-executor.types'
 
 interface TestEvents extends Record<string, unknown> {
   'test:event': { message: string }
 }
 
 const createMockListener = (
-  handler: (payload: TestEvents['test:event']) => void | Promise<void>,
-  options: { once?: boolean; priority?: number } = {},
+  handler: (payload: TestEvents['test:event'], context: HandlerContext) => void | Promise<void>,
+  options: { once?: boolean; priority?: number; retry?: RetryPolicy } = {},
 ): Listener => ({
   id: Symbol('test'),
-  handler: handler as (payload: unknown) => void | Promise<void>,
+  handler: handler as Listener['handler'],
   priority: options.priority ?? 0,
   once: options.once ?? false,
   pattern: 'test:event',
   addedAt: Date.now(),
   executionCount: 0,
   totalDuration: 0,
+  errorCount: 0,
+  timeoutCount: 0,
+  retry: options.retry,
+  tags: [],
 })
 
+const createFakeClock = () => {
+  let now = 0
+  const timers = new Map<number, { at: number; callback: () => void }>()
+  let nextHandle = 0
+
+  const clock: Clock & { advance(ms: number): void } = {
+    now: () => now,
+    setTimeout(callback, delayMs) {
+      nextHandle++
+      timers.set(nextHandle, { at: now + delayMs, callback })
+      return nextHandle
+    },
+    clearTimeout(handle) {
+      timers.delete(handle as number)
+    },
+    advance(ms) {
+      now += ms
+      for (const [handle, timer] of [...timers.entries()]) {
+        if (timer.at <= now) {
+          timers.delete(handle)
+          timer.callback()
+        }
+      }
+    },
+  }
+  return clock
+}
+
+const never = () => new Promise<void>(() => {})
+
+// Lets pending promise chains run so retries can schedule their next delay
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
 describe('HandlerExecutor', () => {
   describe('priority-based FIFO execution', () => {
     it('should execute handlers in order (respecting priority)', async () => {
@@ -51,6 +92,9 @@ describe('HandlerExecutor', () => {
         addedAt: baseTime,
         executionCount: 0,
         totalDuration: 0,
+        errorCount: 0,
+        timeoutCount: 0,
+        tags: [],
       }
 
       const listener2: Listener = {
@@ -62,6 +106,9 @@ describe('HandlerExecutor', () => {
         addedAt: baseTime + 2,
         executionCount: 0,
         totalDuration: 0,
+        errorCount: 0,
+        timeoutCount: 0,
+        tags: [],
       }
 
       const listener3: Listener = {
@@ -73,6 +120,9 @@ describe('HandlerExecutor', () => {
         addedAt: baseTime + 1,
         executionCount: 0,
         totalDuration: 0,
+        errorCount: 0,
+        timeoutCount: 0,
+        tags: [],
       }
 
       // Pass listeners in priority order: listener1 (priority 10, added first), listener3 (priority 10, added second), listener2 (priority 5)
@@ -93,6 +143,32 @@ describe('HandlerExecutor', () => {
       expect(listener.totalDuration).toBeGreaterThanOrEqual(0)
     })
 
+    it('should measure durations with the monotonic clock and stamp runs and errors', async () => {
+      let elapsed = 0
+      const clock: Clock = {
+        ...createFakeClock(),
+        now: () => 5000,
+        monotonic: () => elapsed,
+      }
+      const executor = createHandlerExecutor<TestEvents>({ clock })
+      const listener = createMockListener(({ message }) => {
+        elapsed += 7
+        if (message === 'fail') {
+          throw new Error('fail')
+        }
+      })
+
+      await executor.execute('test:event', { message: 'ok' }, [listener])
+      expect(listener.lastRunAt).toBe(5000)
+      expect(listener.lastErrorAt).toBeUndefined()
+      expect(listener.totalDuration).toBe(7)
+      expect(listener.durations?.summary()).toEqual({ min: 7, max: 7, p50: 7, p95: 7, p99: 7 })
+
+      await executor.execute('test:event', { message: 'fail' }, [listener])
+      expect(listener.lastErrorAt).toBe(5000)
+      expect(listener.executionCount).toBe(1)
+    })
+
     it('should return listeners marked once for removal', async () => {
       const executor = createHandlerExecutor<TestEvents>()
 
@@ -119,7 +195,7 @@ describe('HandlerExecutor', () => {
 
       await executor.execute('test:event', { message: 'test' }, [listener])
 
-      expect(syncHandler).toHaveBeenCalledWith({ message: 'test' })
+      expect(syncHandler).toHaveBeenCalledWith({ message: 'test' }, expect.any(Object))
     })
 
     it('should handle async handlers', async () => {
@@ -132,7 +208,7 @@ describe('HandlerExecutor', () => {
 
       await executor.execute('test:event', { message: 'test' }, [listener])
 
-      expect(asyncHandler).toHaveBeenCalledWith({ message: 'test' })
+      expect(asyncHandler).toHaveBeenCalledWith({ message: 'test' }, expect.any(Object))
     })
 
     it('should catch handler errors', async () => {
@@ -179,5 +255,620 @@ describe('HandlerExecutor', () => {
       expect(errorHandler).toHaveBeenCalled()
       expect(successHandler).toHaveBeenCalled()
     })
+
+    it('should return sync and async handler errors', async () => {
+      const executor = createHandlerExecutor<TestEvents>()
+
+      const syncError = new Error('Sync error')
+      const asyncError = new Error('Async error')
+      const listener1 = createMockListener(() => {
+        throw syncError
+      })
+      const listener2 = createMockListener(() => {})
+      const listener3 = createMockListener(async () => {
+        throw asyncError
+      })
+
+      const result = await executor.execute('test:event', { message: 'test' }, [
+        listener1,
+        listener2,
+        listener3,
+      ])
+
+      expect(result.errors).toEqual([
+        { listenerId: listener1.id, pattern: 'test:event', error: syncError },
+        { listenerId: listener3.id, pattern: 'test:event', error: asyncError },
+      ])
+    })
+
+    it('should count failed executions in listener stats', async () => {
+      const executor = createHandlerExecutor<TestEvents>()
+
+      const listener = createMockListener(() => {
+        throw new Error('Handler error')
+      })
+
+      await executor.execute('test:event', { message: 'test' }, [listener])
+      await executor.execute('test:event', { message: 'test' }, [listener])
+
+      expect(listener.errorCount).toBe(2)
+      expect(listener.executionCount).toBe(0)
+    })
+
+    it('should skip remaining handlers after an error with the stop policy', async () => {
+      const executor = createHandlerExecutor<TestEvents>({ errorPolicy: 'stop' })
+
+      const errorHandler = vi.fn(async () => {
+        throw new Error('Handler error')
+      })
+      const skippedHandler = vi.fn()
+
+      const result = await executor.execute('test:event', { message: 'test' }, [
+        createMockListener(errorHandler),
+        createMockListener(skippedHandler),
+      ])
+
+      expect(errorHandler).toHaveBeenCalled()
+      expect(skippedHandler).not.toHaveBeenCalled()
+      expect(result.errors).toHaveLength(1)
+    })
+  })
+
+  describe('execution strategies', () => {
+    const createDelayedListener = (events: string[], name: string, delay: number): Listener =>
+      createMockListener(async () => {
+        events.push(`start:${name}`)
+        await new Promise((resolve) => setTimeout(resolve, delay))
+        events.push(`end:${name}`)
+      })
+
+    it('should start all handlers at once in parallel mode', async () => {
+      const executor = createHandlerExecutor<TestEvents>({ execution: 'parallel' })
+      const events: string[] = []
+
+      await executor.execute('test:event', { message: 'test' }, [
+        createDelayedListener(events, 'a', 30),
+        createDelayedListener(events, 'b', 10),
+        createDelayedListener(events, 'c', 20),
+      ])
+
+      expect(events).toEqual(['start:a', 'start:b', 'start:c', 'end:b', 'end:c', 'end:a'])
+    })
+
+    it('should limit handlers in flight with a concurrency limit', async () => {
+      const executor = createHandlerExecutor<TestEvents>()
+      const events: string[] = []
+
+      await executor.execute(
+        'test:event',
+        { message: 'test' },
+        [
+          createDelayedListener(events, 'a', 30),
+          createDelayedListener(events, 'b', 10),
+          createDelayedListener(events, 'c', 10),
+        ],
+        { execution: { concurrency: 2 } },
+      )
+
+      expect(events).toEqual(['start:a', 'start:b', 'end:b', 'start:c', 'end:c', 'end:a'])
+    })
+
+    it('should return results in priority order regardless of completion order', async () => {
+      const executor = createHandlerExecutor<TestEvents>({ execution: 'parallel' })
+      const error1 = new Error('Slow')
+      const error2 = new Error('Fast')
+
+      const listener1 = createMockListener(
+        async () => {
+          await new Promise((resolve) => setTimeout(resolve, 20))
+          throw error1
+        },
+        { once: true },
+      )
+      const listener2 = createMockListener(async () => {
+        throw error2
+      })
+      const listener3 = createMockListener(() => {}, { once: true })
+
+      const result = await executor.execute('test:event', { message: 'test' }, [
+        listener1,
+        listener2,
+        listener3,
+      ])
+
+      expect(result.errors.map((e) => e.error)).toEqual([error1, error2])
+      expect(result.listenersToRemove).toEqual([listener3.id])
+    })
+
+    it('should not start pending handlers after an error with the stop policy', async () => {
+      const executor = createHandlerExecutor<TestEvents>({
+        errorPolicy: 'stop',
+        execution: { concurrency: 2 },
+      })
+      const skippedHandler = vi.fn()
+
+      const result = await executor.execute('test:event', { message: 'test' }, [
+        createMockListener(async () => {
+          throw new Error('Handler error')
+        }),
+        createMockListener(async () => {
+          await new Promise((resolve) => setTimeout(resolve, 10))
+        }),
+        createMockListener(skippedHandler),
+      ])
+
+      expect(skippedHandler).not.toHaveBeenCalled()
+      expect(result.errors).toHaveLength(1)
+    })
+
+    it('should reject invalid concurrency limits', async () => {
+      expect(() => createHandlerExecutor<TestEvents>({ execution: { concurrency: 0 } })).toThrow(
+        RangeError,
+      )
+
+      const executor = createHandlerExecutor<TestEvents>()
+      await expect(
+        executor.execute('test:event', { message: 'test' }, [], {
+          execution: { concurrency: 1.5 },
+        }),
+      ).rejects.toThrow(RangeError)
+    })
+  })
+
+  describe('handler context', () => {
+    it('should pass event metadata as the second argument', async () => {
+      const executor = createHandlerExecutor<TestEvents>()
+
+      const handler = vi.fn()
+      const listener = createMockListener(handler)
+
+      await executor.execute('test:event', { message: 'test' }, [listener], {
+        emitId: 'emit-1',
+        timestamp: 1234,
+      })
+
+      expect(handler).toHaveBeenCalledWith(
+        { message: 'test' },
+        {
+          event: 'test:event',
+          pattern: 'test:event',
+          listenerId: listener.id,
+          emitId: 'emit-1',
+          timestamp: 1234,
+          signal: expect.any(AbortSignal),
+          metadata: {},
+          stopPropagation: expect.any(Function),
+        },
+      )
+    })
+
+    it('should share a generated emit id across handlers of one execution', async () => {
+      const executor = createHandlerExecutor<TestEvents>()
+      const emitIds: string[] = []
+
+      const handler = (_payload: unknown, context: HandlerContext) => {
+        emitIds.push(context.emitId)
+      }
+
+      await executor.execute('test:event', { message: 'test' }, [
+        createMockListener(handler),
+        createMockListener(handler),
+      ])
+      await executor.execute('test:event', { message: 'test' }, [createMockListener(handler)])
+
+      expect(emitIds[0]).toBe(emitIds[1])
+      expect(emitIds[2]).not.toBe(emitIds[0])
+    })
+
+    it('should skip remaining handlers after stopPropagation', async () => {
+      const executor = createHandlerExecutor<TestEvents>()
+
+      const stoppingHandler = vi.fn(async (_payload: unknown, context: HandlerContext) => {
+        context.stopPropagation()
+      })
+      const skippedHandler = vi.fn()
+      const stoppingListener = createMockListener(stoppingHandler, { once: true })
+
+      const result = await executor.execute('test:event', { message: 'test' }, [
+        stoppingListener,
+        createMockListener(skippedHandler, { once: true }),
+      ])
+
+      expect(stoppingHandler).toHaveBeenCalled()
+      expect(skippedHandler).not.toHaveBeenCalled()
+      expect(result.listenersToRemove).toEqual([stoppingListener.id])
+    })
+
+    it('should not start pending handlers after stopPropagation in parallel mode', async () => {
+      const executor = createHandlerExecutor<TestEvents>({ execution: 'parallel' })
+
+      const skippedHandler = vi.fn()
+
+      await executor.execute('test:event', { message: 'test' }, [
+        createMockListener((_payload, context) => context.stopPropagation()),
+        createMockListener(skippedHandler),
+      ])
+
+      expect(skippedHandler).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('abort signal', () => {
+    it('should stop invoking remaining handlers once aborted', async () => {
+      const executor = createHandlerExecutor<TestEvents>()
+      const controller = new AbortController()
+
+      const abortingHandler = vi.fn(async (_payload: unknown, context: HandlerContext) => {
+        expect(context.signal).toBe(controller.signal)
+        controller.abort()
+      })
+      const skippedHandler = vi.fn()
+
+      await executor.execute(
+        'test:event',
+        { message: 'test' },
+        [createMockListener(abortingHandler), createMockListener(skippedHandler)],
+        { signal: controller.signal },
+      )
+
+      expect(abortingHandler).toHaveBeenCalled()
+      expect(skippedHandler).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('timeouts', () => {
+    it('should report a HandlerTimeoutError and move on to the next listener', async () => {
+      const clock = createFakeClock()
+      const executor = createHandlerExecutor<TestEvents>({ clock, timeoutMs: 100 })
+      const nextHandler = vi.fn()
+      let handlerSignal: AbortSignal | undefined
+
+      const hungListener = createMockListener((_payload, context) => {
+        handlerSignal = context.signal
+        return never()
+      })
+
+      const pending = executor.execute('test:event', { message: 'test' }, [
+        hungListener,
+        createMockListener(nextHandler),
+      ])
+      clock.advance(100)
+      const result = await pending
+
+      expect(nextHandler).toHaveBeenCalled()
+      expect(result.errors).toHaveLength(1)
+      const error = result.errors[0]?.error as HandlerTimeoutError
+      expect(error).toBeInstanceOf(HandlerTimeoutError)
+      expect(error.listenerId).toBe(hungListener.id)
+      expect(error.timeoutMs).toBe(100)
+      expect(handlerSignal?.aborted).toBe(true)
+      expect(handlerSignal?.reason).toBe(error)
+      expect(hungListener.timeoutCount).toBe(1)
+      expect(hungListener.errorCount).toBe(0)
+    })
+
+    it('should prefer the listener timeout over the executor default', async () => {
+      const clock = createFakeClock()
+      const executor = createHandlerExecutor<TestEvents>({ clock, timeoutMs: 1000 })
+      const listener = createMockListener(never)
+      listener.timeoutMs = 50
+
+      const pending = executor.execute('test:event', { message: 'test' }, [listener])
+      clock.advance(50)
+      const result = await pending
+
+      expect(result.errors[0]?.error).toBeInstanceOf(HandlerTimeoutError)
+    })
+
+    it('should not time out handlers that settle in time', async () => {
+      const clock = createFakeClock()
+      const executor = createHandlerExecutor<TestEvents>({ clock, timeoutMs: 100 })
+      const listener = createMockListener(async () => {})
+
+      const result = await executor.execute('test:event', { message: 'test' }, [listener])
+      clock.advance(100)
+
+      expect(result.errors).toHaveLength(0)
+      expect(listener.executionCount).toBe(1)
+      expect(listener.timeoutCount).toBe(0)
+    })
+
+    it('should apply the timeout policy separately from the error policy', async () => {
+      const clock = createFakeClock()
+      const executor = createHandlerExecutor<TestEvents>({
+        clock,
+        timeoutMs: 100,
+        timeoutPolicy: 'stop',
+      })
+      const skippedHandler = vi.fn()
+
+      const pending = executor.execute('test:event', { message: 'test' }, [
+        createMockListener(never),
+        createMockListener(skippedHandler),
+      ])
+      clock.advance(100)
+      const result = await pending
+
+      expect(skippedHandler).not.toHaveBeenCalled()
+      expect(result.shouldThrow).toBe(false)
+    })
+
+    it('should flag the result for throwing when the timeout policy is throw', async () => {
+      const clock = createFakeClock()
+      const executor = createHandlerExecutor<TestEvents>({
+        clock,
+        timeoutMs: 100,
+        timeoutPolicy: 'throw',
+      })
+
+      const pending = executor.execute('test:event', { message: 'test' }, [
+        createMockListener(never),
+      ])
+      clock.advance(100)
+
+      expect((await pending).shouldThrow).toBe(true)
+    })
+  })
+
+  describe('retries', () => {
+    it('should retry failed handlers until they succeed', async () => {
+      const clock = createFakeClock()
+      const executor = createHandlerExecutor<TestEvents>({ clock })
+      let calls = 0
+      const listener = createMockListener(
+        () => {
+          calls++
+          if (calls < 3) {
+            throw new Error(`attempt ${calls}`)
+          }
+        },
+        { retry: { attempts: 3, delayMs: 10 } },
+      )
+
+      const pending = executor.execute('test:event', { message: 'test' }, [listener])
+      clock.advance(10)
+      await flush()
+      clock.advance(10)
+      const result = await pending
+
+      expect(calls).toBe(3)
+      expect(result.errors).toEqual([])
+      expect(result.deadLetters).toEqual([])
+      expect(listener.errorCount).toBe(2)
+      expect(listener.executionCount).toBe(1)
+    })
+
+    it('should report the last error and a dead letter once retries are exhausted', async () => {
+      const clock = createFakeClock()
+      const executor = createHandlerExecutor<TestEvents>({ clock })
+      let calls = 0
+      const listener = createMockListener(
+        async () => {
+          calls++
+          throw new Error(`attempt ${calls}`)
+        },
+        { retry: { attempts: 2, delayMs: 10 } },
+      )
+
+      const pending = executor.execute('test:event', { message: 'test' }, [listener])
+      await flush()
+      clock.advance(10)
+      await flush()
+      clock.advance(10)
+      const result = await pending
+
+      expect(calls).toBe(3)
+      expect(result.errors).toHaveLength(1)
+      expect((result.errors[0]?.error as Error).message).toBe('attempt 3')
+      expect(result.deadLetters).toHaveLength(1)
+      expect(result.deadLetters[0]?.listenerId).toBe(listener.id)
+      expect(result.deadLetters[0]?.errors.map((e) => (e as Error).message)).toEqual([
+        'attempt 1',
+        'attempt 2',
+        'attempt 3',
+      ])
+    })
+
+    it('should dead-letter without retrying when attempts is 0', async () => {
+      const executor = createHandlerExecutor<TestEvents>()
+      const listener = createMockListener(
+        () => {
+          throw new Error('boom')
+        },
+        { retry: { attempts: 0 } },
+      )
+
+      const result = await executor.execute('test:event', { message: 'test' }, [listener])
+
+      expect(result.deadLetters).toHaveLength(1)
+    })
+
+    it('should not dead-letter failures of listeners without a retry policy', async () => {
+      const executor = createHandlerExecutor<TestEvents>()
+      const listener = createMockListener(() => {
+        throw new Error('boom')
+      })
+
+      const result = await executor.execute('test:event', { message: 'test' }, [listener])
+
+      expect(result.errors).toHaveLength(1)
+      expect(result.deadLetters).toEqual([])
+    })
+
+    it('should back off exponentially', async () => {
+      const clock = createFakeClock()
+      const setTimeoutSpy = vi.spyOn(clock, 'setTimeout')
+      const executor = createHandlerExecutor<TestEvents>({ clock })
+      const listener = createMockListener(
+        () => {
+          throw new Error('boom')
+        },
+        { retry: { attempts: 3, backoff: 'exponential', delayMs: 10 } },
+      )
+
+      const pending = executor.execute('test:event', { message: 'test' }, [listener])
+      for (const delay of [10, 20, 40]) {
+        await flush()
+        clock.advance(delay)
+      }
+      await pending
+
+      expect(setTimeoutSpy.mock.calls.map(([, delay]) => delay)).toEqual([10, 20, 40])
+    })
+
+    it('should randomize delays with jitter', async () => {
+      const clock = createFakeClock()
+      const setTimeoutSpy = vi.spyOn(clock, 'setTimeout')
+      vi.spyOn(Math, 'random').mockReturnValue(0.5)
+      const executor = createHandlerExecutor<TestEvents>({ clock })
+      const listener = createMockListener(
+        () => {
+          throw new Error('boom')
+        },
+        { retry: { attempts: 1, delayMs: 100, jitter: true } },
+      )
+
+      const pending = executor.execute('test:event', { message: 'test' }, [listener])
+      clock.advance(50)
+      await pending
+
+      expect(setTimeoutSpy.mock.calls[0]?.[1]).toBe(50)
+      vi.restoreAllMocks()
+    })
+
+    it('should stop retrying when the signal aborts', async () => {
+      const clock = createFakeClock()
+      const executor = createHandlerExecutor<TestEvents>({ clock })
+      const controller = new AbortController()
+      const handler = vi.fn(() => {
+        throw new Error('boom')
+      })
+      const listener = createMockListener(handler, { retry: { attempts: 5, delayMs: 1000 } })
+
+      const pending = executor.execute('test:event', { message: 'test' }, [listener], {
+        signal: controller.signal,
+      })
+      controller.abort()
+      const result = await pending
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(result.deadLetters).toHaveLength(1)
+    })
+  })
+
+  describe('rate shaping', () => {
+    const payload = (message: string) => ({ message })
+
+    it('should skip payloads that do not pass the where filter', async () => {
+      const executor = createHandlerExecutor<TestEvents>()
+      const handler = vi.fn()
+      const listener = createMockListener(handler, { once: true })
+      listener.where = (p) => (p as TestEvents['test:event']).message === 'yes'
+
+      const skippedResult = await executor.execute('test:event', payload('no'), [listener])
+      const invokedResult = await executor.execute('test:event', payload('yes'), [listener])
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(listener.executionCount).toBe(1)
+      expect(skippedResult.listenersToRemove).toEqual([])
+      expect(invokedResult.listenersToRemove).toEqual([listener.id])
+    })
+
+    it('should report errors thrown by the where filter', async () => {
+      const executor = createHandlerExecutor<TestEvents>()
+      const handler = vi.fn()
+      const listener = createMockListener(handler)
+      listener.where = () => {
+        throw new Error('bad filter')
+      }
+
+      const result = await executor.execute('test:event', payload('x'), [listener])
+
+      expect(handler).not.toHaveBeenCalled()
+      expect(result.errors).toHaveLength(1)
+    })
+
+    it('should debounce to the latest payload', async () => {
+      const clock = createFakeClock()
+      const onDeferredResult = vi.fn()
+      const executor = createHandlerExecutor<TestEvents>({ clock, onDeferredResult })
+      const handler = vi.fn()
+      const listener = createMockListener(handler)
+      listener.rateLimit = { mode: 'debounce', ms: 100, leading: false, trailing: true }
+
+      await executor.execute('test:event', payload('a'), [listener])
+      clock.advance(50)
+      await executor.execute('test:event', payload('b'), [listener])
+      clock.advance(50)
+      expect(handler).not.toHaveBeenCalled()
+
+      clock.advance(50)
+      await flush()
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(handler).toHaveBeenCalledWith(payload('b'), expect.anything())
+      expect(listener.executionCount).toBe(1)
+      expect(onDeferredResult).toHaveBeenCalledWith(
+        'test:event',
+        payload('b'),
+        expect.any(String),
+        expect.objectContaining({ errors: [] }),
+      )
+    })
+
+    it('should invoke debounced listeners on the leading edge', async () => {
+      const clock = createFakeClock()
+      const executor = createHandlerExecutor<TestEvents>({ clock })
+      const handler = vi.fn()
+      const listener = createMockListener(handler)
+      listener.rateLimit = { mode: 'debounce', ms: 100, leading: true, trailing: false }
+
+      await executor.execute('test:event', payload('a'), [listener])
+      await executor.execute('test:event', payload('b'), [listener])
+      clock.advance(100)
+      await flush()
+      await executor.execute('test:event', payload('c'), [listener])
+
+      expect(handler.mock.calls.map(([p]) => p)).toEqual([payload('a'), payload('c')])
+    })
+
+    it('should throttle with leading and trailing invocations', async () => {
+      const clock = createFakeClock()
+      const executor = createHandlerExecutor<TestEvents>({ clock })
+      const handler = vi.fn()
+      const listener = createMockListener(handler)
+      listener.rateLimit = { mode: 'throttle', ms: 100, leading: true, trailing: true }
+
+      await executor.execute('test:event', payload('a'), [listener])
+      await executor.execute('test:event', payload('b'), [listener])
+      await executor.execute('test:event', payload('c'), [listener])
+      expect(handler).toHaveBeenCalledTimes(1)
+
+      clock.advance(100)
+      await flush()
+      expect(handler.mock.calls.map(([p]) => p)).toEqual([payload('a'), payload('c')])
+
+      // The trailing call opened a new window
+      await executor.execute('test:event', payload('d'), [listener])
+      expect(handler).toHaveBeenCalledTimes(2)
+      clock.advance(100)
+      await flush()
+      expect(handler).toHaveBeenLastCalledWith(payload('d'), expect.anything())
+    })
+
+    it('should cancel pending invocations on release', async () => {
+      const clock = createFakeClock()
+      const executor = createHandlerExecutor<TestEvents>({ clock })
+      const handler = vi.fn()
+      const listener = createMockListener(handler)
+      listener.rateLimit = { mode: 'debounce', ms: 100, leading: false, trailing: true }
+
+      await executor.execute('test:event', payload('a'), [listener])
+      executor.release(listener.id)
+      clock.advance(100)
+      await flush()
+
+      expect(handler).not.toHaveBeenCalled()
+    })
   })
 })
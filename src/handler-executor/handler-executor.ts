@@ -1,17 +1,174 @@
+import { type Clock, elapsedTime, systemClock } from '../clock/clock'
+import { HandlerTimeoutError } from '../errors/errors'
 import type { EventMap } from '../eventbus/eventbus.types'
-import type { Listener } from '../listener-store/listener-store'
+import { type Listener, type RateLimit, recordExecution } from '../listener-store/listener-store'
+import type { HandlerContext } from '../listener-store/listener-store.types'
+import type {
+  ErrorPolicy,
+  ExecutionStrategy,
+  HandlerError,
+  RetryPolicy,
+} from './handler-executor.types'
+
+/**
+ * Options for creating a handler executor
+ */
+export interface HandlerExecutorOptions {
+  /** How to proceed when a handler fails (default: 'continue') */
+  errorPolicy?: ErrorPolicy
+  /** Default execution strategy (default: 'sequential') */
+  execution?: ExecutionStrategy
+  /** Default timeout for async handlers in milliseconds (default: none) */
+  timeoutMs?: number
+  /** How to proceed when a handler times out (default: the error policy) */
+  timeoutPolicy?: ErrorPolicy
+  /** Time source for durations and timeouts (default: system clock) */
+  clock?: Clock
+  /**
+   * Receives the result of a debounced or throttled handler invoked after its emit finished
+   * @param event - The event the delivery belongs to
+   * @param payload - The payload the handler received
+   * @param emitId - Identifier of the emit the delivery belongs to
+   * @param result - Result of the single delivery
+   */
+  onDeferredResult?: (
+    event: string,
+    payload: unknown,
+    emitId: string,
+    result: HandlerExecutionResult,
+  ) => void
+}
+
+/**
+ * Per-call options for executing handlers
+ */
+export interface ExecuteOptions {
+  /** Execution strategy for this call, overriding the executor default */
+  execution?: ExecutionStrategy
+  /** Identifier of the emit, exposed to handlers (generated when omitted) */
+  emitId?: string
+  /** Time the emit started, exposed to handlers (defaults to now) */
+  timestamp?: number
+  /** Aborting stops invoking remaining handlers; also exposed to handlers */
+  signal?: AbortSignal
+  /** Data attached to the emit, exposed to handlers (default: empty) */
+  metadata?: Record<string, unknown>
+}
 
 /**
  * Result of executing handlers for an event
  * Contains IDs of listeners that should be removed (e.g., once listeners)
+ * and any errors raised by handlers
  */
 export interface HandlerExecutionResult {
   /** Array of listener IDs that should be removed after execution */
   listenersToRemove: symbol[]
+  /** Errors raised by handlers, in execution order */
+  errors: HandlerError[]
+  /** True if any error's policy is 'throw', meaning the emit should fail */
+  shouldThrow: boolean
+  /** Deliveries to listeners with a retry policy that failed on every attempt */
+  deadLetters: FailedDelivery[]
+  /** IDs of rate-limited listeners whose delivery was deferred to a later window or dropped */
+  deferred: symbol[]
+  /** IDs of listeners whose `where` filter rejected the payload */
+  filtered: symbol[]
+}
+
+/**
+ * A delivery that exhausted its listener's retries
+ */
+export interface FailedDelivery {
+  /** ID of the listener whose handler failed */
+  listenerId: symbol
+  /** Pattern the failing listener subscribed with */
+  pattern: string
+  /** The error of every attempt, oldest first */
+  errors: unknown[]
+}
+
+/**
+ * State shared by all handlers of a single execute call
+ */
+interface EmitRun {
+  event: string
+  payload: unknown
+  listeners: Listener[]
+  emitId: string
+  timestamp: number
+  signal: AbortSignal
+  metadata: Record<string, unknown>
+  /** Set when a handler stops propagation or fails under the 'stop' policy */
+  halted: boolean
 }
 
 /**
- * Executes event handlers sequentially in priority order
+ * Timeout state for a single handler execution
+ */
+interface HandlerTimeout {
+  timeoutMs: number
+  /** Aborted on timeout or when the emit signal aborts; exposed as `context.signal` */
+  controller: AbortController
+  /** Detaches the controller from the emit signal */
+  release: () => void
+}
+
+/**
+ * Debounce or throttle state of a listener with an open window
+ */
+interface RateLimitState {
+  /** Closes the current window */
+  timer: unknown
+  /** Latest delivery to invoke when the window closes */
+  pending?: EmitRun
+}
+
+/** Signal handed to handlers when the emit was not given one */
+const neverAbortedSignal = new AbortController().signal
+
+/**
+ * Whether handlers that have not started yet should be skipped
+ */
+const isHalted = (run: EmitRun): boolean => run.halted || run.signal.aborted
+
+/**
+ * Outcome of executing a single handler
+ * A delivery that was filtered out or deferred has no error and is not removed
+ */
+interface ExecutionOutcome {
+  shouldRemove: boolean
+  duration: number
+  error?: HandlerError
+  /** Errors of all attempts, set once a listener with a retry policy gives up */
+  attemptErrors?: unknown[]
+  /** Set when the listener's rate limit kept the handler from running now */
+  deferred?: boolean
+  /** Set when the listener's `where` filter rejected the payload */
+  filtered?: boolean
+}
+
+/** Outcome of a delivery whose payload the listener's filter rejected */
+const filtered: ExecutionOutcome = { shouldRemove: false, duration: 0, filtered: true }
+
+/** Outcome of a delivery held back by the listener's rate limit */
+const deferred: ExecutionOutcome = { shouldRemove: false, duration: 0, deferred: true }
+
+/** Delay before the first retry when the policy does not set one */
+const DEFAULT_RETRY_DELAY_MS = 100
+
+/**
+ * Computes the delay before a retry
+ * @param policy - The listener's retry policy
+ * @param retry - Number of the upcoming retry, starting at 1
+ */
+function retryDelay(policy: RetryPolicy, retry: number): number {
+  const base = policy.delayMs ?? DEFAULT_RETRY_DELAY_MS
+  const delay = policy.backoff === 'exponential' ? base * 2 ** (retry - 1) : base
+  return policy.jitter ? Math.random() * delay : delay
+}
+
+/**
+ * Executes event handlers in priority order
  * Handles both sync and async handlers, tracks execution statistics
  * @template TEventMap - The event map defining available events
  */
@@ -21,67 +178,471 @@ export interface HandlerExecutor<TEventMap extends EventMap> {
    * @param event - The event being emitted
    * @param payload - The event payload
    * @param listeners - Array of listeners to execute (should be pre-sorted by priority)
-   * @returns Promise with IDs of listeners to remove
+   * @param options - Optional per-call settings (execution strategy)
+   * @returns Promise with IDs of listeners to remove and handler errors
    */
   execute<K extends keyof TEventMap>(
     event: K,
     payload: TEventMap[K],
     listeners: Listener[],
+    options?: ExecuteOptions,
   ): Promise<HandlerExecutionResult>
+
+  /**
+   * Drop the debounce or throttle state of a removed listener, cancelling pending invocations
+   * @param listenerId - The removed listener
+   */
+  release(listenerId: symbol): void
+}
+
+let emitCounter = 0
+
+/**
+ * Generates a unique identifier for an emit
+ * @returns Emit ID, unique within the current JavaScript realm
+ */
+export function createEmitId(): string {
+  emitCounter++
+  return `emit:${Date.now().toString(36)}:${emitCounter.toString(36)}`
+}
+
+/**
+ * Converts an execution strategy to the maximum number of handlers in flight
+ * @throws RangeError if a concurrency limit is not a positive integer
+ */
+function resolveConcurrency(strategy: ExecutionStrategy): number {
+  if (strategy === 'sequential') {
+    return 1
+  }
+  if (strategy === 'parallel') {
+    return Number.POSITIVE_INFINITY
+  }
+  if (!Number.isInteger(strategy.concurrency) || strategy.concurrency < 1) {
+    throw new RangeError(`Invalid concurrency ${strategy.concurrency}: expected a positive integer`)
+  }
+  return strategy.concurrency
 }
 
 /**
  * Creates a handler executor with priority-based FIFO execution
- * Handlers are executed sequentially in priority order (higher priority first)
- * Within the same priority, handlers execute in FIFO order
+ * Handlers are started in priority order (higher priority first)
+ * Within the same priority, handlers start in FIFO order
+ *
+ * With the 'sequential' strategy each handler completes before the next starts.
+ * With 'parallel' all handlers start at once, and with `{ concurrency: n }` at most
+ * n handlers are in flight; execution settles once every started handler finishes
+ *
+ * Each handler receives a HandlerContext as its second argument. Calling
+ * `stopPropagation()` or aborting the execute signal skips all handlers that
+ * have not started yet; handlers already running can observe `context.signal`
+ *
+ * Failed handlers are counted in listener stats and returned as errors; with the
+ * 'stop' policy, handlers that have not started yet are skipped after the first failure
  *
- * Note: Configuration options (parallel execution) may be added in the future
+ * Async handlers with a timeout (per listener, or the executor default) that do not
+ * settle in time are reported as a HandlerTimeoutError, handled by the timeout policy,
+ * and their `context.signal` is aborted; their eventual result is ignored
  * @template TEventMap - The event map defining available events
+ * @param options - Executor options (error and timeout policies, execution, clock)
  * @returns Handler executor instance
+ * @throws RangeError if the default concurrency limit or timeout is invalid
  */
-export function createHandlerExecutor<TEventMap extends EventMap>(): HandlerExecutor<TEventMap> {
+export function createHandlerExecutor<TEventMap extends EventMap>(
+  options: HandlerExecutorOptions = {},
+): HandlerExecutor<TEventMap> {
+  const errorPolicy = options.errorPolicy ?? 'continue'
+  const timeoutPolicy = options.timeoutPolicy ?? errorPolicy
+  const clock = options.clock ?? systemClock
+  const defaultConcurrency = resolveConcurrency(options.execution ?? 'sequential')
+
+  if (options.timeoutMs !== undefined && !(options.timeoutMs > 0)) {
+    throw new RangeError(`Invalid timeoutMs ${options.timeoutMs}: expected a positive number`)
+  }
+
+  const rateStates = new Map<symbol, RateLimitState>()
+
+  const policyFor = (error: HandlerError): ErrorPolicy =>
+    error.error instanceof HandlerTimeoutError ? timeoutPolicy : errorPolicy
+
+  /**
+   * Records a failed execution and builds its outcome
+   */
+  function fail(listener: Listener, startTime: number, error: unknown): ExecutionOutcome {
+    const duration = elapsedTime(clock) - startTime
+    listener.errorCount++
+    listener.lastErrorAt = clock.now()
+    return {
+      shouldRemove: false,
+      duration,
+      error: { listenerId: listener.id, pattern: listener.pattern, error },
+    }
+  }
+
+  /**
+   * Records a successful execution and builds its outcome
+   */
+  function succeed(listener: Listener, startTime: number): ExecutionOutcome {
+    const duration = elapsedTime(clock) - startTime
+    recordExecution(listener, duration)
+    return { shouldRemove: listener.once, duration }
+  }
+
+  /**
+   * Settles with the handler's outcome, or with a HandlerTimeoutError if it takes too long
+   * Aborts the handler's signal on timeout so it can cancel in-flight work
+   */
+  function withTimeout(
+    run: EmitRun,
+    listener: Listener,
+    pending: Promise<unknown>,
+    startTime: number,
+    timeout: HandlerTimeout,
+  ): Promise<ExecutionOutcome> {
+    const { timeoutMs, controller } = timeout
+
+    return new Promise((resolve) => {
+      let timedOut = false
+
+      const handle = clock.setTimeout(() => {
+        timedOut = true
+        const error = new HandlerTimeoutError(run.event, listener.id, listener.pattern, timeoutMs)
+        listener.timeoutCount++
+        listener.lastErrorAt = clock.now()
+        controller.abort(error)
+        resolve({
+          shouldRemove: false,
+          duration: elapsedTime(clock) - startTime,
+          error: { listenerId: listener.id, pattern: listener.pattern, error },
+        })
+      }, timeoutMs)
+
+      pending.then(
+        () => {
+          if (!timedOut) {
+            clock.clearTimeout(handle)
+            resolve(succeed(listener, startTime))
+          }
+        },
+        (error: unknown) => {
+          if (!timedOut) {
+            clock.clearTimeout(handle)
+            resolve(fail(listener, startTime, error))
+          }
+        },
+      )
+    })
+  }
+
+  /**
+   * Creates a signal for one handler that aborts with the emit signal or on timeout
+   */
+  function createHandlerTimeout(run: EmitRun, timeoutMs: number): HandlerTimeout {
+    const controller = new AbortController()
+    const forward = () => controller.abort(run.signal.reason)
+
+    if (run.signal.aborted) {
+      forward()
+    } else {
+      run.signal.addEventListener('abort', forward, { once: true })
+    }
+
+    return {
+      timeoutMs,
+      controller,
+      release: () => run.signal.removeEventListener('abort', forward),
+    }
+  }
+
   /**
    * Executes a single handler and tracks stats
    * Returns a Promise only if the handler returns a Promise, otherwise executes synchronously
    */
-  function executeHandler<K extends keyof TEventMap>(
-    _event: K,
-    payload: TEventMap[K],
+  function executeHandler(
+    run: EmitRun,
     listener: Listener,
-  ):
-    | Promise<{ shouldRemove: boolean; duration: number }>
-    | { shouldRemove: boolean; duration: number } {
-    const startTime = Date.now()
+  ): Promise<ExecutionOutcome> | ExecutionOutcome {
+    const startTime = elapsedTime(clock)
+    listener.lastRunAt = clock.now()
+    const timeoutMs = listener.timeoutMs ?? options.timeoutMs
+    const timeout = timeoutMs === undefined ? undefined : createHandlerTimeout(run, timeoutMs)
+    const context: HandlerContext = {
+      event: run.event,
+      pattern: listener.pattern,
+      listenerId: listener.id,
+      emitId: run.emitId,
+      timestamp: run.timestamp,
+      signal: timeout ? timeout.controller.signal : run.signal,
+      metadata: run.metadata,
+      stopPropagation: () => {
+        run.halted = true
+      },
+    }
 
     try {
-      const result = listener.handler(payload)
+      const result = listener.handler(run.payload, context)
 
       // Handle Promise return type
       if (result && typeof result === 'object' && 'then' in result) {
+        if (timeout) {
+          return withTimeout(run, listener, result, startTime, timeout).finally(timeout.release)
+        }
         return result.then(
-          () => {
-            const duration = Date.now() - startTime
-            listener.executionCount++
-            listener.totalDuration += duration
-            return { shouldRemove: listener.once, duration }
-          },
-          (_error) => {
-            const duration = Date.now() - startTime
-            return { shouldRemove: false, duration }
-          },
+          () => succeed(listener, startTime),
+          (error: unknown) => fail(listener, startTime, error),
         )
       }
 
-      // Synchronous handler
-      const duration = Date.now() - startTime
-      listener.executionCount++
-      listener.totalDuration += duration
+      // Synchronous handler (cannot time out)
+      timeout?.release()
+      return succeed(listener, startTime)
+    } catch (error) {
+      timeout?.release()
+      return fail(listener, startTime, error)
+    }
+  }
+
+  /**
+   * Resolves after a delay, or early when the signal aborts
+   */
+  function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clock.clearTimeout(handle)
+        signal.removeEventListener('abort', done)
+        resolve()
+      }
+      const handle = clock.setTimeout(done, ms)
+      signal.addEventListener('abort', done, { once: true })
+    })
+  }
+
+  /**
+   * Retries a failed execution according to the listener's retry policy
+   * Gives up early when the emit signal aborts; the outcome of a delivery that
+   * never succeeded carries the errors of all attempts
+   */
+  async function retryFailed(
+    run: EmitRun,
+    listener: Listener,
+    policy: RetryPolicy,
+    first: ExecutionOutcome,
+  ): Promise<ExecutionOutcome> {
+    const attemptErrors: unknown[] = []
+    let outcome = first
+
+    for (let retry = 1; outcome.error; retry++) {
+      attemptErrors.push(outcome.error.error)
+      if (retry > policy.attempts || run.signal.aborted) {
+        break
+      }
+
+      await sleep(retryDelay(policy, retry), run.signal)
+      if (run.signal.aborted) {
+        break
+      }
+      outcome = await executeHandler(run, listener)
+    }
+
+    return outcome.error ? { ...outcome, attemptErrors } : outcome
+  }
 
-      return { shouldRemove: listener.once, duration }
-    } catch (_error) {
-      const duration = Date.now() - startTime
-      return { shouldRemove: false, duration }
+  /**
+   * Executes a handler, retrying failures if the listener has a retry policy
+   * Stays synchronous for synchronous handlers that succeed on the first attempt
+   */
+  function attempt(run: EmitRun, listener: Listener): Promise<ExecutionOutcome> | ExecutionOutcome {
+    const result = executeHandler(run, listener)
+    const policy = listener.retry
+    if (!policy) {
+      return result
     }
+
+    const retryIfFailed = (outcome: ExecutionOutcome) =>
+      outcome.error ? retryFailed(run, listener, policy, outcome) : outcome
+    return result instanceof Promise ? result.then(retryIfFailed) : retryIfFailed(result)
+  }
+
+  /**
+   * Decides whether a rate-limited listener is invoked now
+   * Opens a window on the first delivery; a later delivery in the window becomes the
+   * pending one, invoked when the window closes. Debounce windows restart on every delivery
+   */
+  function admit(run: EmitRun, listener: Listener, rateLimit: RateLimit): boolean {
+    const state = rateStates.get(listener.id)
+    const invokeNow = !state && rateLimit.leading
+
+    if (state && rateLimit.mode === 'throttle') {
+      state.pending = rateLimit.trailing ? run : undefined
+      return false
+    }
+
+    if (state) {
+      clock.clearTimeout(state.timer)
+    }
+    rateStates.set(listener.id, {
+      timer: clock.setTimeout(() => closeWindow(listener, rateLimit), rateLimit.ms),
+      pending: invokeNow || !rateLimit.trailing ? undefined : run,
+    })
+    return invokeNow
+  }
+
+  /**
+   * Invokes the pending delivery of a window, if any
+   * A throttle window reopens after a trailing invocation so calls stay spaced out
+   */
+  function closeWindow(listener: Listener, rateLimit: RateLimit): void {
+    const pending = rateStates.get(listener.id)?.pending
+    rateStates.delete(listener.id)
+    if (!pending || pending.signal.aborted) {
+      return
+    }
+
+    if (rateLimit.mode === 'throttle') {
+      rateStates.set(listener.id, {
+        timer: clock.setTimeout(() => closeWindow(listener, rateLimit), rateLimit.ms),
+      })
+    }
+    void runDeferred(pending, listener)
+  }
+
+  /**
+   * Invokes a handler outside of its emit and hands the result to `onDeferredResult`
+   */
+  async function runDeferred(pending: EmitRun, listener: Listener): Promise<void> {
+    const run: EmitRun = { ...pending, listeners: [listener], halted: false }
+    const outcome = await attempt(run, listener)
+    options.onDeferredResult?.(run.event, run.payload, run.emitId, collect([listener], [outcome]))
+  }
+
+  /**
+   * Applies the listener's `where` filter and rate limit, then executes its handler
+   * Filtered and deferred deliveries settle immediately without invoking the handler
+   */
+  function deliver(run: EmitRun, listener: Listener): Promise<ExecutionOutcome> | ExecutionOutcome {
+    if (listener.where) {
+      try {
+        if (!listener.where(run.payload)) {
+          return filtered
+        }
+      } catch (error) {
+        return fail(listener, elapsedTime(clock), error)
+      }
+    }
+
+    if (listener.rateLimit && !admit(run, listener, listener.rateLimit)) {
+      return deferred
+    }
+
+    return attempt(run, listener)
+  }
+
+  /**
+   * Builds an execution result from outcomes indexed like `listeners`
+   * Results are collected in priority order, regardless of completion order
+   */
+  function collect(
+    listeners: Listener[],
+    outcomes: Array<ExecutionOutcome | undefined>,
+  ): HandlerExecutionResult {
+    const listenersToRemove: symbol[] = []
+    const errors: HandlerError[] = []
+    const deadLetters: FailedDelivery[] = []
+    const deferredListeners: symbol[] = []
+    const filteredListeners: symbol[] = []
+
+    outcomes.forEach((outcome, index) => {
+      if (!outcome) {
+        return
+      }
+      if (outcome.shouldRemove) {
+        listenersToRemove.push((listeners[index] as Listener).id)
+      }
+      if (outcome.deferred) {
+        deferredListeners.push((listeners[index] as Listener).id)
+      }
+      if (outcome.filtered) {
+        filteredListeners.push((listeners[index] as Listener).id)
+      }
+      if (outcome.error) {
+        errors.push(outcome.error)
+      }
+      if (outcome.error && outcome.attemptErrors) {
+        const { listenerId, pattern } = outcome.error
+        deadLetters.push({ listenerId, pattern, errors: outcome.attemptErrors })
+      }
+    })
+
+    const shouldThrow = errors.some((error) => policyFor(error) === 'throw')
+
+    return {
+      listenersToRemove,
+      errors,
+      shouldThrow,
+      deadLetters,
+      deferred: deferredListeners,
+      filtered: filteredListeners,
+    }
+  }
+
+  /**
+   * Records an outcome and halts the run if the error policy requires it
+   */
+  function settle(
+    run: EmitRun,
+    outcomes: Array<ExecutionOutcome | undefined>,
+    index: number,
+    outcome: ExecutionOutcome,
+  ): void {
+    outcomes[index] = outcome
+
+    if (outcome.error && policyFor(outcome.error) === 'stop') {
+      run.halted = true
+    }
+  }
+
+  /**
+   * Executes handlers one after another until the run is halted
+   */
+  async function runSequential(run: EmitRun): Promise<Array<ExecutionOutcome | undefined>> {
+    const outcomes: Array<ExecutionOutcome | undefined> = []
+
+    for (const [index, listener] of run.listeners.entries()) {
+      if (isHalted(run)) {
+        break
+      }
+      const result = deliver(run, listener)
+
+      // Only await if the result is a Promise
+      settle(run, outcomes, index, result instanceof Promise ? await result : result)
+    }
+
+    return outcomes
+  }
+
+  /**
+   * Executes handlers with at most `limit` in flight, starting them in listener order
+   * Outcomes are indexed by listener position; skipped listeners stay undefined
+   */
+  async function runConcurrent(
+    run: EmitRun,
+    limit: number,
+  ): Promise<Array<ExecutionOutcome | undefined>> {
+    const { listeners } = run
+    const outcomes: Array<ExecutionOutcome | undefined> = new Array(listeners.length)
+    let nextIndex = 0
+
+    const worker = async (): Promise<void> => {
+      while (!isHalted(run) && nextIndex < listeners.length) {
+        const index = nextIndex++
+        const result = deliver(run, listeners[index] as Listener)
+        settle(run, outcomes, index, result instanceof Promise ? await result : result)
+      }
+    }
+
+    const workerCount = Math.min(limit, listeners.length)
+    await Promise.all(Array.from({ length: workerCount }, worker))
+
+    return outcomes
   }
 
   return {
@@ -89,22 +650,36 @@ export function createHandlerExecutor<TEventMap extends EventMap>(): HandlerExec
       event: K,
       payload: TEventMap[K],
       listeners: Listener[],
+      executeOptions: ExecuteOptions = {},
     ): Promise<HandlerExecutionResult> {
-      const listenersToRemove: symbol[] = []
+      const concurrency =
+        executeOptions.execution === undefined
+          ? defaultConcurrency
+          : resolveConcurrency(executeOptions.execution)
 
-      // Execute handlers sequentially in priority order (FIFO within same priority)
-      for (const listener of listeners) {
-        const result = executeHandler(event, payload, listener)
+      const run: EmitRun = {
+        event: String(event),
+        payload,
+        listeners,
+        emitId: executeOptions.emitId ?? createEmitId(),
+        timestamp: executeOptions.timestamp ?? clock.now(),
+        signal: executeOptions.signal ?? neverAbortedSignal,
+        metadata: executeOptions.metadata ?? {},
+        halted: false,
+      }
 
-        // Only await if the result is a Promise
-        const executionResult = result instanceof Promise ? await result : result
+      const outcomes =
+        concurrency === 1 ? await runSequential(run) : await runConcurrent(run, concurrency)
 
-        if (executionResult.shouldRemove) {
-          listenersToRemove.push(listener.id)
-        }
-      }
+      return collect(listeners, outcomes)
+    },
 
-      return { listenersToRemove }
+    release(listenerId: symbol): void {
+      const state = rateStates.get(listenerId)
+      if (state) {
+        clock.clearTimeout(state.timer)
+        rateStates.delete(listenerId)
+      }
     },
   }
 }
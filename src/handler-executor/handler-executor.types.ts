@@ -0,0 +1,47 @@
+/**
+ * How the EventBus reacts when a handler throws or rejects
+ * - `'continue'` - report the error and keep executing remaining handlers (default)
+ * - `'stop'` - report the error and skip the remaining handlers
+ * - `'throw'` - execute all handlers, then reject `emit` with an `EmitError`
+ */
+export type ErrorPolicy = 'continue' | 'stop' | 'throw'
+
+/**
+ * How handlers matching an emitted event are run
+ * Handlers always start in priority order (FIFO within the same priority)
+ * - `'sequential'` - each handler completes before the next starts (default)
+ * - `'parallel'` - all handlers start at once; emit settles when all finish
+ * - `{ concurrency: n }` - at most n handlers are in flight at a time
+ */
+export type ExecutionStrategy = 'sequential' | 'parallel' | { concurrency: number }
+
+/**
+ * How a listener's handler is retried after it throws, rejects or times out
+ * Once retries are exhausted the delivery is recorded as a dead letter
+ * @example
+ * ```ts
+ * bus.on('order:placed', syncToCrm, { retry: { attempts: 3, backoff: 'exponential', jitter: true } })
+ * ```
+ */
+export interface RetryPolicy {
+  /** Number of retries after the first failure (0 only dead-letters the failure) */
+  attempts: number
+  /** How the delay grows between retries: constant, or doubling each time (default: 'fixed') */
+  backoff?: 'fixed' | 'exponential'
+  /** Delay before the first retry in milliseconds (default: 100) */
+  delayMs?: number
+  /** Randomize each delay between 0 and its computed value to spread out retries (default: false) */
+  jitter?: boolean
+}
+
+/**
+ * An error thrown (or rejected) by a handler during execution
+ */
+export interface HandlerError {
+  /** ID of the listener whose handler failed */
+  listenerId: symbol
+  /** Pattern the failing listener subscribed with */
+  pattern: string
+  /** The thrown value or rejection reason */
+  error: unknown
+}
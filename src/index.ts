@@ -1,8 +1,107 @@
+export { bridgeBus } from './bridge/bridge'
+export type {
+  Bridge,
+  BridgeChannel,
+  BridgeCodec,
+  BridgeDirection,
+  BridgeOptions,
+} from './bridge/bridge.types'
+export type { Clock } from './clock/clock'
+export type {
+  DeadLetter,
+  DeadLetterQueue,
+  DeadLetterRetryStatus,
+} from './dead-letter-store/dead-letter-store.types'
+export type {
+  DiagnoseOptions,
+  Diagnostic,
+  DiagnosticKind,
+} from './diagnostics/diagnostics.types'
+export {
+  EmitError,
+  HandlerTimeoutError,
+  MaxListenersExceededWarning,
+  NoResponderError,
+  PatternSyntaxError,
+  RequestTimeoutError,
+  StreamOverflowError,
+  ValidationError,
+  WaitForTimeoutError,
+} from './errors/errors'
+export type {
+  EventHistory,
+  HistoryEntry,
+  HistoryQuery,
+} from './event-history/event-history.types'
+export type { StreamOptions, StreamOverflowPolicy } from './event-stream/event-stream.types'
 export { createEventBus } from './eventbus/eventbus'
-export type { EventBus, EventBusConfig, EventMap } from './eventbus/eventbus.types'
 export type {
+  EmitOptions,
+  EventBus,
+  EventBusConfig,
+  EventMap,
+  HandlerErrorContext,
+} from './eventbus/eventbus.types'
+export type {
+  ErrorPolicy,
+  ExecutionStrategy,
+  HandlerError,
+  RetryPolicy,
+} from './handler-executor/handler-executor.types'
+export { fromEmitter, fromEventTarget, toEmitter, toEventTarget } from './interop/interop'
+export type {
+  BusEmitter,
+  BusEventTarget,
+  EmitterLike,
+  EmitterMapping,
+  EventTargetMapping,
+  InteropRoute,
+} from './interop/interop.types'
+export type {
+  HandlerContext,
+  ListenerFilter,
   ListenerHandler,
   ListenerInfo,
   ListenerMap,
   SubscribeOptions,
+  Unsubscribe,
 } from './listener-store/listener-store.types'
+export type {
+  EmitContext,
+  EmitContextBase,
+  Middleware,
+  MiddlewareOptions,
+} from './middleware/middleware.types'
+export { createFileStorage, createMemoryStorage } from './outbox/outbox'
+export type { FileStorageFs, OutboxEnvelope, StorageAdapter } from './outbox/outbox.types'
+export type { PatternKind, WildcardMode } from './pattern-matcher/pattern-matcher'
+export type {
+  DefaultPatternSyntax,
+  EventPattern,
+  MatchingEvents,
+  PatternHandler,
+  PatternSyntax,
+} from './pattern-matcher/pattern-matcher.types'
+export type { Plugin } from './plugin-manager/plugin-manager.types'
+export type {
+  RequestOptions,
+  Responder,
+  ResponderContext,
+  ResponderOptions,
+} from './request-manager/request-manager.types'
+export type { EventNamespace, ScopedEventBus, ScopedEventMap } from './scope/scope.types'
+export { toPrometheus } from './stats/stats'
+export type {
+  DurationSummary,
+  EventBusStats,
+  EventStats,
+  PrometheusOptions,
+} from './stats/stats.types'
+export type { StickyEvent, StickyMap } from './sticky-store/sticky-store.types'
+export type { StandardSchemaV1 } from './validation/standard-schema.types'
+export type {
+  EventSchemas,
+  ValidationIssue,
+  ValidationMode,
+} from './validation/validation.types'
+export type { WaitForOptions } from './wait-for/wait-for.types'
@@ -0,0 +1,220 @@
+import { describe, expect, it, vi } from 'vitest'
+import { EmitError } from '../errors/errors'
+import { createEventBus } from '../eventbus/eventbus'
+import { fromEmitter, fromEventTarget, toEmitter, toEventTarget } from './interop'
+
+type AppEvents = {
+  'user:login': { id: string }
+  'user:logout': { id: string }
+  'app:exit': { code: number }
+}
+
+/** Minimal stand-in for Node's EventEmitter */
+function createTestEmitter() {
+  const listeners = new Map<string, Array<(...args: unknown[]) => void>>()
+  return {
+    on(event: string, listener: (...args: unknown[]) => void) {
+      listeners.set(event, [...(listeners.get(event) ?? []), listener])
+    },
+    off(event: string, listener: (...args: unknown[]) => void) {
+      listeners.set(
+        event,
+        (listeners.get(event) ?? []).filter((entry) => entry !== listener),
+      )
+    },
+    emit(event: string, ...args: unknown[]) {
+      for (const listener of listeners.get(event) ?? []) {
+        listener(...args)
+      }
+    },
+  }
+}
+
+describe('fromEventTarget', () => {
+  it('should emit mapped DOM events into the bus', async () => {
+    const bus = createEventBus<AppEvents>()
+    const target = new EventTarget()
+    const handler = vi.fn()
+    bus.onPattern('**', handler)
+
+    const dispose = fromEventTarget(bus, target, {
+      login: 'user:login',
+      beforeunload: { event: 'app:exit', payload: () => ({ code: 0 }) },
+    })
+    target.dispatchEvent(new CustomEvent('login', { detail: { id: '1' } }))
+    target.dispatchEvent(new Event('beforeunload'))
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(2))
+
+    expect(handler.mock.calls.map(([payload]) => payload)).toEqual([{ id: '1' }, { code: 0 }])
+
+    dispose()
+    target.dispatchEvent(new CustomEvent('login', { detail: { id: '2' } }))
+    await Promise.resolve()
+    expect(handler).toHaveBeenCalledTimes(2)
+  })
+
+  it('should pass the event itself when it carries no detail', async () => {
+    const bus = createEventBus()
+    const target = new EventTarget()
+    const handler = vi.fn()
+    bus.on('dom:click', handler)
+
+    fromEventTarget(bus, target, { click: 'dom:click' })
+    const event = new Event('click')
+    target.dispatchEvent(event)
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledWith(event, expect.anything()))
+  })
+})
+
+describe('fromEmitter', () => {
+  it('should emit events with shared names using the first argument', async () => {
+    const bus = createEventBus<AppEvents>()
+    const emitter = createTestEmitter()
+    const handler = vi.fn()
+    bus.on('user:login', handler)
+
+    const dispose = fromEmitter(bus, emitter, ['user:login'])
+    emitter.emit('user:login', { id: '1' }, 'ignored')
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1))
+
+    expect(handler).toHaveBeenCalledWith({ id: '1' }, expect.anything())
+    dispose()
+  })
+
+  it('should map emitter events and build payloads from their arguments', async () => {
+    const bus = createEventBus<AppEvents>()
+    const emitter = createTestEmitter()
+    const handler = vi.fn()
+    bus.on('app:exit', handler)
+
+    const dispose = fromEmitter(bus, emitter, {
+      exit: { event: 'app:exit', payload: (code) => ({ code: Number(code) }) },
+    })
+    emitter.emit('exit', 3)
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledWith({ code: 3 }, expect.anything()))
+
+    dispose()
+    emitter.emit('exit', 4)
+    await Promise.resolve()
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it('should log emits that reject', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const bus = createEventBus({ errorPolicy: 'throw', onError: vi.fn() })
+    const emitter = createTestEmitter()
+    bus.on('job:failed', () => {
+      throw new Error('boom')
+    })
+
+    fromEmitter(bus, emitter, ['job:failed'])
+    emitter.emit('job:failed', {})
+
+    await vi.waitFor(() =>
+      expect(error).toHaveBeenCalledWith(
+        'Error emitting "job:failed" from an adapter:',
+        expect.any(Error),
+      ),
+    )
+    vi.restoreAllMocks()
+  })
+})
+
+describe('toEventTarget', () => {
+  it('should dispatch bus events as CustomEvents until disposed', async () => {
+    const bus = createEventBus<AppEvents>()
+    const target = toEventTarget(bus)
+    const received: unknown[] = []
+
+    target.addEventListener('user:login', (event) => {
+      received.push((event as CustomEvent).detail)
+    })
+    await bus.emit('user:login', { id: '1' })
+    await bus.emit('user:logout', { id: '1' })
+
+    target.dispose()
+    await bus.emit('user:login', { id: '2' })
+
+    expect(received).toEqual([{ id: '1' }])
+    expect(target).toBeInstanceOf(EventTarget)
+    expect(bus.getListeners().size).toBe(0)
+  })
+})
+
+describe('toEmitter', () => {
+  it('should subscribe and emit through the bus', async () => {
+    const bus = createEventBus<AppEvents>()
+    const emitter = toEmitter(bus)
+    const listener = vi.fn()
+
+    emitter.on('user:login', listener).once('user:logout', listener)
+
+    await expect(emitter.emit('user:login', { id: '1' })).resolves.toBe(true)
+    await expect(emitter.emit('app:exit', { code: 0 })).resolves.toBe(false)
+    await bus.emit('user:logout', { id: '1' })
+    await bus.emit('user:logout', { id: '2' })
+
+    expect(listener.mock.calls).toEqual([[{ id: '1' }], [{ id: '1' }]])
+    expect(emitter.listeners('user:logout')).toEqual([])
+  })
+
+  it('should deliver emits after emit returns and settle once listeners ran', async () => {
+    const bus = createEventBus<AppEvents>()
+    const emitter = toEmitter(bus)
+    const calls: string[] = []
+    emitter.on('user:login', () => {
+      calls.push('listener')
+    })
+
+    const emitted = emitter.emit('user:login', { id: '1' })
+    calls.push('returned')
+    await emitted
+    calls.push('settled')
+
+    expect(calls).toEqual(['returned', 'listener', 'settled'])
+  })
+
+  it('should reject emit with the bus emit error', async () => {
+    const bus = createEventBus<AppEvents>({ errorPolicy: 'throw' })
+    const emitter = toEmitter(bus)
+    emitter.on('user:login', () => {
+      throw new Error('boom')
+    })
+
+    await expect(emitter.emit('user:login', { id: '1' })).rejects.toBeInstanceOf(EmitError)
+  })
+
+  it('should remove the most recent instance of a listener like EventEmitter', () => {
+    const bus = createEventBus<AppEvents>()
+    const emitter = toEmitter(bus)
+    const listener = vi.fn()
+    const other = vi.fn()
+
+    emitter.on('user:login', listener).addListener('user:login', other).on('user:login', listener)
+    emitter.off('user:login', listener)
+
+    expect(emitter.listeners('user:login')).toEqual([listener, other])
+    expect(emitter.listenerCount('user:login')).toBe(2)
+  })
+
+  it('should only remove its own listeners', () => {
+    const bus = createEventBus<AppEvents>()
+    const emitter = toEmitter(bus)
+    bus.on('user:login', () => {})
+    bus.onPattern('user:*', () => {})
+
+    emitter
+      .on('user:login', () => {})
+      .on('user:logout', () => {})
+      .on('app:exit', () => {})
+    expect(emitter.listenerCount('user:login')).toBe(3)
+
+    emitter.removeAllListeners('user:login')
+    expect(emitter.listenerCount('user:login')).toBe(2)
+
+    emitter.dispose()
+    expect(emitter.listeners('app:exit')).toEqual([])
+    expect(bus.getListeners().size).toBe(2)
+  })
+})
@@ -0,0 +1,272 @@
+import type { EventBus, EventMap } from '../eventbus/eventbus.types'
+import { createUnsubscribe } from '../listener-store/listener-store'
+import type { Unsubscribe } from '../listener-store/listener-store.types'
+import { logger } from '../logger/logger'
+import type { PatternSyntax } from '../pattern-matcher/pattern-matcher.types'
+import type {
+  BusEmitter,
+  BusEventTarget,
+  EmitterLike,
+  EmitterMapping,
+  EventTargetMapping,
+  InteropRoute,
+} from './interop.types'
+
+/** A listener added through toEmitter and the bus subscription behind it */
+interface EmitterSubscription {
+  listener: (payload: unknown) => void
+  unsubscribe: () => void
+}
+
+/**
+ * Emits into the bus without waiting, logging a rejected emit since the caller cannot see it
+ */
+function forward<TSyntax extends PatternSyntax>(
+  bus: EventBus<EventMap, EventMap, TSyntax>,
+  event: string,
+  payload: unknown,
+): void {
+  bus.emit(event, payload).catch((error: unknown) => {
+    logger.error(`Error emitting "${event}" from an adapter:`, error)
+  })
+}
+
+/**
+ * Resolves a route to its bus event name and payload
+ * @param fallback - Payload used when the route has no payload function
+ */
+function resolveRoute<TEventMap extends EventMap, TArgs extends unknown[]>(
+  route: InteropRoute<TEventMap, TArgs>,
+  args: TArgs,
+  fallback: unknown,
+): [event: string, payload: unknown] {
+  return typeof route === 'object'
+    ? [String(route.event), route.payload(...args)]
+    : [String(route), fallback]
+}
+
+/**
+ * Pipes DOM events from an EventTarget into a bus
+ * @param bus - The bus to emit into
+ * @param target - Any EventTarget, e.g. `window`, a DOM element or an AbortSignal
+ * @param mapping - Bus event (and optionally payload) for each DOM event type
+ * @returns Disposer that removes the DOM listeners
+ * @example
+ * ```ts
+ * const stop = fromEventTarget(bus, window, {
+ *   online: { event: 'network:changed', payload: () => ({ online: true }) },
+ *   offline: { event: 'network:changed', payload: () => ({ online: false }) },
+ * })
+ * ```
+ */
+export function fromEventTarget<
+  TEventMap extends EventMap,
+  TResponseMap extends EventMap,
+  TSyntax extends PatternSyntax,
+>(
+  bus: EventBus<TEventMap, TResponseMap, TSyntax>,
+  target: EventTarget,
+  mapping: EventTargetMapping<TEventMap>,
+): Unsubscribe {
+  const listeners = Object.entries(mapping).map(([type, route]) => {
+    const listener = (event: Event): void => {
+      const fallback = event instanceof CustomEvent ? event.detail : event
+      forward(
+        bus as EventBus<EventMap, EventMap, TSyntax>,
+        ...resolveRoute(route, [event], fallback),
+      )
+    }
+    target.addEventListener(type, listener)
+    return [type, listener] as const
+  })
+
+  return createUnsubscribe(() => {
+    for (const [type, listener] of listeners) {
+      target.removeEventListener(type, listener)
+    }
+  })
+}
+
+/**
+ * Pipes events from a Node EventEmitter (or anything with `on` and `off`) into a bus
+ * @param bus - The bus to emit into
+ * @param emitter - The emitter to listen to
+ * @param events - Event names shared by both sides, or a mapping to bus events and payloads
+ * @returns Disposer that removes the emitter listeners
+ * @example
+ * ```ts
+ * fromEmitter(bus, legacyEmitter, ['user:login', 'user:logout'])
+ * fromEmitter(bus, process, { exit: { event: 'app:exit', payload: (code) => ({ code }) } })
+ * ```
+ */
+export function fromEmitter<
+  TEventMap extends EventMap,
+  TResponseMap extends EventMap,
+  TSyntax extends PatternSyntax,
+>(
+  bus: EventBus<TEventMap, TResponseMap, TSyntax>,
+  emitter: EmitterLike,
+  events: EmitterMapping<TEventMap>,
+): Unsubscribe {
+  const routes: Array<[string, InteropRoute<TEventMap, unknown[]>]> = Array.isArray(events)
+    ? events.map((event) => [event, event])
+    : Object.entries(events)
+
+  const listeners = routes.map(([name, route]) => {
+    const listener = (...args: unknown[]): void => {
+      forward(bus as EventBus<EventMap, EventMap, TSyntax>, ...resolveRoute(route, args, args[0]))
+    }
+    emitter.on(name, listener)
+    return [name, listener] as const
+  })
+
+  return createUnsubscribe(() => {
+    for (const [name, listener] of listeners) {
+      emitter.off(name, listener)
+    }
+  })
+}
+
+/**
+ * Exposes a bus as an EventTarget that dispatches a `CustomEvent` for every bus event,
+ * with the payload as `detail`
+ * @param bus - The bus (or scope) to expose
+ * @returns EventTarget whose `dispose()` stops dispatching
+ * @example
+ * ```ts
+ * const target = toEventTarget(bus)
+ * target.addEventListener('user:login', (event) => {
+ *   console.log((event as CustomEvent).detail)
+ * })
+ * ```
+ */
+export function toEventTarget<
+  TEventMap extends EventMap,
+  TResponseMap extends EventMap,
+  TSyntax extends PatternSyntax,
+>(bus: EventBus<TEventMap, TResponseMap, TSyntax>): BusEventTarget {
+  const target = new EventTarget()
+  const unsubscribe = (bus as EventBus<EventMap, EventMap, TSyntax>).onPattern(
+    '**',
+    (payload, { event }) => {
+      target.dispatchEvent(new CustomEvent(event, { detail: payload }))
+    },
+  )
+
+  return Object.assign(target, {
+    dispose: unsubscribe,
+    [Symbol.dispose]: unsubscribe,
+  })
+}
+
+/**
+ * Exposes a bus through an EventEmitter-compatible facade, for migrating emitter code
+ * one call site at a time
+ * @param bus - The bus (or scope) to expose
+ * @returns Facade whose listeners and emits go through the bus
+ * @example
+ * ```ts
+ * const emitter = toEmitter(bus)
+ * emitter.on('user:login', onLogin)  // same as bus.on('user:login', onLogin)
+ * await emitter.emit('user:login', user)  // same as await bus.emit('user:login', user)
+ * ```
+ */
+export function toEmitter<
+  TEventMap extends EventMap,
+  TResponseMap extends EventMap,
+  TSyntax extends PatternSyntax,
+>(bus: EventBus<TEventMap, TResponseMap, TSyntax>): BusEmitter {
+  const untyped = bus as EventBus<EventMap, EventMap, TSyntax>
+  const subscriptions = new Map<string, EmitterSubscription[]>()
+
+  const forget = (event: string, subscription: EmitterSubscription): void => {
+    const remaining = (subscriptions.get(event) ?? []).filter((entry) => entry !== subscription)
+    if (remaining.length === 0) {
+      subscriptions.delete(event)
+    } else {
+      subscriptions.set(event, remaining)
+    }
+  }
+
+  const add = (event: string, listener: (payload: unknown) => void, once: boolean): void => {
+    const subscription: EmitterSubscription = { listener, unsubscribe: () => {} }
+    const unsubscribe = untyped.on(
+      event,
+      (payload) => {
+        if (once) {
+          forget(event, subscription)
+        }
+        listener(payload)
+      },
+      { once },
+    )
+    subscription.unsubscribe = () => {
+      forget(event, subscription)
+      unsubscribe()
+    }
+    subscriptions.set(event, [...(subscriptions.get(event) ?? []), subscription])
+  }
+
+  const remove = (event: string, listener: (payload: unknown) => void): void => {
+    // Like EventEmitter, remove the most recently added instance of the listener
+    const subscription = (subscriptions.get(event) ?? []).findLast(
+      (entry) => entry.listener === listener,
+    )
+    subscription?.unsubscribe()
+  }
+
+  const removeAll = (event?: string): void => {
+    const events = event === undefined ? [...subscriptions.keys()] : [event]
+    for (const name of events) {
+      for (const subscription of subscriptions.get(name) ?? []) {
+        subscription.unsubscribe()
+      }
+    }
+  }
+
+  const emitter: BusEmitter = {
+    on(event, listener) {
+      add(event, listener, false)
+      return this
+    },
+    addListener(event, listener) {
+      add(event, listener, false)
+      return this
+    },
+    once(event, listener) {
+      add(event, listener, true)
+      return this
+    },
+    off(event, listener) {
+      remove(event, listener)
+      return this
+    },
+    removeListener(event, listener) {
+      remove(event, listener)
+      return this
+    },
+    removeAllListeners(event) {
+      removeAll(event)
+      return this
+    },
+    async emit(event, ...args) {
+      const hasListeners = emitter.listenerCount(event) > 0
+      await untyped.emit(event, args[0])
+      return hasListeners
+    },
+    listeners(event) {
+      return (subscriptions.get(event) ?? []).map((entry) => entry.listener)
+    },
+    listenerCount(event) {
+      let count = 0
+      for (const listeners of untyped.getListeners(event).values()) {
+        count += listeners.length
+      }
+      return count
+    },
+    dispose: () => removeAll(),
+    [Symbol.dispose]: () => removeAll(),
+  }
+
+  return emitter
+}
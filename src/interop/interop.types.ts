@@ -0,0 +1,77 @@
+import type { EventMap } from '../eventbus/eventbus.types'
+
+/**
+ * Where an incoming event goes: a bus event name, whose payload is taken as is,
+ * or a bus event name with a function building its payload from the incoming arguments
+ * @template TEventMap - The event map of the bus
+ * @template TArgs - Arguments of the incoming event
+ */
+export type InteropRoute<TEventMap extends EventMap, TArgs extends unknown[]> = {
+  [K in keyof TEventMap]: K | { event: K; payload: (...args: TArgs) => TEventMap[K] }
+}[keyof TEventMap]
+
+/**
+ * DOM event types piped into a bus by fromEventTarget
+ * Without a payload function, the payload is `detail` for a `CustomEvent` and the event itself otherwise
+ * @template TEventMap - The event map of the bus
+ */
+export type EventTargetMapping<TEventMap extends EventMap> = Record<
+  string,
+  InteropRoute<TEventMap, [event: Event]>
+>
+
+/**
+ * Emitter events piped into a bus by fromEmitter: a list of names shared by both sides,
+ * or a mapping like EventTargetMapping whose default payload is the first argument
+ * @template TEventMap - The event map of the bus
+ */
+export type EmitterMapping<TEventMap extends EventMap> =
+  | Array<keyof TEventMap & string>
+  | Record<string, InteropRoute<TEventMap, unknown[]>>
+
+/**
+ * The subset of Node's EventEmitter that fromEmitter listens with
+ */
+export interface EmitterLike {
+  on(event: string, listener: (...args: unknown[]) => void): unknown
+  off(event: string, listener: (...args: unknown[]) => void): unknown
+}
+
+/**
+ * EventTarget returned by toEventTarget, dispatching a `CustomEvent` per bus event
+ * with the payload as `detail`
+ */
+export interface BusEventTarget extends EventTarget {
+  /** Stop dispatching bus events */
+  dispose(): void
+  [Symbol.dispose](): void
+}
+
+/**
+ * EventEmitter-compatible facade returned by toEmitter
+ * Listeners receive the bus payload; `emit` sends its first argument as the payload.
+ * Unlike EventEmitter, delivery is asynchronous: `emit` returns the bus emit promise
+ */
+export interface BusEmitter {
+  on(event: string, listener: (payload: unknown) => void): this
+  addListener(event: string, listener: (payload: unknown) => void): this
+  once(event: string, listener: (payload: unknown) => void): this
+  off(event: string, listener: (payload: unknown) => void): this
+  removeListener(event: string, listener: (payload: unknown) => void): this
+  /** Remove the listeners added through the facade, for one event or all of them */
+  removeAllListeners(event?: string): this
+  /**
+   * Emit through the bus; listeners run after `emit` returns, like every bus emit
+   * @returns Promise resolving to whether the bus had listeners for the event, once
+   * they have all run
+   * @throws Whatever the bus emit rejects with
+   */
+  emit(event: string, ...args: unknown[]): Promise<boolean>
+  /** Listeners added through the facade for an event, in subscription order */
+  listeners(event: string): Array<(payload: unknown) => void>
+  /** Number of bus listeners, including wildcard ones, that would receive the event */
+  listenerCount(event: string): number
+  /** Remove every listener added through the facade */
+  dispose(): void
+  [Symbol.dispose](): void
+}
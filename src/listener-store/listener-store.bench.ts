@@ -0,0 +1,42 @@
+import { bench, describe } from 'vitest'
+import { createPatternMatcher } from '../pattern-matcher/pattern-matcher'
+import { createListenerStore } from './listener-store'
+
+const PATTERN_COUNT = 5000
+// More distinct events than the match cache holds, so lookups exercise the trie
+const EVENT_COUNT = 2000
+
+const patterns = Array.from({ length: PATTERN_COUNT }, (_, i) =>
+  i % 2 === 0 ? `tenant${i}:*` : `tenant${i}:**:updated`,
+)
+const events = Array.from({ length: EVENT_COUNT }, (_, i) => `tenant${i * 2}:login`)
+
+const matcher = createPatternMatcher()
+const store = createListenerStore(matcher)
+for (const pattern of patterns) {
+  store.add(pattern, () => {}, {})
+}
+
+// The previous lookup: test every wildcard pattern with a regex, then sort the merged list
+const scanAll = (event: string) => {
+  return patterns
+    .filter((pattern) => matcher.matches(pattern, event))
+    .map((pattern, order) => ({ pattern, priority: 0, order }))
+    .sort((a, b) => b.priority - a.priority || a.order - b.order)
+}
+
+describe(`getMatching with ${PATTERN_COUNT} wildcard patterns`, () => {
+  let next = 0
+
+  bench('linear scan', () => {
+    scanAll(events[next++ % EVENT_COUNT] as string)
+  })
+
+  bench('segment trie', () => {
+    store.getMatching(events[next++ % EVENT_COUNT] as string)
+  })
+
+  bench('cached event', () => {
+    store.getMatching('tenant0:login')
+  })
+})
@@ -1,4 +1,4 @@
-import { describe, expect, it } from 'vitest'
+import { describe, expect, it, vi } from 'vitest'
 import { createPatternMatcher } from '../pattern-matcher/pattern-matcher'
 import { createListenerStore } from './listener-store'
 
@@ -120,6 +120,37 @@ describe('ListenerStore', () => {
       expect(store.getMatching('test:event').length).toBe(0)
       expect(store.getMatching('other:event').length).toBe(1)
     })
+
+    it('should remove wildcard listeners that receive the event', () => {
+      const matcher = createPatternMatcher()
+      const store = createListenerStore(matcher)
+
+      store.add('test:event', () => {}, {})
+      store.add('test:*', () => {}, {})
+      store.add('*', () => {}, {})
+      store.add('other:*', () => {}, {})
+
+      const removed = store.removeAll('test:event')
+
+      expect(removed.map(([pattern]) => pattern)).toEqual(['test:event', 'test:*', '*'])
+      expect([...store.getAll().keys()]).toEqual(['other:*'])
+    })
+  })
+
+  describe('removeWhere', () => {
+    it('should remove listeners by tag and owner', () => {
+      const matcher = createPatternMatcher()
+      const store = createListenerStore(matcher)
+      const owner = {}
+
+      const tagged = store.add('test:event', () => {}, { tags: ['ui', 'cart'] })
+      const owned = store.add('test:*', () => {}, { owner })
+      store.add('test:event', () => {}, { tags: ['audit'], owner: {} })
+
+      expect(store.removeWhere({ tag: 'cart' })).toEqual([['test:event', tagged]])
+      expect(store.removeWhere({ owner })).toEqual([['test:*', owned]])
+      expect(store.list()).toHaveLength(1)
+    })
   })
 
   describe('getMatching', () => {
@@ -174,6 +205,75 @@ describe('ListenerStore', () => {
     })
   })
 
+  describe('exclude', () => {
+    it('should skip listeners whose exclude patterns match the event', () => {
+      const matcher = createPatternMatcher()
+      const store = createListenerStore(matcher)
+
+      store.add('user:*', () => {}, { exclude: ['user:{ping,pong}'] })
+
+      expect(store.getMatching('user:login')).toHaveLength(1)
+      expect(store.getMatching('user:ping')).toHaveLength(0)
+      expect(store.getAll({ event: 'user:pong' }).size).toBe(0)
+    })
+
+    it('should validate exclude patterns when adding', () => {
+      const matcher = createPatternMatcher()
+      const store = createListenerStore(matcher)
+
+      expect(() => store.add('user:*', () => {}, { exclude: ['user:}'] })).toThrow(
+        'Invalid pattern "user:}": unmatched "}" at index 5',
+      )
+      expect(store.getAll().size).toBe(0)
+    })
+  })
+
+  describe('getMatching index', () => {
+    it('should keep FIFO order across exact and wildcard patterns', () => {
+      const matcher = createPatternMatcher()
+      const store = createListenerStore(matcher)
+
+      const first = store.add('test:*', () => {}, {})
+      const second = store.add('test:event', () => {}, {})
+      const third = store.add('**', () => {}, {})
+
+      expect(store.getMatching('test:event').map((l) => l.id)).toEqual([first, second, third])
+    })
+
+    it('should only test wildcard patterns on the event path', () => {
+      const matcher = createPatternMatcher({ wildcards: 'segment' })
+      const store = createListenerStore(matcher)
+      for (let i = 0; i < 1000; i++) {
+        store.add(`service${i}:*`, () => {}, {})
+        store.add(`service${i}:**:failed`, () => {}, {})
+      }
+      const matches = vi.spyOn(matcher, 'matches')
+
+      expect(store.getMatching('service7:ping')).toHaveLength(1)
+      expect(store.getMatching('service7:job:failed')).toHaveLength(1)
+      expect(matches).toHaveBeenCalledTimes(2)
+    })
+
+    it('should cache results until listeners change', () => {
+      const matcher = createPatternMatcher()
+      const store = createListenerStore(matcher)
+      store.add('test:*', () => {}, {})
+
+      const first = store.getMatching('test:event')
+      expect(store.getMatching('test:event')).toBe(first)
+
+      const id = store.add('test:event', () => {}, { priority: 1 })
+      const second = store.getMatching('test:event')
+      expect(second).not.toBe(first)
+      expect(second[0]?.id).toBe(id)
+
+      store.removeById(id)
+      expect(store.getMatching('test:event')).toHaveLength(1)
+      store.removeAll()
+      expect(store.getMatching('test:event')).toHaveLength(0)
+    })
+  })
+
   describe('getAll', () => {
     it('should return all listeners', () => {
       const matcher = createPatternMatcher()
@@ -197,13 +297,27 @@ describe('ListenerStore', () => {
       store.add('test:*', () => {}, {})
       store.add('other:event', () => {}, {})
 
-      const matching = store.getAll('test:event')
+      const matching = store.getAll({ event: 'test:event' })
 
       expect(matching.size).toBe(2)
       expect(matching.has('test:event')).toBe(true)
       expect(matching.has('test:*')).toBe(true)
       expect(matching.has('other:event')).toBe(false)
     })
+
+    it('should filter listeners by tag', () => {
+      const matcher = createPatternMatcher()
+      const store = createListenerStore(matcher)
+
+      store.add('test:event', () => {}, { tags: ['ui'] })
+      store.add('test:event', () => {}, {})
+      store.add('other:event', () => {}, {})
+
+      const tagged = store.getAll({ tag: 'ui' })
+
+      expect([...tagged.keys()]).toEqual(['test:event'])
+      expect(tagged.get('test:event')?.map((info) => info.tags)).toEqual([['ui']])
+    })
   })
 
   describe('updateStats', () => {
@@ -1,9 +1,14 @@
+import type { RetryPolicy } from '../handler-executor/handler-executor.types'
 import type { PatternMatcher } from '../pattern-matcher/pattern-matcher'
+import { createPatternTrie } from '../pattern-trie/pattern-trie'
+import { createDurationStats, type DurationStats } from '../stats/stats'
 import type {
+  ListenerFilter,
   ListenerHandler,
   ListenerInfo,
   ListenerMap,
   SubscribeOptions,
+  Unsubscribe,
 } from './listener-store.types'
 
 /**
@@ -28,107 +33,265 @@ export interface Listener<T = unknown> {
   executionCount: number
   /** Total execution duration in milliseconds (for calculating average) */
   totalDuration: number
+  /** Number of times this listener's handler has thrown or rejected */
+  errorCount: number
+  /** Timeout for async handlers in milliseconds (undefined = executor default) */
+  timeoutMs?: number
+  /** Number of times this listener's handler has timed out */
+  timeoutCount: number
+  /** Distribution of successful execution durations (undefined until the first one) */
+  durations?: DurationStats
+  /** Time the handler was last invoked (milliseconds since epoch) */
+  lastRunAt?: number
+  /** Time the handler last threw, rejected or timed out (milliseconds since epoch) */
+  lastErrorAt?: number
+  /** Retry policy for failed deliveries (undefined = no retries or dead letters) */
+  retry?: RetryPolicy
+  /** Predicate a payload must pass before the handler is invoked */
+  where?: (payload: unknown) => boolean
+  /** Patterns of events the listener skips */
+  exclude?: string[]
+  /** Debounce or throttle settings (undefined = every delivery is invoked) */
+  rateLimit?: RateLimit
+  /** Tags given at subscription */
+  tags: string[]
+  /** Object the listener was registered for */
+  owner?: object
+}
+
+/**
+ * Resolved debounce or throttle settings of a listener
+ */
+export interface RateLimit {
+  mode: 'debounce' | 'throttle'
+  /** Window length in milliseconds */
+  ms: number
+  /** Invoke on the first delivery of a window */
+  leading: boolean
+  /** Invoke with the latest delivery at the end of a window */
+  trailing: boolean
 }
 
 /**
  * Manages listener storage and retrieval
- * Separates exact matches from wildcard patterns for O(1) lookup performance
+ * Separates exact matches from wildcard patterns for O(1) lookup performance;
+ * wildcard patterns are indexed in a segment trie and listeners by ID
  */
 export interface ListenerStore {
-  /** Add a new listener and return its unique ID */
+  /**
+   * Add a new listener and return its unique ID
+   * @throws RangeError if `options.timeoutMs`, `options.retry` or the debounce/throttle options are invalid
+   * @throws PatternSyntaxError if the pattern or an `options.exclude` pattern is malformed
+   */
   add(pattern: string, handler: ListenerHandler<unknown>, options: SubscribeOptions): symbol
   /** Remove a listener by pattern and ID */
   remove(pattern: string, listenerId: symbol): boolean
+  /** Get a registered listener by ID */
+  get(listenerId: symbol): Listener | undefined
   /** Remove a listener by ID only, returns the pattern if found */
   removeById(listenerId: symbol): string | undefined
-  /** Remove all listeners for an event, or all listeners if no event specified */
+  /** Remove all listeners that receive an event, or all listeners if no event specified */
   removeAll(event?: string): Array<[string, symbol]>
-  /** Get all listeners that match a given event */
+  /** Remove all listeners that match a filter */
+  removeWhere(filter: ListenerFilter): Array<[string, symbol]>
+  /**
+   * Get all listeners that match a given event, sorted by priority
+   * The array is cached until listeners change and must not be mutated
+   */
   getMatching(event: string): Listener[]
-  /** Get all registered listeners, optionally filtered by event */
-  getAll(event?: string): ListenerMap
+  /** Get all registered listeners, optionally filtered */
+  getAll(filter?: ListenerFilter): ListenerMap
+  /** Get every registered listener, grouped by pattern */
+  list(): Listener[]
+  /** Count the listeners subscribed with exactly this pattern */
+  count(pattern: string): number
   /** Update execution statistics for a listener */
   updateStats(listenerId: symbol, duration: number): void
+  /** Clear the execution statistics of the listeners a predicate accepts (or of all listeners) */
+  resetStats(predicate?: (listener: Listener) => boolean): void
   /** Mark a listener for removal (batch operation) */
   markForRemoval(listenerId: symbol): void
   /** Remove all marked listeners */
   removeMarked(): void
 }
 
+/**
+ * Resolves the debounce or throttle options of a subscription
+ * @throws RangeError if both are set or a window is not a positive number
+ */
+function resolveRateLimit(options: SubscribeOptions): RateLimit | undefined {
+  const { debounceMs, throttleMs } = options
+  if (debounceMs !== undefined && throttleMs !== undefined) {
+    throw new RangeError('debounceMs and throttleMs cannot be combined')
+  }
+
+  const mode = debounceMs !== undefined ? 'debounce' : 'throttle'
+  const ms = debounceMs ?? throttleMs
+  if (ms === undefined) {
+    return undefined
+  }
+  if (!(ms > 0)) {
+    throw new RangeError(
+      `Invalid ${mode === 'debounce' ? 'debounceMs' : 'throttleMs'} ${ms}: expected a positive number`,
+    )
+  }
+
+  return {
+    mode,
+    ms,
+    leading: options.leading ?? mode === 'throttle',
+    trailing: options.trailing ?? true,
+  }
+}
+
+/**
+ * Checks a listener's retry policy
+ * @throws RangeError if the retry count is not a non-negative integer or the delay is negative
+ */
+function validateRetryPolicy({ attempts, delayMs }: RetryPolicy): void {
+  if (!Number.isInteger(attempts) || attempts < 0) {
+    throw new RangeError(`Invalid retry attempts ${attempts}: expected a non-negative integer`)
+  }
+  if (delayMs !== undefined && !(delayMs >= 0)) {
+    throw new RangeError(`Invalid retry delayMs ${delayMs}: expected a non-negative number`)
+  }
+}
+
+/** Listener behind each handle returned by a bus subscription, for scopes to find their own */
+const listenerIds = new WeakMap<Unsubscribe, symbol>()
+
+/**
+ * Wraps a removal function as an `Unsubscribe` handle
+ * @param listenerId - The listener the handle removes, if it removes one
+ */
+export function createUnsubscribe(remove: () => void, listenerId?: symbol): Unsubscribe {
+  const unsubscribe = Object.assign(() => remove(), { [Symbol.dispose]: remove })
+  if (listenerId) {
+    listenerIds.set(unsubscribe, listenerId)
+  }
+  return unsubscribe
+}
+
+/**
+ * Gets the listener removed by a handle from createUnsubscribe
+ */
+export function listenerIdOf(unsubscribe: Unsubscribe): symbol | undefined {
+  return listenerIds.get(unsubscribe)
+}
+
+/**
+ * Records a successful execution of a listener
+ * @param duration - Execution time in milliseconds
+ */
+export function recordExecution(listener: Listener, duration: number): void {
+  listener.executionCount++
+  listener.totalDuration += duration
+  listener.durations ??= createDurationStats()
+  listener.durations.record(duration)
+}
+
+/**
+ * Clears the execution statistics of a listener
+ */
+function resetListenerStats(listener: Listener): void {
+  listener.executionCount = 0
+  listener.totalDuration = 0
+  listener.errorCount = 0
+  listener.timeoutCount = 0
+  listener.durations = undefined
+  listener.lastRunAt = undefined
+  listener.lastErrorAt = undefined
+}
+
+/** Maximum number of event names whose matching listeners are cached */
+const MATCH_CACHE_SIZE = 1024
+
 export function createListenerStore(patternMatcher: PatternMatcher): ListenerStore {
   // Separate exact matches from wildcards for performance
   const exactMatches = new Map<string, Listener[]>()
   const wildcardPatterns = new Map<string, Listener[]>()
+  const wildcardTrie = createPatternTrie(patternMatcher)
+  // Listener by ID, with the insertion order used to keep equal priorities FIFO
+  const byId = new Map<symbol, { listener: Listener; order: number }>()
+  // Sorted listeners per event name, cleared whenever listeners are added or removed
+  const matchCache = new Map<string, Listener[]>()
   const markedForRemoval = new Set<symbol>()
+  let nextOrder = 0
 
   const getMapForPattern = (pattern: string) => {
-    return patternMatcher.hasWildcard(pattern) ? wildcardPatterns : exactMatches
+    return patternMatcher.classify(pattern) === 'exact' ? exactMatches : wildcardPatterns
   }
 
+  const orderOf = (listener: Listener): number => byId.get(listener.id)?.order ?? 0
+
   const sortByPriority = (listeners: Listener[]) => {
     return [...listeners].sort((a, b) => {
       // Sort by priority (higher first)
       if (b.priority !== a.priority) {
         return b.priority - a.priority
       }
-      // Within same priority, maintain FIFO order (stable sort by addedAt)
-      return a.addedAt - b.addedAt
+      // Within same priority, maintain FIFO order
+      return orderOf(a) - orderOf(b)
     })
   }
 
-  const removeListenerById = (
-    map: Map<string, Listener[]>,
-    listenerId: symbol,
-  ): string | undefined => {
-    for (const [pattern, listeners] of map.entries()) {
-      const index = listeners.findIndex((l) => l.id === listenerId)
-      if (index !== -1) {
-        const updated = listeners.filter((l) => l.id !== listenerId)
-        if (updated.length === 0) {
-          map.delete(pattern)
-        } else {
-          map.set(pattern, updated)
-        }
-        return pattern
+  const removeListener = (listener: Listener): void => {
+    const { pattern } = listener
+    const listenerMap = getMapForPattern(pattern)
+    const updated = (listenerMap.get(pattern) ?? []).filter((l) => l !== listener)
+
+    if (updated.length > 0) {
+      listenerMap.set(pattern, updated)
+    } else {
+      listenerMap.delete(pattern)
+      if (listenerMap === wildcardPatterns) {
+        wildcardTrie.remove(pattern)
       }
     }
-    return undefined
+    byId.delete(listener.id)
+    matchCache.clear()
   }
 
-  const collectAllListeners = (map: Map<string, Listener[]>): Array<[string, symbol]> => {
-    const collected: Array<[string, symbol]> = []
+  const isExcluded = (listener: Listener, event: string): boolean => {
+    return listener.exclude?.some((pattern) => patternMatcher.matches(pattern, event)) ?? false
+  }
 
-    for (const [pattern, listeners] of map.entries()) {
-      for (const listener of listeners) {
-        collected.push([pattern, listener.id])
-      }
-    }
-    return collected
+  const matchesFilter = (listener: Listener, { event, tag, owner }: ListenerFilter): boolean => {
+    return (
+      (event === undefined ||
+        (patternMatcher.matches(listener.pattern, event) && !isExcluded(listener, event))) &&
+      (tag === undefined || listener.tags.includes(tag)) &&
+      (owner === undefined || listener.owner === owner)
+    )
+  }
+
+  const listAll = (): Listener[] => {
+    return [...exactMatches.values(), ...wildcardPatterns.values()].flat()
   }
 
   const addMatchingToResult = (
     map: Map<string, Listener[]>,
     result: Map<string, ListenerInfo[]>,
     mapListeners: (listeners: Listener[]) => ListenerInfo[],
-    event?: string,
+    filter: ListenerFilter,
   ): void => {
     for (const [pattern, listeners] of map.entries()) {
-      if (event === undefined || patternMatcher.matches(pattern, event)) {
-        result.set(pattern, mapListeners(listeners))
+      const matching = listeners.filter((l) => matchesFilter(l, filter))
+      if (matching.length > 0) {
+        result.set(pattern, mapListeners(matching))
       }
     }
   }
 
-  const removeMarkedFromMap = (map: Map<string, Listener[]>): void => {
-    for (const [pattern, listeners] of map.entries()) {
-      const updated = listeners.filter((l) => !markedForRemoval.has(l.id))
-
-      if (updated.length === 0) {
-        map.delete(pattern)
-      } else if (updated.length !== listeners.length) {
-        map.set(pattern, updated)
+  const removeWhere = (filter: ListenerFilter): Array<[string, symbol]> => {
+    const removed: Array<[string, symbol]> = []
+    for (const listener of listAll()) {
+      if (matchesFilter(listener, filter)) {
+        removeListener(listener)
+        removed.push([listener.pattern, listener.id])
       }
     }
+    return removed
   }
 
   return {
@@ -137,6 +300,20 @@ export function createListenerStore(patternMatcher: PatternMatcher): ListenerSto
       handler: ListenerHandler<unknown>,
       options: SubscribeOptions = {},
     ): symbol {
+      if (options.timeoutMs !== undefined && !(options.timeoutMs > 0)) {
+        throw new RangeError(`Invalid timeoutMs ${options.timeoutMs}: expected a positive number`)
+      }
+
+      if (options.retry) {
+        validateRetryPolicy(options.retry)
+      }
+
+      // Validate every pattern up front so malformed ones fail here, not at emit time
+      const listenerMap = getMapForPattern(pattern)
+      for (const excluded of options.exclude ?? []) {
+        patternMatcher.classify(excluded)
+      }
+
       const listenerId = Symbol(`listener:${pattern}`)
       const listener: Listener = {
         id: listenerId,
@@ -147,112 +324,129 @@ export function createListenerStore(patternMatcher: PatternMatcher): ListenerSto
         addedAt: Date.now(),
         executionCount: 0,
         totalDuration: 0,
+        errorCount: 0,
+        timeoutMs: options.timeoutMs,
+        timeoutCount: 0,
+        retry: options.retry,
+        where: options.where,
+        exclude: options.exclude ? [...options.exclude] : undefined,
+        rateLimit: resolveRateLimit(options),
+        tags: [...(options.tags ?? [])],
+        owner: options.owner,
       }
-      const listenerMap = getMapForPattern(pattern)
       const existing = listenerMap.get(pattern) ?? []
-      const updated = sortByPriority([...existing, listener])
-
-      listenerMap.set(pattern, updated)
+      byId.set(listenerId, { listener, order: nextOrder++ })
+      listenerMap.set(pattern, sortByPriority([...existing, listener]))
+      if (listenerMap === wildcardPatterns && existing.length === 0) {
+        wildcardTrie.add(pattern)
+      }
+      matchCache.clear()
 
       return listenerId
     },
 
     remove(pattern: string, listenerId: symbol): boolean {
-      const listenerMap = getMapForPattern(pattern)
-      const existing = listenerMap.get(pattern) ?? []
-      const updated = existing.filter((l) => l.id !== listenerId)
-
-      if (updated.length === 0) {
-        listenerMap.delete(pattern)
-      } else {
-        listenerMap.set(pattern, updated)
+      const entry = byId.get(listenerId)
+      if (entry?.listener.pattern !== pattern) {
+        return false
       }
 
-      return updated.length !== existing.length
+      removeListener(entry.listener)
+      return true
     },
 
-    removeById(listenerId: symbol): string | undefined {
-      // Check exact matches first, then wildcards
-      return (
-        removeListenerById(exactMatches, listenerId) ??
-        removeListenerById(wildcardPatterns, listenerId)
-      )
+    get(listenerId: symbol): Listener | undefined {
+      return byId.get(listenerId)?.listener
     },
 
-    removeAll(event?: string): Array<[string, symbol]> {
-      if (event === undefined) {
-        const removed = [
-          ...collectAllListeners(exactMatches),
-          ...collectAllListeners(wildcardPatterns),
-        ]
-        exactMatches.clear()
-        wildcardPatterns.clear()
-
-        return removed
+    removeById(listenerId: symbol): string | undefined {
+      const entry = byId.get(listenerId)
+      if (!entry) {
+        return undefined
       }
 
-      const listeners = exactMatches.get(event) ?? []
-      const removed: Array<[string, symbol]> = listeners.map((l) => [event, l.id])
-
-      exactMatches.delete(event)
-      wildcardPatterns.delete(event)
+      removeListener(entry.listener)
+      return entry.listener.pattern
+    },
 
-      return removed
+    removeAll(event?: string): Array<[string, symbol]> {
+      return removeWhere({ event })
     },
 
+    removeWhere,
+
     getMatching(event: string): Listener[] {
-      const matching: Listener[] = []
-      const exactListeners = exactMatches.get(event)
+      const cached = matchCache.get(event)
+      if (cached) {
+        return cached
+      }
 
-      if (exactListeners) {
-        matching.push(...exactListeners)
+      const matching: Listener[] = [...(exactMatches.get(event) ?? [])]
+      for (const pattern of wildcardTrie.match(event)) {
+        matching.push(...(wildcardPatterns.get(pattern) ?? []))
       }
 
-      for (const [pattern, listeners] of wildcardPatterns.entries()) {
-        if (patternMatcher.matches(pattern, event)) {
-          matching.push(...listeners)
-        }
+      const sorted = sortByPriority(matching.filter((listener) => !isExcluded(listener, event)))
+      if (matchCache.size >= MATCH_CACHE_SIZE) {
+        // Evict the oldest entry; Map iteration follows insertion order
+        matchCache.delete(matchCache.keys().next().value as string)
       }
+      matchCache.set(event, sorted)
+      return sorted
+    },
+
+    list: listAll,
 
-      return sortByPriority(matching)
+    count(pattern: string): number {
+      return getMapForPattern(pattern).get(pattern)?.length ?? 0
     },
 
-    getAll(event?: string): ListenerMap {
+    getAll(filter: ListenerFilter = {}): ListenerMap {
       const result = new Map<string, ListenerInfo[]>()
 
       const mapListeners = (listeners: Listener[]) =>
-        listeners.map((l) => ({
-          id: l.id,
-          priority: l.priority,
-          once: l.once,
-          pattern: l.pattern,
-          addedAt: l.addedAt,
-          executionCount: l.executionCount,
-          avgDuration: l.executionCount > 0 ? l.totalDuration / l.executionCount : 0,
-        }))
-
-      addMatchingToResult(exactMatches, result, mapListeners, event)
-      addMatchingToResult(wildcardPatterns, result, mapListeners, event)
+        listeners.map((l) => {
+          const durations = l.durations?.summary()
+          return {
+            id: l.id,
+            priority: l.priority,
+            once: l.once,
+            pattern: l.pattern,
+            addedAt: l.addedAt,
+            executionCount: l.executionCount,
+            avgDuration: l.executionCount > 0 ? l.totalDuration / l.executionCount : 0,
+            minDuration: durations?.min ?? 0,
+            maxDuration: durations?.max ?? 0,
+            p50Duration: durations?.p50 ?? 0,
+            p95Duration: durations?.p95 ?? 0,
+            p99Duration: durations?.p99 ?? 0,
+            errorCount: l.errorCount,
+            timeoutCount: l.timeoutCount,
+            lastRunAt: l.lastRunAt,
+            lastErrorAt: l.lastErrorAt,
+            tags: [...l.tags],
+            owner: l.owner,
+          }
+        })
+
+      addMatchingToResult(exactMatches, result, mapListeners, filter)
+      addMatchingToResult(wildcardPatterns, result, mapListeners, filter)
 
       return result
     },
 
     updateStats(listenerId: symbol, duration: number): void {
-      const findAndUpdate = (map: Map<string, Listener[]>) => {
-        for (const listeners of map.values()) {
-          const listener = listeners.find((l) => l.id === listenerId)
-
-          if (listener) {
-            listener.executionCount++
-            listener.totalDuration += duration
-            return true
-          }
-        }
-        return false
+      const listener = byId.get(listenerId)?.listener
+      if (listener) {
+        recordExecution(listener, duration)
       }
+    },
 
-      if (!findAndUpdate(exactMatches)) {
-        findAndUpdate(wildcardPatterns)
+    resetStats(predicate?: (listener: Listener) => boolean): void {
+      for (const { listener } of byId.values()) {
+        if (!predicate || predicate(listener)) {
+          resetListenerStats(listener)
+        }
       }
     },
 
@@ -261,12 +455,12 @@ export function createListenerStore(patternMatcher: PatternMatcher): ListenerSto
     },
 
     removeMarked(): void {
-      if (markedForRemoval.size === 0) {
-        return
+      for (const listenerId of markedForRemoval) {
+        const entry = byId.get(listenerId)
+        if (entry) {
+          removeListener(entry.listener)
+        }
       }
-      removeMarkedFromMap(exactMatches)
-      removeMarkedFromMap(wildcardPatterns)
-
       markedForRemoval.clear()
     },
   }
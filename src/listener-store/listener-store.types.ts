@@ -1,3 +1,5 @@
+import type { RetryPolicy } from '../handler-executor/handler-executor.types'
+
 /**
  * Public listener metadata exposed to consumers
  * Contains information about a registered event listener
@@ -17,6 +19,40 @@ export interface ListenerInfo {
   executionCount: number
   /** Average execution duration in milliseconds */
   avgDuration: number
+  /** Shortest execution in milliseconds (0 before the first execution) */
+  minDuration: number
+  /** Longest execution in milliseconds */
+  maxDuration: number
+  /** Estimated median execution duration in milliseconds */
+  p50Duration: number
+  /** Estimated 95th percentile execution duration in milliseconds */
+  p95Duration: number
+  /** Estimated 99th percentile execution duration in milliseconds */
+  p99Duration: number
+  /** Number of times this listener's handler has thrown or rejected */
+  errorCount: number
+  /** Number of times this listener's handler has timed out */
+  timeoutCount: number
+  /** Time the handler was last invoked (milliseconds since epoch) */
+  lastRunAt?: number
+  /** Time the handler last threw, rejected or timed out (milliseconds since epoch) */
+  lastErrorAt?: number
+  /** Tags given at subscription */
+  tags: string[]
+  /** Object the listener was registered for, if any */
+  owner?: object
+}
+
+/**
+ * Criteria for selecting listeners; all given criteria must match
+ */
+export interface ListenerFilter {
+  /** Only listeners that receive this event (exact and wildcard subscriptions) */
+  event?: string
+  /** Only listeners subscribed with this tag */
+  tag?: string
+  /** Only listeners registered for this owner */
+  owner?: object
 }
 
 /**
@@ -24,20 +60,82 @@ export interface ListenerInfo {
  */
 export type ListenerMap = Map<string, ListenerInfo[]>
 
+/**
+ * Metadata about the emit being handled, passed as the second handler argument
+ */
+export interface HandlerContext {
+  /** The concrete event name that was emitted */
+  event: string
+  /** Pattern the listener subscribed with (equals `event` for exact subscriptions) */
+  pattern: string
+  /** ID of the listener being executed */
+  listenerId: symbol
+  /** Identifier shared by all handlers of the same emit */
+  emitId: string
+  /** Time the emit started (milliseconds since epoch) */
+  timestamp: number
+  /** Signal passed to emit (never aborts if none was given); use it to cancel in-flight work */
+  signal: AbortSignal
+  /** Data attached to the emit by middleware */
+  metadata: Readonly<Record<string, unknown>>
+  /** Prevent lower-priority listeners that have not started yet from running */
+  stopPropagation(): void
+}
+
 /**
  * Event handler function that processes event payloads
  * Supports both synchronous and asynchronous handlers
  * @template T - The type of the payload this handler receives
  */
-export type ListenerHandler<T = unknown> = (payload: T) => Promise<void> | void
+export type ListenerHandler<T = unknown> = (
+  payload: T,
+  context: HandlerContext,
+) => Promise<void> | void
+
+/**
+ * Removes its listener when called; repeated calls are no-ops
+ * Also disposable, so `using sub = bus.on(...)` removes the listener at the end of the block
+ */
+export interface Unsubscribe {
+  (): void
+  [Symbol.dispose](): void
+}
 
 /**
  * Options for subscribing to events
  * Allows customization of listener behavior
+ * @template T - The type of the payload the listener receives
  */
-export interface SubscribeOptions {
+export interface SubscribeOptions<T = unknown> {
   /** Execution priority (higher = earlier, default: 0) */
   priority?: number
-  /** If true, listener is removed after first execution */
+  /** If true, listener is removed after the first invocation (skipped deliveries do not count) */
   once?: boolean
+  /** Aborting this signal removes the listener; an already-aborted signal adds nothing */
+  signal?: AbortSignal
+  /** Labels for grouping listeners, used by `offByTag` and `getListeners({ tag })` */
+  tags?: string[]
+  /** Object the listener belongs to (e.g. a component), used by `offByOwner` */
+  owner?: object
+  /** Timeout for async handlers in milliseconds, overriding the bus default */
+  timeoutMs?: number
+  /** Immediately deliver the retained payloads of matching sticky events (default: false) */
+  replay?: boolean
+  /** Retry failed deliveries, then record them in the dead-letter queue (default: no retries) */
+  retry?: RetryPolicy
+  /** Only invoke the handler for payloads that pass this predicate */
+  where?(payload: T): boolean
+  /** Patterns of events this listener skips even though its own pattern matches them */
+  exclude?: string[]
+  /**
+   * Wait until no delivery arrived for this many milliseconds, then invoke the handler
+   * with the latest payload; cannot be combined with `throttleMs`
+   */
+  debounceMs?: number
+  /** Invoke the handler at most once per this many milliseconds; cannot be combined with `debounceMs` */
+  throttleMs?: number
+  /** Invoke on the first delivery of a debounce or throttle window (default: false for debounce, true for throttle) */
+  leading?: boolean
+  /** Invoke with the latest payload at the end of a debounce or throttle window (default: true) */
+  trailing?: boolean
 }
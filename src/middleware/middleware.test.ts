@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createMiddlewarePipeline } from './middleware'
+import type { EmitContext } from './middleware.types'
+
+interface TestEvents extends Record<string, unknown> {
+  'test:event': { message: string }
+}
+
+const createContext = (): EmitContext<TestEvents> => ({
+  event: 'test:event',
+  payload: { message: 'test' },
+  metadata: {},
+  emitId: 'emit-1',
+  timestamp: 0,
+})
+
+describe('MiddlewarePipeline', () => {
+  it('should run middleware in registration order around the core', async () => {
+    const pipeline = createMiddlewarePipeline<TestEvents>()
+    const order: string[] = []
+
+    pipeline.use(async (_ctx, next) => {
+      order.push('first:before')
+      await next()
+      order.push('first:after')
+    })
+    pipeline.use(async (_ctx, next) => {
+      order.push('second:before')
+      await next()
+      order.push('second:after')
+    })
+
+    await pipeline.run(createContext(), async () => {
+      order.push('core')
+    })
+
+    expect(order).toEqual(['first:before', 'second:before', 'core', 'second:after', 'first:after'])
+  })
+
+  it('should run innermost middleware after the others', async () => {
+    const pipeline = createMiddlewarePipeline<TestEvents>()
+    const order: string[] = []
+
+    const remove = pipeline.use(
+      async (_ctx, next) => {
+        order.push('innermost')
+        await next()
+      },
+      { innermost: true },
+    )
+    pipeline.use(async (_ctx, next) => {
+      order.push('outer')
+      await next()
+    })
+
+    await pipeline.run(createContext(), async () => {
+      order.push('core')
+    })
+    remove()
+    await pipeline.run(createContext(), async () => {})
+
+    expect(order).toEqual(['outer', 'innermost', 'core', 'outer'])
+  })
+
+  it('should call the core directly when empty', async () => {
+    const pipeline = createMiddlewarePipeline<TestEvents>()
+    const core = vi.fn(async () => {})
+
+    await pipeline.run(createContext(), core)
+
+    expect(core).toHaveBeenCalledTimes(1)
+  })
+
+  it('should skip the core when a middleware does not call next', async () => {
+    const pipeline = createMiddlewarePipeline<TestEvents>()
+    const core = vi.fn(async () => {})
+
+    pipeline.use(() => {})
+    await pipeline.run(createContext(), core)
+
+    expect(core).not.toHaveBeenCalled()
+  })
+
+  it('should share a mutable context', async () => {
+    const pipeline = createMiddlewarePipeline<TestEvents>()
+    const ctx = createContext()
+
+    pipeline.use(async (ctx, next) => {
+      ctx.payload = { message: 'changed' }
+      ctx.metadata.tagged = true
+      await next()
+    })
+    await pipeline.run(ctx, async () => {})
+
+    expect(ctx.payload).toEqual({ message: 'changed' })
+    expect(ctx.metadata).toEqual({ tagged: true })
+  })
+
+  it('should reject when next is called more than once', async () => {
+    const pipeline = createMiddlewarePipeline<TestEvents>()
+
+    pipeline.use(async (_ctx, next) => {
+      await next()
+      await next()
+    })
+
+    await expect(pipeline.run(createContext(), async () => {})).rejects.toThrow(
+      'next() called multiple times',
+    )
+  })
+
+  it('should remove middleware', async () => {
+    const pipeline = createMiddlewarePipeline<TestEvents>()
+    const middleware = vi.fn()
+
+    const remove = pipeline.use(middleware)
+    remove()
+    await pipeline.run(createContext(), async () => {})
+
+    expect(middleware).not.toHaveBeenCalled()
+  })
+})
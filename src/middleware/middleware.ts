@@ -0,0 +1,70 @@
+import type { EventMap } from '../eventbus/eventbus.types'
+import type { EmitContext, Middleware, MiddlewareOptions } from './middleware.types'
+
+/**
+ * Ordered chain of middleware wrapped around each emit
+ * @template TEventMap - The event map defining available events
+ */
+export interface MiddlewarePipeline<TEventMap extends EventMap> {
+  /**
+   * Append a middleware to the end of the chain, or of the innermost part of it
+   * @returns Function that removes the middleware
+   */
+  use(middleware: Middleware<TEventMap>, options?: MiddlewareOptions): () => void
+  /**
+   * Run the chain for an emit, calling `core` if every middleware calls `next()`
+   * @throws Error if a middleware calls `next()` more than once
+   */
+  run(ctx: EmitContext<TEventMap>, core: () => Promise<void>): Promise<void>
+}
+
+/**
+ * Creates a middleware pipeline
+ * Middleware run in registration order, innermost ones last; each one wraps everything
+ * that runs after it
+ * @template TEventMap - The event map defining available events
+ * @returns MiddlewarePipeline instance
+ */
+export function createMiddlewarePipeline<
+  TEventMap extends EventMap,
+>(): MiddlewarePipeline<TEventMap> {
+  let chain: Middleware<TEventMap>[] = []
+  let innermost: Middleware<TEventMap>[] = []
+
+  return {
+    use(middleware: Middleware<TEventMap>, options: MiddlewareOptions = {}): () => void {
+      if (options.innermost) {
+        innermost = [...innermost, middleware]
+        return (): void => {
+          innermost = innermost.filter((m) => m !== middleware)
+        }
+      }
+
+      chain = [...chain, middleware]
+      return (): void => {
+        chain = chain.filter((m) => m !== middleware)
+      }
+    },
+
+    run(ctx: EmitContext<TEventMap>, core: () => Promise<void>): Promise<void> {
+      // Snapshot so middleware added or removed during an emit don't affect it
+      const snapshot = [...chain, ...innermost]
+      let lastIndex = -1
+
+      const dispatch = async (index: number): Promise<void> => {
+        if (index <= lastIndex) {
+          throw new Error('next() called multiple times')
+        }
+        lastIndex = index
+
+        const middleware = snapshot[index]
+        if (!middleware) {
+          return core()
+        }
+        await middleware(ctx, () => dispatch(index + 1))
+      }
+
+      return dispatch(0)
+    },
+  }
+}
@@ -0,0 +1,58 @@
+import type { EventMap } from '../eventbus/eventbus.types'
+
+/**
+ * Fields of the emit context shared by every event
+ */
+export interface EmitContextBase {
+  /** Identifier of the emit, shared with handlers */
+  readonly emitId: string
+  /** Time the emit started (milliseconds since epoch) */
+  readonly timestamp: number
+  /** Arbitrary data for downstream middleware and handlers (exposed as `context.metadata`) */
+  metadata: Record<string, unknown>
+}
+
+/**
+ * Mutable context passed through the middleware pipeline for each emit
+ * A union over all events, so checking `ctx.event` narrows `ctx.payload`
+ * @template TEventMap - The event map defining available events
+ */
+export type EmitContext<TEventMap extends EventMap = EventMap> = {
+  [K in keyof TEventMap]: EmitContextBase & {
+    /** The event being emitted */
+    readonly event: K
+    /** The payload handlers will receive; middleware may replace it */
+    payload: TEventMap[K]
+  }
+}[keyof TEventMap]
+
+/**
+ * Options for registering a middleware
+ */
+export interface MiddlewareOptions {
+  /**
+   * Run after every middleware registered without this flag, right before listeners,
+   * so it sees the final payload and metadata and only emits that were not suppressed
+   * (default: false)
+   */
+  innermost?: boolean
+}
+
+/**
+ * Koa-style middleware wrapping each emit
+ * Call `next()` to continue to the next middleware and eventually the handlers;
+ * code after `await next()` runs once all handlers have finished.
+ * Not calling `next()` suppresses delivery of the event
+ * @template TEventMap - The event map defining available events
+ * @example
+ * ```ts
+ * const redact: Middleware<AppEvents> = async (ctx, next) => {
+ *   if (ctx.event === 'user:login') ctx.payload = { ...ctx.payload, email: '[redacted]' }
+ *   await next()
+ * }
+ * ```
+ */
+export type Middleware<TEventMap extends EventMap = EventMap> = (
+  ctx: EmitContext<TEventMap>,
+  next: () => Promise<void>,
+) => void | Promise<void>
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { createFileStorage, createMemoryStorage } from './outbox'
+import type { FileStorageFs, OutboxEnvelope } from './outbox.types'
+
+const envelope = (id: string): OutboxEnvelope => ({
+  id,
+  event: 'order:placed',
+  payload: { id },
+  timestamp: 0,
+  metadata: {},
+})
+
+/** In-memory stand-in for node:fs/promises */
+function createFakeFs(initial: Record<string, string> = {}) {
+  const files = new Map(Object.entries(initial))
+  const fs: FileStorageFs = {
+    async appendFile(path, data) {
+      files.set(path, (files.get(path) ?? '') + data)
+    },
+    async readFile(path) {
+      const content = files.get(path)
+      if (content === undefined) {
+        throw Object.assign(new Error(`ENOENT: ${path}`), { code: 'ENOENT' })
+      }
+      return content
+    },
+    async writeFile(path, data) {
+      files.set(path, data)
+    },
+    async rename(oldPath, newPath) {
+      files.set(newPath, files.get(oldPath) ?? '')
+      files.delete(oldPath)
+    },
+  }
+  return { fs, files }
+}
+
+describe('createMemoryStorage', () => {
+  it('should return unacknowledged envelopes in order', async () => {
+    const storage = createMemoryStorage()
+
+    await storage.append(envelope('a'))
+    await storage.append(envelope('b'))
+    await storage.append(envelope('c'))
+    await storage.acknowledge('b')
+
+    expect((await storage.pending()).map(({ id }) => id)).toEqual(['a', 'c'])
+  })
+})
+
+describe('createFileStorage', () => {
+  it('should append envelopes and acknowledgements as JSON lines', async () => {
+    const { fs, files } = createFakeFs()
+    const storage = createFileStorage('outbox.jsonl', fs)
+
+    await storage.append(envelope('a'))
+    await storage.acknowledge('a')
+
+    expect(files.get('outbox.jsonl')?.split('\n')).toEqual([
+      JSON.stringify({ op: 'append', envelope: envelope('a') }),
+      JSON.stringify({ op: 'ack', id: 'a' }),
+      '',
+    ])
+  })
+
+  it('should recover pending envelopes from an earlier process and compact the file', async () => {
+    const { fs, files } = createFakeFs()
+    const before = createFileStorage('outbox.jsonl', fs)
+    await before.append(envelope('a'))
+    await before.append(envelope('b'))
+    await before.acknowledge('a')
+
+    const after = createFileStorage('outbox.jsonl', fs)
+    expect(await after.pending()).toEqual([envelope('b')])
+    expect(files.get('outbox.jsonl')).toBe(
+      `${JSON.stringify({ op: 'append', envelope: envelope('b') })}\n`,
+    )
+    expect(files.has('outbox.jsonl.tmp')).toBe(false)
+  })
+
+  it('should treat a missing file as empty and skip a torn last line', async () => {
+    expect(await createFileStorage('missing.jsonl', createFakeFs().fs).pending()).toEqual([])
+
+    const { fs } = createFakeFs({
+      'outbox.jsonl': `${JSON.stringify({ op: 'append', envelope: envelope('a') })}\n{"op":"app`,
+    })
+    expect(await createFileStorage('outbox.jsonl', fs).pending()).toEqual([envelope('a')])
+  })
+
+  it('should surface read errors other than a missing file', async () => {
+    const { fs } = createFakeFs()
+    fs.readFile = async () => {
+      throw Object.assign(new Error('EACCES'), { code: 'EACCES' })
+    }
+    const storage = createFileStorage('outbox.jsonl', fs)
+
+    await expect(storage.pending()).rejects.toThrow('EACCES')
+    await storage.append(envelope('a'))
+  })
+})
@@ -0,0 +1,122 @@
+import type { FileStorageFs, OutboxEnvelope, StorageAdapter } from './outbox.types'
+
+/** A line of the JSON-lines log written by createFileStorage */
+type LogRecord = { op: 'append'; envelope: OutboxEnvelope } | { op: 'ack'; id: string }
+
+/**
+ * Creates a storage adapter that keeps envelopes in memory
+ * Envelopes survive failed deliveries but not a restart; used when no storage is configured
+ * @returns StorageAdapter instance
+ */
+export function createMemoryStorage(): StorageAdapter {
+  const envelopes = new Map<string, OutboxEnvelope>()
+
+  return {
+    async append(envelope: OutboxEnvelope): Promise<void> {
+      envelopes.set(envelope.id, envelope)
+    },
+
+    async acknowledge(id: string): Promise<void> {
+      envelopes.delete(id)
+    },
+
+    async pending(): Promise<OutboxEnvelope[]> {
+      return [...envelopes.values()]
+    },
+  }
+}
+
+/**
+ * Parses the log, skipping a line torn by a crash mid-write
+ */
+function parseLog(content: string): LogRecord[] {
+  const records: LogRecord[] = []
+  for (const line of content.split('\n')) {
+    if (line.trim() === '') {
+      continue
+    }
+    try {
+      records.push(JSON.parse(line) as LogRecord)
+    } catch {
+      // A partial last line is the only way the log can be malformed
+    }
+  }
+  return records
+}
+
+/**
+ * Creates a storage adapter that appends envelopes and acknowledgements to a JSON-lines file
+ * Payloads and metadata must be JSON-serializable. Reading the pending envelopes compacts
+ * the file down to them, so call `bus.recover()` on startup to keep it small
+ * @param path - File to write; created on the first append
+ * @param fs - `node:fs/promises` or a compatible implementation
+ * @returns StorageAdapter instance
+ * @example
+ * ```ts
+ * import * as fs from 'node:fs/promises'
+ *
+ * const bus = createEventBus<AppEvents>({ storage: createFileStorage('./outbox.jsonl', fs) })
+ * await bus.recover()
+ * ```
+ */
+export function createFileStorage(path: string, fs: FileStorageFs): StorageAdapter {
+  // Operations run one at a time, so compaction never races an append
+  let queue: Promise<unknown> = Promise.resolve()
+
+  const enqueue = <T>(operation: () => Promise<T>): Promise<T> => {
+    const result = queue.then(operation)
+    queue = result.catch(() => {})
+    return result
+  }
+
+  const write = (record: LogRecord): Promise<unknown> =>
+    fs.appendFile(path, `${JSON.stringify(record)}\n`)
+
+  const read = async (): Promise<string> => {
+    try {
+      return await fs.readFile(path, 'utf8')
+    } catch (error) {
+      if ((error as { code?: unknown }).code === 'ENOENT') {
+        return ''
+      }
+      throw error
+    }
+  }
+
+  return {
+    append(envelope: OutboxEnvelope): Promise<void> {
+      return enqueue(async () => {
+        await write({ op: 'append', envelope })
+      })
+    },
+
+    acknowledge(id: string): Promise<void> {
+      return enqueue(async () => {
+        await write({ op: 'ack', id })
+      })
+    },
+
+    pending(): Promise<OutboxEnvelope[]> {
+      return enqueue(async () => {
+        const envelopes = new Map<string, OutboxEnvelope>()
+        for (const record of parseLog(await read())) {
+          if (record.op === 'append') {
+            envelopes.set(record.envelope.id, record.envelope)
+          } else {
+            envelopes.delete(record.id)
+          }
+        }
+
+        // Written aside and renamed, so a crash while compacting leaves the old log intact
+        const pending = [...envelopes.values()]
+        const compacted = `${path}.tmp`
+        await fs.writeFile(
+          compacted,
+          pending.map((envelope) => `${JSON.stringify({ op: 'append', envelope })}\n`).join(''),
+        )
+        await fs.rename(compacted, path)
+        return pending
+      })
+    },
+  }
+}
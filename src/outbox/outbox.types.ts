@@ -0,0 +1,39 @@
+/**
+ * A durable emit, stored until every listener handled it
+ */
+export interface OutboxEnvelope {
+  /** Identifier of the original emit, reused as `emitId` when the envelope is redelivered */
+  id: string
+  /** The emitted event */
+  event: string
+  /** The emitted payload, after validation */
+  payload: unknown
+  /** Time of the original emit (milliseconds since epoch) */
+  timestamp: number
+  /** Metadata passed to the original emit */
+  metadata: Record<string, unknown>
+}
+
+/**
+ * Where durable emits are kept until they are acknowledged
+ * Implement this to store envelopes in IndexedDB, Redis, a database table, ...
+ */
+export interface StorageAdapter {
+  /** Persist an envelope; called before the event is dispatched */
+  append(envelope: OutboxEnvelope): Promise<void>
+  /** Forget an envelope once every listener handled it */
+  acknowledge(id: string): Promise<void>
+  /** Envelopes appended but not acknowledged, oldest first */
+  pending(): Promise<OutboxEnvelope[]>
+}
+
+/**
+ * The subset of `node:fs/promises` used by createFileStorage
+ * Passed in rather than imported, so the package stays usable in browsers
+ */
+export interface FileStorageFs {
+  appendFile(path: string, data: string): Promise<unknown>
+  readFile(path: string, encoding: 'utf8'): Promise<string>
+  writeFile(path: string, data: string): Promise<unknown>
+  rename(oldPath: string, newPath: string): Promise<unknown>
+}
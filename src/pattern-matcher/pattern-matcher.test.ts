@@ -1,15 +1,41 @@
 import { describe, expect, it } from 'vitest'
+import { PatternSyntaxError } from '../errors/errors'
 import { createPatternMatcher } from './pattern-matcher'
 
 describe('PatternMatcher', () => {
-  describe('hasWildcard', () => {
+  describe('classify', () => {
     it('should detect wildcards in patterns', () => {
       const matcher = createPatternMatcher()
 
-      expect(matcher.hasWildcard('user:*')).toBe(true)
-      expect(matcher.hasWildcard('*')).toBe(true)
-      expect(matcher.hasWildcard('user:login')).toBe(false)
-      expect(matcher.hasWildcard('user:login:*:success')).toBe(true)
+      expect(matcher.classify('user:*')).toBe('wildcard')
+      expect(matcher.classify('*')).toBe('wildcard')
+      expect(matcher.classify('user:login')).toBe('exact')
+      expect(matcher.classify('user:login:*:success')).toBe('wildcard')
+    })
+
+    it('should classify glob extensions and negations', () => {
+      const matcher = createPatternMatcher({ wildcards: 'segment' })
+
+      expect(matcher.classify('user:{login,logout}')).toBe('wildcard')
+      expect(matcher.classify('user:log?n')).toBe('wildcard')
+      expect(matcher.classify('user:#')).toBe('wildcard')
+      expect(matcher.classify('!debug:*')).toBe('negated')
+      expect(matcher.classify('!debug:verbose')).toBe('negated')
+      expect(matcher.classify('user:logged!')).toBe('exact')
+    })
+
+    it('should throw descriptive errors for malformed patterns', () => {
+      const matcher = createPatternMatcher()
+
+      expect(() => matcher.classify('user:{login,logout')).toThrow(
+        'Invalid pattern "user:{login,logout": unclosed "{" at index 5',
+      )
+      expect(() => matcher.classify('user:login}')).toThrow('unmatched "}" at index 10')
+      expect(() => matcher.classify('user:{}')).toThrow('empty "{}" alternation at index 5')
+      expect(() => matcher.classify('{a,{b,c}}')).toThrow('nested "{" is not supported at index 3')
+      expect(() => matcher.classify('!')).toThrow('expected a pattern after "!"')
+      expect(() => matcher.classify('!!user:*')).toThrow('negation cannot be nested at index 1')
+      expect(() => matcher.matches('user:{', 'user:')).toThrow(PatternSyntaxError)
     })
   })
 
@@ -71,4 +97,101 @@ describe('PatternMatcher', () => {
       expect(matcher.matches('user(test)', 'user(test)')).toBe(true)
     })
   })
+
+  describe('matches in segment mode', () => {
+    it('should match exactly one segment with *', () => {
+      const matcher = createPatternMatcher({ wildcards: 'segment' })
+
+      expect(matcher.matches('user:*', 'user:login')).toBe(true)
+      expect(matcher.matches('user:*', 'user:profile:updated')).toBe(false)
+      expect(matcher.matches('*', 'user:login')).toBe(false)
+      expect(matcher.matches('*', 'anything')).toBe(true)
+      expect(matcher.matches('*:login', 'user:login')).toBe(true)
+      expect(matcher.matches('user:*:success', 'user:login:success')).toBe(true)
+      expect(matcher.matches('user:*:success', 'user:a:b:success')).toBe(false)
+    })
+
+    it('should match * within a segment', () => {
+      const matcher = createPatternMatcher({ wildcards: 'segment' })
+
+      expect(matcher.matches('user:log*', 'user:login')).toBe(true)
+      expect(matcher.matches('user:log*', 'user:login:failed')).toBe(false)
+    })
+
+    it('should match zero or more segments with ** and #', () => {
+      const matcher = createPatternMatcher({ wildcards: 'segment' })
+
+      expect(matcher.matches('**', 'foo:bar:baz')).toBe(true)
+      expect(matcher.matches('#', 'foo')).toBe(true)
+      expect(matcher.matches('user:**', 'user:profile:updated')).toBe(true)
+      expect(matcher.matches('user:**', 'user')).toBe(true)
+      expect(matcher.matches('user:**', 'username')).toBe(false)
+      expect(matcher.matches('**:updated', 'user:profile:updated')).toBe(true)
+      expect(matcher.matches('**:updated', 'updated')).toBe(true)
+      expect(matcher.matches('user:#:updated', 'user:updated')).toBe(true)
+      expect(matcher.matches('user:#:updated', 'user:a:b:updated')).toBe(true)
+      expect(matcher.matches('user:#:updated', 'user:a:b:created')).toBe(false)
+      expect(matcher.matches('**:**', 'a:b')).toBe(true)
+    })
+
+    it('should treat # inside a segment as a literal', () => {
+      const matcher = createPatternMatcher({ wildcards: 'segment' })
+
+      expect(matcher.classify('channel:#general')).toBe('exact')
+      expect(matcher.matches('channel:#general', 'channel:#general')).toBe(true)
+      expect(matcher.matches('channel:#general', 'channel:x')).toBe(false)
+    })
+
+    it('should split segments on the configured delimiter', () => {
+      const dots = createPatternMatcher({ wildcards: 'segment', delimiter: '.' })
+      const slashes = createPatternMatcher({ wildcards: 'segment', delimiter: '/' })
+
+      expect(dots.matches('user.*', 'user.login')).toBe(true)
+      expect(dots.matches('user.*', 'user.profile.updated')).toBe(false)
+      expect(dots.matches('user.**', 'user.profile.updated')).toBe(true)
+      expect(dots.matches('user.*', 'user:login')).toBe(false)
+      expect(slashes.matches('sensors/+/#', 'sensors/+/temp')).toBe(true)
+      expect(slashes.matches('sensors/*/temp', 'sensors/kitchen/temp')).toBe(true)
+    })
+
+    it('should reject an empty or wildcard delimiter', () => {
+      expect(() => createPatternMatcher({ delimiter: '' })).toThrow(RangeError)
+      expect(() => createPatternMatcher({ delimiter: '*' })).toThrow(RangeError)
+      expect(() => createPatternMatcher({ delimiter: '#' })).toThrow(RangeError)
+      expect(() => createPatternMatcher({ delimiter: ',' })).toThrow(RangeError)
+    })
+  })
+
+  describe('glob extensions', () => {
+    it('should match brace alternatives', () => {
+      const matcher = createPatternMatcher({ wildcards: 'segment' })
+
+      expect(matcher.matches('user:{login,logout}', 'user:login')).toBe(true)
+      expect(matcher.matches('user:{login,logout}', 'user:logout')).toBe(true)
+      expect(matcher.matches('user:{login,logout}', 'user:signup')).toBe(false)
+      expect(matcher.matches('{user,admin}:*', 'admin:login')).toBe(true)
+      expect(matcher.matches('user:{login,profile:*}', 'user:profile:updated')).toBe(true)
+      expect(matcher.matches('{a,b}:{c,d}', 'b:c')).toBe(true)
+    })
+
+    it('should match ? as a single character within a segment', () => {
+      const segment = createPatternMatcher({ wildcards: 'segment' })
+      const legacy = createPatternMatcher({ wildcards: 'legacy' })
+
+      expect(segment.matches('user:log?n', 'user:login')).toBe(true)
+      expect(segment.matches('user:log?n', 'user:logn')).toBe(false)
+      expect(segment.matches('user?login', 'user:login')).toBe(false)
+      expect(legacy.matches('user?login', 'user:login')).toBe(true)
+    })
+
+    it('should match every event the rest of a negated pattern does not', () => {
+      const matcher = createPatternMatcher({ wildcards: 'segment' })
+
+      expect(matcher.matches('!debug:*', 'user:login')).toBe(true)
+      expect(matcher.matches('!debug:*', 'debug:verbose')).toBe(false)
+      expect(matcher.matches('!{debug,trace}:**', 'trace:a:b')).toBe(false)
+      expect(matcher.matches('!user:login', 'user:logout')).toBe(true)
+      expect(matcher.matches('!user:login', 'user:login')).toBe(false)
+    })
+  })
 })
@@ -1,62 +1,246 @@
+import { PatternSyntaxError } from '../errors/errors'
+
+/**
+ * How wildcards are interpreted
+ * - `'segment'`: `*` and `?` match within one segment, a `**` or `#` segment matches zero or more segments
+ * - `'legacy'`: every `*` matches any run of characters and `?` any character, including delimiters
+ */
+export type WildcardMode = 'segment' | 'legacy'
+
+/**
+ * How a pattern is matched
+ * - `'exact'`: a plain event name, compared by equality
+ * - `'wildcard'`: contains `*`, `?`, `{a,b}` alternation or a `#` segment
+ * - `'negated'`: starts with `!` and matches every event the rest of the pattern does not
+ */
+export type PatternKind = 'exact' | 'wildcard' | 'negated'
+
+/**
+ * Options for creating a pattern matcher
+ */
+export interface PatternMatcherOptions {
+  /** How wildcards are interpreted (default: 'legacy') */
+  wildcards?: WildcardMode
+  /** Separator between event name segments (default: ':') */
+  delimiter?: string
+}
+
 /**
  * Pattern matching utility for event subscriptions
- * Supports wildcard patterns using * for flexible event matching
+ * Supports `*`, `**`/`#`, `?`, `{a,b}` alternation and `!` negation
  */
 export interface PatternMatcher {
+  /** How wildcards are interpreted */
+  readonly wildcards: WildcardMode
+  /** Separator between event name segments */
+  readonly delimiter: string
+
   /**
    * Check if a pattern matches an event name
-   * @param pattern - Pattern to match (supports * wildcard)
+   * @param pattern - Pattern to match
    * @param event - Event name to test
    * @returns True if the pattern matches the event
+   * @throws PatternSyntaxError if the pattern is malformed
    * @example
    * ```ts
    * matcher.matches('user:*', 'user:login') // true
-   * matcher.matches('user:login', 'user:login') // true
-   * matcher.matches('*', 'any:event') // true
+   * matcher.matches('user:*', 'user:profile:updated') // true ('segment': false)
+   * matcher.matches('user:**', 'user:profile:updated') // true
+   * matcher.matches('user:{login,logout}', 'user:logout') // true
+   * matcher.matches('!debug:*', 'user:login') // true
    * ```
    */
   matches(pattern: string, event: string): boolean
 
   /**
-   * Check if a pattern contains wildcard characters
+   * Determine how a pattern is matched, validating its syntax
    * @param pattern - Pattern to check
-   * @returns True if the pattern contains *
+   * @returns 'exact' for plain event names, 'negated' for `!` patterns, 'wildcard' otherwise
+   * @throws PatternSyntaxError if the pattern is malformed
    */
-  hasWildcard(pattern: string): boolean
+  classify(pattern: string): PatternKind
+}
+
+/** A validated pattern compiled to a regex */
+interface CompiledPattern {
+  regex: RegExp
+  negated: boolean
+}
+
+/**
+ * Escapes regex special characters of a literal pattern fragment
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Converts the `*` and `?` wildcards of a fragment to regex source
+ * @param anyRun - Source matched by `*`
+ * @param anyChar - Source matched by `?`
+ */
+function globToSource(fragment: string, anyRun: string, anyChar: string): string {
+  return fragment
+    .split('*')
+    .map((part) => part.split('?').map(escapeRegex).join(anyChar))
+    .join(anyRun)
+}
+
+/**
+ * Checks brace and negation syntax
+ * @throws PatternSyntaxError describing the first problem found
+ */
+function validatePattern(pattern: string): void {
+  const body = pattern.startsWith('!') ? pattern.slice(1) : pattern
+  if (pattern.startsWith('!') && body === '') {
+    throw new PatternSyntaxError(pattern, 0, 'expected a pattern after "!"')
+  }
+  if (body.startsWith('!')) {
+    throw new PatternSyntaxError(pattern, 1, 'negation cannot be nested')
+  }
+
+  const offset = pattern.length - body.length
+  let open = -1
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i]
+    if (char === '{') {
+      if (open !== -1) {
+        throw new PatternSyntaxError(pattern, offset + i, 'nested "{" is not supported')
+      }
+      open = i
+    } else if (char === '}') {
+      if (open === -1) {
+        throw new PatternSyntaxError(pattern, offset + i, 'unmatched "}"')
+      }
+      if (i === open + 1) {
+        throw new PatternSyntaxError(pattern, offset + open, 'empty "{}" alternation')
+      }
+      open = -1
+    }
+  }
+  if (open !== -1) {
+    throw new PatternSyntaxError(pattern, offset + open, 'unclosed "{"')
+  }
+}
+
+/**
+ * Expands `{a,b}` groups into every alternative pattern (validated input only)
+ * @example expandBraces('user:{login,logout}') // ['user:login', 'user:logout']
+ */
+function expandBraces(pattern: string): string[] {
+  const open = pattern.indexOf('{')
+  if (open === -1) {
+    return [pattern]
+  }
+
+  const close = pattern.indexOf('}', open)
+  const head = pattern.slice(0, open)
+  const tails = expandBraces(pattern.slice(close + 1))
+  return pattern
+    .slice(open + 1, close)
+    .split(',')
+    .flatMap((alternative) => tails.map((tail) => `${head}${alternative}${tail}`))
+}
+
+/**
+ * Compiles a brace-free pattern with segment-aware wildcards to regex source
+ * A multi-level segment absorbs the delimiter next to it, so 'user:**' also matches 'user'
+ */
+function segmentPatternToSource(pattern: string, delimiter: string): string {
+  const d = escapeRegex(delimiter)
+  const withinSegment = delimiter.length === 1 ? `[^${d}]` : `(?:(?!${d}).)`
+  const segments = pattern
+    .split(delimiter)
+    .map((segment) => (segment === '#' ? '**' : segment))
+    .filter((segment, i, all) => !(segment === '**' && all[i - 1] === '**'))
+
+  let source = ''
+  segments.forEach((segment, i) => {
+    if (segment === '**') {
+      if (segments.length === 1) {
+        source += '.*'
+      } else if (i === 0) {
+        source += `(?:${withinSegment}*${d})*`
+      } else {
+        source += `(?:${d}${withinSegment}*)*`
+      }
+      return
+    }
+
+    // A leading multi-level segment already consumed the delimiter after it
+    if (i > 0 && !(i === 1 && segments[0] === '**')) {
+      source += d
+    }
+    source += globToSource(segment, `${withinSegment}*`, withinSegment)
+  })
+
+  return source
 }
 
 /**
  * Creates a pattern matcher with regex caching for performance
  * Compiles patterns to regex and caches them for efficient repeated matching
+ * @param options - Wildcard mode and segment delimiter
  * @returns PatternMatcher instance
+ * @throws RangeError if the delimiter is empty or contains a pattern character
  */
-export function createPatternMatcher(): PatternMatcher {
-  const patternCache = new Map<string, RegExp>()
+export function createPatternMatcher(options: PatternMatcherOptions = {}): PatternMatcher {
+  const { wildcards = 'legacy', delimiter = ':' } = options
+  if (delimiter === '' || /[*?{},!#]/.test(delimiter)) {
+    throw new RangeError(
+      `Invalid delimiter "${delimiter}": expected a non-empty string without pattern characters`,
+    )
+  }
+
+  const patternCache = new Map<string, CompiledPattern>()
+  const isSegmentMode = wildcards === 'segment'
+
+  const isPlain = (pattern: string): boolean =>
+    !/[*?{}]/.test(pattern) &&
+    !pattern.startsWith('!') &&
+    !(isSegmentMode && pattern.includes('#') && pattern.split(delimiter).includes('#'))
+
+  const compile = (pattern: string): CompiledPattern => {
+    let compiled = patternCache.get(pattern)
+    if (compiled) {
+      return compiled
+    }
+
+    validatePattern(pattern)
+    const negated = pattern.startsWith('!')
+    const alternatives = expandBraces(negated ? pattern.slice(1) : pattern).map((alternative) =>
+      isSegmentMode
+        ? segmentPatternToSource(alternative, delimiter)
+        : // Convert pattern to regex (e.g., "user:*" -> /^user:.*$/)
+          globToSource(alternative, '.*', '.'),
+    )
+    compiled = { regex: new RegExp(`^(?:${alternatives.join('|')})$`), negated }
+    patternCache.set(pattern, compiled)
+    return compiled
+  }
 
   return {
-    hasWildcard(pattern: string): boolean {
-      return pattern.includes('*')
+    wildcards,
+    delimiter,
+
+    classify(pattern: string): PatternKind {
+      if (isPlain(pattern)) {
+        return 'exact'
+      }
+      return compile(pattern).negated ? 'negated' : 'wildcard'
     },
 
     matches(pattern: string, event: string): boolean {
-      if (pattern === '*') {
-        return true
+      if (isPlain(pattern)) {
+        return pattern === event
       }
 
-      if (pattern === event) {
+      if (!isSegmentMode && pattern === '*') {
         return true
       }
 
-      let regex = patternCache.get(pattern)
-
-      if (!regex) {
-        // Convert pattern to regex (e.g., "user:*" -> /^user:.*$/)
-        const regexPattern = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
-        regex = new RegExp(`^${regexPattern}$`)
-        patternCache.set(pattern, regex)
-      }
-
-      return regex.test(event)
+      const { regex, negated } = compile(pattern)
+      return regex.test(event) !== negated
     },
   }
 }
@@ -0,0 +1,235 @@
+import type { EventMap } from '../eventbus/eventbus.types'
+import type { HandlerContext } from '../listener-store/listener-store.types'
+import type { WildcardMode } from './pattern-matcher'
+
+/**
+ * Literal event names of an event map, ignoring any string index signature
+ * @template TEventMap - The event map defining available events
+ */
+export type KnownEvent<TEventMap extends EventMap> = keyof {
+  [K in keyof TEventMap as string extends K ? never : K extends string ? K : never]: never
+} &
+  string
+
+/**
+ * Wildcard mode and delimiter of a bus, as seen by its pattern and scope types
+ * Mirrors the `wildcards` and `delimiter` config of createEventBus
+ */
+export interface PatternSyntax {
+  wildcards: WildcardMode
+  delimiter: string
+}
+
+/**
+ * Syntax of a bus created without `wildcards` or `delimiter` config
+ */
+export interface DefaultPatternSyntax extends PatternSyntax {
+  wildcards: 'legacy'
+  delimiter: ':'
+}
+
+/**
+ * Resolves to true if `TEvent` matches `TPattern` under a bus's pattern syntax
+ * When the wildcard mode or the delimiter is not a literal type, every wildcard or negated
+ * pattern is assumed to match, since the types cannot tell which events it receives
+ * @template TEvent - The event name
+ * @template TPattern - The subscription pattern
+ * @template TSyntax - Wildcard mode and delimiter of the bus
+ */
+export type MatchesPattern<
+  TEvent extends string,
+  TPattern extends string,
+  TSyntax extends PatternSyntax = DefaultPatternSyntax,
+> = IsKnownSyntax<TSyntax> extends false
+  ? TPattern extends `${string}${'*' | '?' | '{' | '#' | '!'}${string}`
+    ? true
+    : TEvent extends TPattern
+      ? true
+      : false
+  : TPattern extends `!${infer Inner}`
+    ? MatchesPositive<TEvent, Inner, TSyntax> extends true
+      ? false
+      : true
+    : MatchesPositive<TEvent, TPattern, TSyntax>
+
+/** Resolves to false unless the wildcard mode and, in segment mode, the delimiter are literals */
+type IsKnownSyntax<TSyntax extends PatternSyntax> = WildcardMode extends TSyntax['wildcards']
+  ? false
+  : TSyntax['wildcards'] extends 'segment'
+    ? string extends TSyntax['delimiter']
+      ? false
+      : true
+    : true
+
+/** Resolves to true if `TEvent` matches any alternative of a pattern without negation */
+type MatchesPositive<
+  TEvent extends string,
+  TPattern extends string,
+  TSyntax extends PatternSyntax,
+> = true extends MatchesAlternative<TEvent, ExpandBraces<TPattern>, TSyntax> ? true : false
+
+/** Distributes over the alternatives of an expanded pattern */
+type MatchesAlternative<
+  TEvent extends string,
+  TPattern extends string,
+  TSyntax extends PatternSyntax,
+> = TPattern extends string
+  ? TSyntax['wildcards'] extends 'segment'
+    ? MatchesSegments<Split<TEvent, TSyntax['delimiter']>, Split<TPattern, TSyntax['delimiter']>>
+    : MatchesGlob<TEvent, TPattern>
+  : never
+
+/** Union of the patterns spelled out by `{a,b}` groups, e.g. 'user:login' | 'user:logout' */
+type ExpandBraces<TPattern extends string> =
+  TPattern extends `${infer Head}{${infer Body}}${infer Tail}`
+    ? `${Head}${SplitAlternatives<Body>}${ExpandBraces<Tail>}`
+    : TPattern
+
+/** Union of the comma-separated alternatives of a brace group */
+type SplitAlternatives<TBody extends string> = TBody extends `${infer Alternative},${infer Rest}`
+  ? Alternative | SplitAlternatives<Rest>
+  : TBody
+
+/** Segments of a name, e.g. ['user', 'login'] for 'user:login' */
+type Split<
+  TName extends string,
+  TDelimiter extends string,
+> = TName extends `${infer Head}${TDelimiter}${infer Tail}`
+  ? [Head, ...Split<Tail, TDelimiter>]
+  : [TName]
+
+/** A multi-level segment of a pattern in segment mode */
+type MultiLevel = '**' | '#'
+
+/** Resolves to true if event segments match pattern segments, where `**` or `#` matches zero or more */
+type MatchesSegments<TEvent extends string[], TPattern extends string[]> = TPattern extends [
+  infer Head extends string,
+  ...infer Rest extends string[],
+]
+  ? Head extends MultiLevel
+    ? MatchesSegments<TEvent, Rest> extends true
+      ? true
+      : TEvent extends [string, ...infer Tail extends string[]]
+        ? MatchesSegments<Tail, TPattern>
+        : false
+    : TEvent extends [infer Segment extends string, ...infer Tail extends string[]]
+      ? MatchesGlob<Segment, Head> extends true
+        ? MatchesSegments<Tail, Rest>
+        : false
+      : false
+  : TEvent extends []
+    ? true
+    : false
+
+/** Resolves to true if `TEvent` matches `TPattern`, where each * matches any run and ? any character */
+type MatchesGlob<
+  TEvent extends string,
+  TPattern extends string,
+> = TPattern extends `${infer Head}*${infer Rest}`
+  ? [AfterPrefix<TEvent, Head>] extends [never]
+    ? false
+    : MatchesAnySuffix<AfterPrefix<TEvent, Head>, Rest>
+  : IsEmpty<AfterPrefix<TEvent, TPattern>>
+
+/** Resolves to true for the empty string, and to false for never */
+type IsEmpty<T extends string> = [T] extends [never] ? false : [T] extends [''] ? true : false
+
+/** The rest of `TEvent` after a *-free prefix whose ? match any character, or never */
+type AfterPrefix<
+  TEvent extends string,
+  TPrefix extends string,
+> = TPrefix extends `${infer Head}?${infer Rest}`
+  ? TEvent extends `${Head}${string}${infer Tail}`
+    ? AfterPrefix<Tail, Rest>
+    : never
+  : TEvent extends `${TPrefix}${infer Tail}`
+    ? Tail
+    : never
+
+/** Tries every suffix of `TEvent` against the rest of the pattern after a * */
+type MatchesAnySuffix<TEvent extends string, TPattern extends string> = MatchesGlob<
+  TEvent,
+  TPattern
+> extends true
+  ? true
+  : TEvent extends `${string}${infer Next}`
+    ? MatchesAnySuffix<Next, TPattern>
+    : false
+
+/**
+ * Union of the known events matched by a pattern
+ * Maps without literal event names match every string; a pattern typed as plain
+ * `string` may match any known event
+ * @template TEventMap - The event map defining available events
+ * @template TPattern - The subscription pattern
+ * @template TSyntax - Wildcard mode and delimiter of the bus
+ */
+export type MatchingEvents<
+  TEventMap extends EventMap,
+  TPattern extends string,
+  TSyntax extends PatternSyntax = DefaultPatternSyntax,
+> = [KnownEvent<TEventMap>] extends [never]
+  ? string
+  : string extends TPattern
+    ? KnownEvent<TEventMap>
+    : {
+        [K in KnownEvent<TEventMap>]: MatchesPattern<K, TPattern, TSyntax> extends true ? K : never
+      }[KnownEvent<TEventMap>]
+
+/** Wildcard prefixes of an event name, e.g. 'user:*' and 'user:**' for 'user:login' */
+type WildcardPrefixes<
+  TEvent extends string,
+  TDelimiter extends string,
+> = TEvent extends `${infer Head}${TDelimiter}${infer Tail}`
+  ?
+      | `${Head}${TDelimiter}*`
+      | `${Head}${TDelimiter}**`
+      | `${Head}${TDelimiter}${WildcardPrefixes<Tail, TDelimiter>}`
+  : never
+
+/**
+ * Patterns suggested by editors for an event map: '*', '**', every event name and every wildcard prefix
+ * @template TEventMap - The event map defining available events
+ * @template TSyntax - Wildcard mode and delimiter of the bus
+ */
+export type EventPattern<
+  TEventMap extends EventMap,
+  TSyntax extends PatternSyntax = DefaultPatternSyntax,
+> =
+  | '*'
+  | '**'
+  | KnownEvent<TEventMap>
+  | (string extends TSyntax['delimiter']
+      ? never
+      : WildcardPrefixes<KnownEvent<TEventMap>, TSyntax['delimiter']>)
+
+/**
+ * Pattern argument accepted by onPattern; resolves to an error message type
+ * when the pattern cannot match any known event
+ * A pattern typed as plain `string` (e.g. built at runtime) is always accepted
+ * @template TEventMap - The event map defining available events
+ * @template TPattern - The subscription pattern
+ * @template TSyntax - Wildcard mode and delimiter of the bus
+ */
+export type ValidPattern<
+  TEventMap extends EventMap,
+  TPattern extends string,
+  TSyntax extends PatternSyntax = DefaultPatternSyntax,
+> = string extends TPattern
+  ? TPattern
+  : [MatchingEvents<TEventMap, TPattern, TSyntax>] extends [never]
+    ? `Pattern "${TPattern}" does not match any known event`
+    : TPattern
+
+/**
+ * Handler for a pattern subscription
+ * Receives the payload and context of one of the matching events, so checking
+ * `context.event` narrows the payload
+ * @template TEventMap - The event map defining available events
+ * @template TEvent - The events matched by the pattern
+ */
+export type PatternHandler<TEventMap extends EventMap, TEvent extends string> = (
+  ...args: {
+    [K in TEvent]: [payload: TEventMap[K], context: HandlerContext & { event: K }]
+  }[TEvent]
+) => Promise<void> | void
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createPatternMatcher } from '../pattern-matcher/pattern-matcher'
+import { createPatternTrie } from './pattern-trie'
+
+describe('PatternTrie', () => {
+  it('should find patterns by walking literal and single-segment steps', () => {
+    const trie = createPatternTrie(createPatternMatcher({ wildcards: 'segment' }))
+
+    trie.add('user:*')
+    trie.add('*:login')
+    trie.add('order:*')
+    trie.add('user:*:updated')
+
+    expect(trie.match('user:login').sort()).toEqual(['*:login', 'user:*'])
+    expect(trie.match('user:profile:updated')).toEqual(['user:*:updated'])
+    expect(trie.match('admin:logout')).toEqual([])
+  })
+
+  it('should verify multi-level and partial wildcards with the matcher', () => {
+    const matcher = createPatternMatcher({ wildcards: 'segment' })
+    const matches = vi.spyOn(matcher, 'matches')
+    const trie = createPatternTrie(matcher)
+
+    trie.add('user:**')
+    trie.add('user:log*')
+    trie.add('order:**')
+    trie.add('**:failed')
+
+    expect(trie.match('user:login').sort()).toEqual(['user:**', 'user:log*'])
+    expect(trie.match('user')).toEqual(['user:**'])
+    expect(trie.match('order:payment:failed').sort()).toEqual(['**:failed', 'order:**'])
+    // Only patterns on the event's path are tested: '**:failed' at the root, then 'user:...' patterns
+    matches.mockClear()
+    trie.match('user:login')
+    expect(matches.mock.calls.map(([pattern]) => pattern).sort()).toEqual([
+      '**:failed',
+      'user:**',
+      'user:log*',
+    ])
+  })
+
+  it('should defer every wildcard in legacy mode', () => {
+    const trie = createPatternTrie(createPatternMatcher({ wildcards: 'legacy' }))
+
+    trie.add('user:*')
+    trie.add('*')
+
+    expect(trie.match('user:profile:updated').sort()).toEqual(['*', 'user:*'])
+  })
+
+  it('should use the matcher delimiter', () => {
+    const trie = createPatternTrie(createPatternMatcher({ wildcards: 'segment', delimiter: '/' }))
+
+    trie.add('sensors/*/temp')
+
+    expect(trie.match('sensors/kitchen/temp')).toEqual(['sensors/*/temp'])
+    expect(trie.match('sensors:kitchen:temp')).toEqual([])
+  })
+
+  it('should remove patterns and count them once', () => {
+    const trie = createPatternTrie(createPatternMatcher({ wildcards: 'segment' }))
+
+    trie.add('user:*')
+    trie.add('user:*')
+    trie.add('user:**')
+    expect(trie.size).toBe(2)
+
+    trie.remove('user:*')
+    trie.remove('missing:*')
+    expect(trie.size).toBe(1)
+    expect(trie.match('user:login')).toEqual(['user:**'])
+
+    trie.remove('user:**')
+    expect(trie.size).toBe(0)
+    expect(trie.match('user:login')).toEqual([])
+  })
+})
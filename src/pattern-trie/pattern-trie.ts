@@ -0,0 +1,182 @@
+import type { PatternMatcher } from '../pattern-matcher/pattern-matcher'
+
+/**
+ * Index of wildcard patterns keyed by their segments
+ * Finds the patterns matching an event by walking the event's segments instead of
+ * testing every pattern
+ */
+export interface PatternTrie {
+  /** Index a pattern (adding it again is a no-op) */
+  add(pattern: string): void
+  /** Remove a pattern, pruning nodes that become empty */
+  remove(pattern: string): void
+  /** Get every indexed pattern that matches an event */
+  match(event: string): string[]
+  /** Number of indexed patterns */
+  readonly size: number
+}
+
+interface TrieNode {
+  /** Nodes for literal segments */
+  children: Map<string, TrieNode>
+  /** Node for a single-segment `*` (segment mode only) */
+  single?: TrieNode
+  /** Patterns whose segments all lead to this node */
+  patterns: Set<string>
+  /**
+   * Patterns whose remaining segments cannot be walked (multi-level, partial or brace wildcards,
+   * negations, or any wildcard in legacy mode); candidates are verified with the pattern matcher
+   */
+  deferred: Set<string>
+}
+
+type Step = { kind: 'literal'; segment: string } | { kind: 'single' }
+
+const createNode = (): TrieNode => ({
+  children: new Map(),
+  patterns: new Set(),
+  deferred: new Set(),
+})
+
+const isEmpty = (node: TrieNode): boolean =>
+  node.patterns.size === 0 &&
+  node.deferred.size === 0 &&
+  node.children.size === 0 &&
+  node.single === undefined
+
+/**
+ * Creates a segment trie for wildcard patterns
+ * @param patternMatcher - Provides the delimiter and wildcard semantics, and verifies deferred patterns
+ * @returns PatternTrie instance
+ */
+export function createPatternTrie(patternMatcher: PatternMatcher): PatternTrie {
+  const { delimiter } = patternMatcher
+  const isSegmentMode = patternMatcher.wildcards === 'segment'
+  const root = createNode()
+  let size = 0
+
+  /**
+   * Splits a pattern into the steps the trie can walk; `deferred` is true if the
+   * pattern stops at a segment that needs the matcher
+   */
+  const toSteps = (pattern: string): { steps: Step[]; deferred: boolean } => {
+    const steps: Step[] = []
+    if (patternMatcher.classify(pattern) === 'negated') {
+      return { steps, deferred: true }
+    }
+
+    for (const segment of pattern.split(delimiter)) {
+      // Braces may span several segments, so a segment with a brace ends the walkable part
+      if (/[{}]/.test(segment)) {
+        return { steps, deferred: true }
+      }
+      if (patternMatcher.classify(segment) === 'exact') {
+        steps.push({ kind: 'literal', segment })
+      } else if (isSegmentMode && segment === '*') {
+        steps.push({ kind: 'single' })
+      } else {
+        return { steps, deferred: true }
+      }
+    }
+    return { steps, deferred: false }
+  }
+
+  const childOf = (node: TrieNode, step: Step): TrieNode | undefined =>
+    step.kind === 'single' ? node.single : node.children.get(step.segment)
+
+  const collect = (
+    node: TrieNode,
+    segments: string[],
+    index: number,
+    event: string,
+    matched: string[],
+  ): void => {
+    for (const pattern of node.deferred) {
+      if (patternMatcher.matches(pattern, event)) {
+        matched.push(pattern)
+      }
+    }
+
+    const segment = segments[index]
+    if (segment === undefined) {
+      matched.push(...node.patterns)
+      return
+    }
+
+    const literal = node.children.get(segment)
+    if (literal) {
+      collect(literal, segments, index + 1, event, matched)
+    }
+    if (node.single) {
+      collect(node.single, segments, index + 1, event, matched)
+    }
+  }
+
+  return {
+    get size() {
+      return size
+    },
+
+    add(pattern: string): void {
+      const { steps, deferred } = toSteps(pattern)
+      let node = root
+      for (const step of steps) {
+        let child = childOf(node, step)
+        if (!child) {
+          child = createNode()
+          if (step.kind === 'single') {
+            node.single = child
+          } else {
+            node.children.set(step.segment, child)
+          }
+        }
+        node = child
+      }
+
+      const bucket = deferred ? node.deferred : node.patterns
+      if (!bucket.has(pattern)) {
+        bucket.add(pattern)
+        size++
+      }
+    },
+
+    remove(pattern: string): void {
+      const { steps, deferred } = toSteps(pattern)
+      const path: TrieNode[] = [root]
+      for (const step of steps) {
+        const child = childOf(path[path.length - 1] as TrieNode, step)
+        if (!child) {
+          return
+        }
+        path.push(child)
+      }
+
+      const node = path[path.length - 1] as TrieNode
+      if (!(deferred ? node.deferred : node.patterns).delete(pattern)) {
+        return
+      }
+      size--
+
+      // Prune empty nodes from the leaf up
+      for (let depth = steps.length; depth > 0; depth--) {
+        const child = path[depth] as TrieNode
+        if (!isEmpty(child)) {
+          break
+        }
+        const parent = path[depth - 1] as TrieNode
+        const step = steps[depth - 1] as Step
+        if (step.kind === 'single') {
+          parent.single = undefined
+        } else {
+          parent.children.delete(step.segment)
+        }
+      }
+    },
+
+    match(event: string): string[] {
+      const matched: string[] = []
+      collect(root, event.split(delimiter), 0, event, matched)
+      return matched
+    },
+  }
+}
@@ -92,6 +92,24 @@ describe('PluginManager', () => {
       consoleErrorSpy.mockRestore()
     })
 
+    it('should catch and log rejected async hooks', async () => {
+      const rejectingHook = vi.fn(async () => {
+        throw new Error('Async plugin error')
+      })
+      const otherHook = vi.fn()
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const plugin1: Plugin<TestEvents> = { name: 'plugin1', onInit: rejectingHook }
+      const plugin2: Plugin<TestEvents> = { name: 'plugin2', onInit: otherHook }
+
+      const manager = createPluginManager([plugin1, plugin2])
+      await expect(manager.callHook('onInit')).resolves.toBeUndefined()
+
+      expect(otherHook).toHaveBeenCalledTimes(1)
+      expect(consoleErrorSpy).toHaveBeenCalled()
+      consoleErrorSpy.mockRestore()
+    })
+
     it('should not call hooks that do not exist', async () => {
       const onInitSpy = vi.fn()
 
@@ -148,4 +166,48 @@ describe('PluginManager', () => {
       expect(slowHook2).toHaveBeenCalledTimes(1)
     })
   })
+  describe('add and remove', () => {
+    it('should call hooks on plugins added after creation', async () => {
+      const onInitSpy = vi.fn()
+      const manager = createPluginManager<TestEvents>()
+
+      manager.add({ name: 'plugin', onInit: onInitSpy })
+      await manager.callHook('onInit')
+
+      expect(onInitSpy).toHaveBeenCalledTimes(1)
+    })
+
+    it('should reject duplicate plugin names', () => {
+      const manager = createPluginManager<TestEvents>([{ name: 'plugin' }])
+
+      expect(() => manager.add({ name: 'plugin' })).toThrow('Plugin "plugin" is already registered')
+    })
+
+    it('should stop calling hooks on removed plugins', async () => {
+      const onInitSpy = vi.fn()
+      const manager = createPluginManager<TestEvents>([{ name: 'plugin', onInit: onInitSpy }])
+
+      expect(manager.remove('plugin')).toBe(true)
+      expect(manager.remove('plugin')).toBe(false)
+      await manager.callHook('onInit')
+
+      expect(onInitSpy).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('callPluginHook', () => {
+    it('should call the hook on the named plugin only', async () => {
+      const onInitSpy1 = vi.fn()
+      const onInitSpy2 = vi.fn()
+
+      const manager = createPluginManager<TestEvents>([
+        { name: 'plugin1', onInit: onInitSpy1 },
+        { name: 'plugin2', onInit: onInitSpy2 },
+      ])
+      await manager.callPluginHook('plugin2', 'onInit')
+
+      expect(onInitSpy1).not.toHaveBeenCalled()
+      expect(onInitSpy2).toHaveBeenCalledTimes(1)
+    })
+  })
 })
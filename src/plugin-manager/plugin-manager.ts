@@ -1,10 +1,9 @@
 import type { EventMap } from '../eventbus/eventbus.types'
 import { logger } from '../logger/logger'
-import type { Plugin } from './plugin-manager.types'
+import type { Plugin, PluginHookName } from './plugin-manager.types'
 
 /**
- * Manages plugin execution with error handling
- * Note: Currently not integrated into EventBus, preserved for future use
+ * Manages plugin registration and hook execution with error handling
  * @template TEventMap - The event map defining available events
  */
 export interface PluginManager<TEventMap extends EventMap> {
@@ -14,42 +13,105 @@ export interface PluginManager<TEventMap extends EventMap> {
    * @param hookName - The name of the hook to call
    * @param args - Arguments to pass to the hook
    */
-  callHook<Args extends unknown[]>(hookName: keyof Plugin<TEventMap>, ...args: Args): Promise<void>
+  callHook<Args extends unknown[]>(hookName: PluginHookName, ...args: Args): Promise<void>
+
+  /**
+   * Call a specific hook on a single registered plugin
+   * Does nothing if no plugin with the given name is registered
+   * @param pluginName - The name of the plugin to call
+   * @param hookName - The name of the hook to call
+   * @param args - Arguments to pass to the hook
+   */
+  callPluginHook<Args extends unknown[]>(
+    pluginName: string,
+    hookName: PluginHookName,
+    ...args: Args
+  ): Promise<void>
+
+  /**
+   * Register a plugin
+   * @param plugin - The plugin to register
+   * @throws Error if a plugin with the same name is already registered
+   */
+  add(plugin: Plugin<TEventMap>): void
+
+  /**
+   * Unregister a plugin by name
+   * @param pluginName - The name of the plugin to remove
+   * @returns True if a plugin was removed
+   */
+  remove(pluginName: string): boolean
 }
 
 /**
  * Creates a plugin manager that safely executes plugin hooks
  * Handles errors gracefully without interrupting other plugins
+ * Both synchronous throws and rejected promises are caught and logged
  *
  * @template TEventMap - The event map defining available events
  * @param plugins - Array of plugins to manage
  * @returns PluginManager instance
  */
 export function createPluginManager<TEventMap extends EventMap>(
-  plugins: Plugin<TEventMap>[],
+  plugins: Plugin<TEventMap>[] = [],
 ): PluginManager<TEventMap> {
-  return {
-    async callHook<Args extends unknown[]>(
-      hookName: keyof Plugin<TEventMap>,
+  const registered = new Map<string, Plugin<TEventMap>>()
+
+  /**
+   * Invokes a single plugin hook, isolating sync throws and async rejections
+   */
+  const invokeHook = async (
+    plugin: Plugin<TEventMap>,
+    hookName: PluginHookName,
+    args: unknown[],
+  ): Promise<void> => {
+    const hook = plugin[hookName]
+    if (!hook) {
+      return
+    }
+
+    try {
+      await (hook as (...args: unknown[]) => void | Promise<void>)(...args)
+    } catch (error) {
+      logger.error(`Error in plugin "${plugin.name}" hook "${hookName}":`, error)
+    }
+  }
+
+  const manager: PluginManager<TEventMap> = {
+    async callHook<Args extends unknown[]>(hookName: PluginHookName, ...args: Args): Promise<void> {
+      // Snapshot so plugins added or removed by a hook don't affect this call
+      const snapshot = [...registered.values()]
+
+      // Wait for all plugin hooks to complete
+      await Promise.all(snapshot.map((plugin) => invokeHook(plugin, hookName, args)))
+    },
+
+    async callPluginHook<Args extends unknown[]>(
+      pluginName: string,
+      hookName: PluginHookName,
       ...args: Args
     ): Promise<void> {
-      const hookPromises = plugins
-        .map((plugin) => {
-          const hook = plugin[hookName]
-          if (hook) {
-            try {
-              return (hook as (...args: unknown[]) => void | Promise<void>)(...args)
-            } catch (error) {
-              logger.error(`Error in plugin "${plugin.name}" hook "${String(hookName)}":`, error)
-              return undefined
-            }
-          }
-          return undefined
-        })
-        .filter((p): p is Promise<void> | void => p !== undefined)
+      const plugin = registered.get(pluginName)
+      if (plugin) {
+        await invokeHook(plugin, hookName, args)
+      }
+    },
 
-      // Wait for all plugin hooks to complete
-      await Promise.all(hookPromises)
+    add(plugin: Plugin<TEventMap>): void {
+      if (registered.has(plugin.name)) {
+        throw new Error(`Plugin "${plugin.name}" is already registered`)
+      }
+      registered.set(plugin.name, plugin)
+    },
+
+    remove(pluginName: string): boolean {
+      return registered.delete(pluginName)
     },
   }
+
+  for (const plugin of plugins) {
+    manager.add(plugin)
+  }
+
+  return manager
 }
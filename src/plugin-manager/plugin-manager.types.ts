@@ -3,9 +3,8 @@ import type { EventMap } from '../eventbus/eventbus.types'
 /**
  * Plugin interface for extending EventBus functionality
  * Provides lifecycle hooks for observing and reacting to EventBus operations
- *
- * Note: Plugin functionality is currently not integrated into the EventBus
- * This interface is preserved for future use
+ * Hooks may be sync or async; errors thrown by a hook are logged and never
+ * interrupt the EventBus or other plugins
  *
  * @template TEventMap - The event map defining available events
  * @example
@@ -61,3 +60,8 @@ export interface Plugin<TEventMap extends EventMap = EventMap> {
     handler?: symbol,
   ) => void | Promise<void>
 }
+
+/**
+ * Names of the lifecycle hooks a plugin can implement
+ */
+export type PluginHookName = Exclude<keyof Plugin, 'name'>
@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from 'vitest'
+import { systemClock } from '../clock/clock'
+import { NoResponderError, RequestTimeoutError } from '../errors/errors'
+import { createPatternMatcher } from '../pattern-matcher/pattern-matcher'
+import { createRequestManager } from './request-manager'
+
+describe('RequestManager', () => {
+  describe('request', () => {
+    it('should resolve with the responder result', async () => {
+      const manager = createRequestManager(createPatternMatcher(), systemClock)
+
+      manager.handle('math:double', (payload) => (payload as number) * 2)
+
+      await expect(manager.request('math:double', 21)).resolves.toBe(42)
+    })
+
+    it('should use the highest-priority responder', async () => {
+      const manager = createRequestManager(createPatternMatcher(), systemClock)
+      const lowPriority = vi.fn(() => 'low')
+
+      manager.handle('config:get', lowPriority, { priority: 1 })
+      manager.handle('config:*', async () => 'high', { priority: 10 })
+
+      await expect(manager.request('config:get', undefined)).resolves.toBe('high')
+      expect(lowPriority).not.toHaveBeenCalled()
+    })
+
+    it('should pass a responder context', async () => {
+      const manager = createRequestManager(createPatternMatcher(), systemClock)
+      const responder = vi.fn()
+
+      manager.handle('config:*', responder)
+      await manager.request('config:get', 'payload')
+
+      expect(responder).toHaveBeenCalledWith('payload', {
+        event: 'config:get',
+        pattern: 'config:*',
+        listenerId: expect.any(Symbol),
+        requestId: expect.any(String),
+        timestamp: expect.any(Number),
+        signal: expect.any(AbortSignal),
+      })
+    })
+
+    it('should reject with NoResponderError when nothing responds', async () => {
+      const manager = createRequestManager(createPatternMatcher(), systemClock)
+
+      await expect(manager.request('config:get', undefined)).rejects.toBeInstanceOf(
+        NoResponderError,
+      )
+    })
+
+    it('should reject with responder errors', async () => {
+      const manager = createRequestManager(createPatternMatcher(), systemClock)
+      const error = new Error('Responder error')
+
+      manager.handle('config:get', () => {
+        throw error
+      })
+
+      await expect(manager.request('config:get', undefined)).rejects.toBe(error)
+    })
+
+    it('should reject with RequestTimeoutError and abort the responder signal', async () => {
+      vi.useFakeTimers()
+      try {
+        const manager = createRequestManager(createPatternMatcher(), systemClock)
+        let responderSignal: AbortSignal | undefined
+
+        manager.handle('config:get', (_payload, { signal }) => {
+          responderSignal = signal
+          return new Promise(() => {})
+        })
+
+        const pending = manager.request('config:get', undefined, { timeout: 100 })
+        const assertion = expect(pending).rejects.toBeInstanceOf(RequestTimeoutError)
+        await vi.advanceTimersByTimeAsync(100)
+        await assertion
+
+        expect(responderSignal?.aborted).toBe(true)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should reject with the abort reason when the request signal aborts', async () => {
+      const manager = createRequestManager(createPatternMatcher(), systemClock)
+      const controller = new AbortController()
+      const reason = new Error('Cancelled')
+
+      manager.handle('config:get', () => new Promise(() => {}))
+
+      const pending = manager.request('config:get', undefined, { signal: controller.signal })
+      controller.abort(reason)
+
+      await expect(pending).rejects.toBe(reason)
+    })
+  })
+
+  describe('requestAll', () => {
+    it('should collect all results in priority order', async () => {
+      const manager = createRequestManager(createPatternMatcher(), systemClock)
+
+      manager.handle('health:check', async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10))
+        return 'db'
+      })
+      manager.handle('health:check', () => 'cache', { priority: 5 })
+
+      await expect(manager.requestAll('health:check', undefined)).resolves.toEqual(['cache', 'db'])
+    })
+
+    it('should resolve with an empty array when nothing responds', async () => {
+      const manager = createRequestManager(createPatternMatcher(), systemClock)
+
+      await expect(manager.requestAll('health:check', undefined)).resolves.toEqual([])
+    })
+  })
+
+  describe('handle', () => {
+    it('should unregister responders', async () => {
+      const manager = createRequestManager(createPatternMatcher(), systemClock)
+
+      const unregister = manager.handle('config:get', () => 'value')
+      unregister()
+
+      await expect(manager.request('config:get', undefined)).rejects.toBeInstanceOf(
+        NoResponderError,
+      )
+    })
+
+    it('should unregister responders at the end of a using block', async () => {
+      const manager = createRequestManager(createPatternMatcher(), systemClock)
+
+      {
+        using _responder = manager.handle('config:get', () => 'value')
+        await expect(manager.request('config:get', undefined)).resolves.toBe('value')
+      }
+
+      await expect(manager.requestAll('config:get', undefined)).resolves.toEqual([])
+    })
+
+    it('should unregister responders when their signal aborts', async () => {
+      const manager = createRequestManager(createPatternMatcher(), systemClock)
+      const controller = new AbortController()
+
+      manager.handle('config:get', () => 'value', { signal: controller.signal })
+      controller.abort()
+
+      await expect(manager.requestAll('config:get', undefined)).resolves.toEqual([])
+    })
+  })
+})
@@ -0,0 +1,171 @@
+import { type Clock, elapsedTime } from '../clock/clock'
+import { NoResponderError, RequestTimeoutError } from '../errors/errors'
+import type { Listener } from '../listener-store/listener-store'
+import {
+  createListenerStore,
+  createUnsubscribe,
+  recordExecution,
+} from '../listener-store/listener-store'
+import type { ListenerHandler, Unsubscribe } from '../listener-store/listener-store.types'
+import type { PatternMatcher } from '../pattern-matcher/pattern-matcher'
+import type {
+  RequestOptions,
+  Responder,
+  ResponderContext,
+  ResponderOptions,
+} from './request-manager.types'
+
+/**
+ * Manages responders and dispatches requests to them
+ * Responders are kept in their own ListenerStore, so they follow the same
+ * pattern matching and priority ordering as event listeners
+ */
+export interface RequestManager {
+  /**
+   * Register a responder for an event or pattern
+   * @returns Function that unregisters the responder, also usable with `using`
+   */
+  handle(pattern: string, responder: Responder, options?: ResponderOptions): Unsubscribe
+  /**
+   * Resolve with the result of the highest-priority matching responder
+   * @throws NoResponderError if no responder matches the event
+   * @throws RequestTimeoutError if the responder does not answer in time
+   */
+  request(event: string, payload: unknown, options?: RequestOptions): Promise<unknown>
+  /**
+   * Resolve with the results of all matching responders, in priority order
+   * Responders run in parallel; the request rejects if any of them fails
+   * @throws RequestTimeoutError if the responders do not all answer in time
+   */
+  requestAll(event: string, payload: unknown, options?: RequestOptions): Promise<unknown[]>
+}
+
+/**
+ * Context fields shared by all responders of a single request
+ */
+type RequestBase = Pick<ResponderContext, 'requestId' | 'timestamp' | 'signal'>
+
+let requestCounter = 0
+
+/**
+ * Creates a request manager
+ * @param patternMatcher - Matcher shared with the event listener store
+ * @param clock - Time source for durations and request timeouts
+ * @returns RequestManager instance
+ */
+export function createRequestManager(patternMatcher: PatternMatcher, clock: Clock): RequestManager {
+  const responderStore = createListenerStore(patternMatcher)
+
+  /**
+   * Calls one responder and tracks its stats
+   * Synchronous throws are converted to rejections
+   */
+  const invoke = async (
+    listener: Listener,
+    event: string,
+    payload: unknown,
+    base: RequestBase,
+  ): Promise<unknown> => {
+    // Responders are stored as listener handlers; only this module calls them
+    const responder = listener.handler as unknown as Responder
+    const startTime = elapsedTime(clock)
+    listener.lastRunAt = clock.now()
+
+    try {
+      const result = await responder(payload, {
+        ...base,
+        event,
+        pattern: listener.pattern,
+        listenerId: listener.id,
+      })
+      recordExecution(listener, elapsedTime(clock) - startTime)
+      return result
+    } catch (error) {
+      listener.errorCount++
+      listener.lastErrorAt = clock.now()
+      throw error
+    }
+  }
+
+  /**
+   * Runs responders with the request's timeout and abort signal applied
+   */
+  const dispatch = <T>(
+    event: string,
+    options: RequestOptions,
+    run: (base: RequestBase) => Promise<T>,
+  ): Promise<T> => {
+    options.signal?.throwIfAborted()
+
+    const controller = new AbortController()
+    const { signal } = controller
+    const forward = () => controller.abort(options.signal?.reason)
+    options.signal?.addEventListener('abort', forward, { once: true })
+
+    const { timeout } = options
+    const handle =
+      timeout === undefined
+        ? undefined
+        : clock.setTimeout(() => controller.abort(new RequestTimeoutError(event, timeout)), timeout)
+
+    requestCounter++
+    const base: RequestBase = {
+      requestId: `request:${requestCounter.toString(36)}`,
+      timestamp: clock.now(),
+      signal,
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason), { once: true })
+      run(base).then(resolve, reject)
+    }).finally(() => {
+      if (handle !== undefined) {
+        clock.clearTimeout(handle)
+      }
+      options.signal?.removeEventListener('abort', forward)
+    })
+  }
+
+  return {
+    handle(pattern: string, responder: Responder, options: ResponderOptions = {}): Unsubscribe {
+      const { signal } = options
+      if (signal?.aborted) {
+        return createUnsubscribe(() => {})
+      }
+
+      const listenerId = responderStore.add(
+        pattern,
+        responder as unknown as ListenerHandler<unknown>,
+        options,
+      )
+      const unsubscribe = (): void => {
+        signal?.removeEventListener('abort', unsubscribe)
+        responderStore.remove(pattern, listenerId)
+      }
+      signal?.addEventListener('abort', unsubscribe, { once: true })
+
+      return createUnsubscribe(unsubscribe)
+    },
+
+    async request(event: string, payload: unknown, options: RequestOptions = {}): Promise<unknown> {
+      const [responder] = responderStore.getMatching(event)
+      if (!responder) {
+        throw new NoResponderError(event)
+      }
+
+      return dispatch(event, options, (base) => invoke(responder, event, payload, base))
+    },
+
+    async requestAll(
+      event: string,
+      payload: unknown,
+      options: RequestOptions = {},
+    ): Promise<unknown[]> {
+      const responders = responderStore.getMatching(event)
+
+      return dispatch(event, options, (base) =>
+        Promise.all(responders.map((responder) => invoke(responder, event, payload, base))),
+      )
+    },
+  }
+}
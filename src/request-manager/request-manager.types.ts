@@ -0,0 +1,45 @@
+import type { SubscribeOptions } from '../listener-store/listener-store.types'
+
+/**
+ * Metadata about the request being handled, passed as the second responder argument
+ */
+export interface ResponderContext {
+  /** The event name that was requested */
+  event: string
+  /** Pattern the responder was registered with */
+  pattern: string
+  /** ID of the responder being executed */
+  listenerId: symbol
+  /** Identifier of the request */
+  requestId: string
+  /** Time the request started (milliseconds since epoch) */
+  timestamp: number
+  /** Aborted when the request times out or its signal aborts */
+  signal: AbortSignal
+}
+
+/**
+ * Function that answers a request with a value
+ * Supports both synchronous and asynchronous responders
+ * @template TPayload - The type of the request payload
+ * @template TResult - The type of the response
+ */
+export type Responder<TPayload = unknown, TResult = unknown> = (
+  payload: TPayload,
+  context: ResponderContext,
+) => TResult | Promise<TResult>
+
+/**
+ * Options for registering a responder
+ */
+export type ResponderOptions = Pick<SubscribeOptions, 'priority' | 'signal'>
+
+/**
+ * Options for a single request
+ */
+export interface RequestOptions {
+  /** Reject with a RequestTimeoutError if no response arrives in time (milliseconds) */
+  timeout?: number
+  /** Aborting rejects the request with the abort reason; responders receive it too */
+  signal?: AbortSignal
+}
@@ -0,0 +1,390 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest'
+import { createEventBus } from '../eventbus/eventbus'
+
+type AppEvents = {
+  'cart:add': { sku: string }
+  'cart:remove': { sku: string }
+  'cart:items:cleared': { count: number }
+  'user:login': { id: string }
+}
+
+describe('ScopedEventBus', () => {
+  it('should prefix subscriptions and emits with the namespace', async () => {
+    const bus = createEventBus<AppEvents>()
+    const cart = bus.scope('cart')
+    const fromScope = vi.fn()
+    const fromParent = vi.fn()
+
+    cart.on('add', fromScope)
+    bus.on('cart:add', fromParent)
+
+    await cart.emit('add', { sku: 'a' })
+    await bus.emit('cart:add', { sku: 'b' })
+
+    expect(fromScope).toHaveBeenCalledTimes(2)
+    expect(fromParent).toHaveBeenCalledTimes(2)
+    expect(fromScope).toHaveBeenLastCalledWith({ sku: 'b' }, expect.anything())
+  })
+
+  it('should be typed against the namespaced events', () => {
+    const bus = createEventBus<AppEvents>()
+    const cart = bus.scope('cart')
+
+    expectTypeOf(cart.emit).parameter(0).toEqualTypeOf<'add' | 'remove' | 'items:cleared'>()
+    cart.on('add', (payload) => {
+      expectTypeOf(payload).toEqualTypeOf<{ sku: string }>()
+    })
+    // @ts-expect-error - 'login' is not a cart event
+    cart.on('login', () => {})
+  })
+
+  it('should expose relative names in the handler context', async () => {
+    const bus = createEventBus<AppEvents>()
+    const cart = bus.scope('cart')
+    const received: string[] = []
+
+    cart.onPattern('*', (_payload, context) => {
+      received.push(`${context.pattern} -> ${context.event}`)
+    })
+
+    await bus.emit('cart:remove', { sku: 'a' })
+    await bus.emit('user:login', { id: '1' })
+
+    expect(received).toEqual(['* -> remove'])
+  })
+
+  it('should not deliver the bare namespace to multi-level patterns', async () => {
+    const bus = createEventBus()
+    const cart = bus.scope('cart')
+    const received: string[] = []
+
+    cart.onPattern('**', (_payload, { event }) => {
+      received.push(event)
+    })
+    await bus.emit('cart', {})
+    await bus.emit('cart:items:cleared', {})
+
+    expect(received).toEqual(['items:cleared'])
+  })
+
+  it('should keep negated and excluded patterns inside the namespace', async () => {
+    const bus = createEventBus<AppEvents>()
+    const cart = bus.scope('cart')
+    const received: string[] = []
+
+    cart.onPattern('!add', (_payload, { event, pattern }) => {
+      received.push(`${pattern} -> ${event}`)
+    })
+    cart.onPattern(
+      '**',
+      (_payload, { event }) => {
+        received.push(`** -> ${event}`)
+      },
+      { exclude: ['items:*'] },
+    )
+
+    await bus.emit('cart:add', { sku: 'a' })
+    await bus.emit('cart:remove', { sku: 'a' })
+    await bus.emit('cart:items:cleared', { count: 1 })
+    await bus.emit('user:login', { id: '1' })
+
+    expect(received).toEqual([
+      '** -> add',
+      '!add -> remove',
+      '** -> remove',
+      '!add -> items:cleared',
+    ])
+  })
+
+  it('should only remove its own listeners on dispose', async () => {
+    const onUnsubscribe = vi.fn()
+    const bus = createEventBus<AppEvents>({ plugins: [{ name: 'plugin', onUnsubscribe }] })
+    const cart = bus.scope('cart')
+    const sibling = bus.scope('cart')
+    const disposed = vi.fn()
+    const kept = vi.fn()
+
+    cart.on('add', disposed)
+    cart.onPattern('*', disposed)
+    bus.on('cart:add', kept)
+    sibling.on('add', kept)
+
+    cart.dispose()
+    await bus.emit('cart:add', { sku: 'a' })
+
+    expect(disposed).not.toHaveBeenCalled()
+    expect(kept).toHaveBeenCalledTimes(2)
+    expect(onUnsubscribe).toHaveBeenCalledTimes(2)
+    expect(bus.getListeners().get('cart:add')).toHaveLength(2)
+  })
+
+  it('should remove once listeners that failed on dispose', async () => {
+    const bus = createEventBus<AppEvents>({ onError: vi.fn() })
+    const cart = bus.scope('cart')
+    const done = vi.fn()
+
+    cart.once('add', () => {
+      throw new Error('boom')
+    })
+    cart.once('remove', done, { tags: ['checkout'] })
+    await bus.emit('cart:add', { sku: 'a' })
+    await bus.emit('cart:remove', { sku: 'a' })
+    expect(bus.getListeners().get('cart:add')).toHaveLength(1)
+    expect(cart.offByTag('checkout')).toBe(0)
+
+    cart.dispose()
+
+    expect(done).toHaveBeenCalledTimes(1)
+    expect(bus.getListeners().size).toBe(0)
+  })
+
+  it('should dispose nested scopes with their parent scope', async () => {
+    const bus = createEventBus<AppEvents>()
+    const cart = bus.scope('cart')
+    const items = cart.scope('items')
+    const handler = vi.fn()
+
+    expect(items.namespace).toBe('cart:items')
+    items.on('cleared', handler)
+    await bus.emit('cart:items:cleared', { count: 1 })
+
+    cart.dispose()
+    await bus.emit('cart:items:cleared', { count: 2 })
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(bus.getListeners().size).toBe(0)
+  })
+
+  it('should ignore subscriptions after dispose', async () => {
+    const bus = createEventBus<AppEvents>()
+    const cart = bus.scope('cart')
+    const handler = vi.fn()
+
+    cart.dispose()
+    cart.on('add', handler)
+    await cart.emit('add', { sku: 'a' })
+
+    expect(handler).not.toHaveBeenCalled()
+    expect(bus.getListeners().size).toBe(0)
+  })
+
+  it('should remove only its own listeners on offAll', async () => {
+    const bus = createEventBus<AppEvents>()
+    const cart = bus.scope('cart')
+    const kept = vi.fn()
+
+    cart.on('add', () => {})
+    cart.on('remove', () => {})
+    bus.on('cart:add', kept)
+
+    cart.offAll('add')
+    expect(cart.getListeners().get('add')).toHaveLength(1)
+    expect(cart.getListeners().get('remove')).toHaveLength(1)
+
+    cart.offAll()
+    expect(bus.getListeners().size).toBe(1)
+    await bus.emit('cart:add', { sku: 'a' })
+    expect(kept).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not pile abort listeners on shared signals', async () => {
+    const { process } = globalThis as { process: { emitWarning(warning: unknown): void } }
+    const emitWarning = vi.spyOn(process, 'emitWarning')
+    const bus = createEventBus()
+    const cart = bus.scope('cart')
+    const signal = new AbortController().signal
+    const handler = vi.fn()
+
+    for (let i = 0; i < 12; i++) {
+      cart.on('add', handler)
+      cart.handle(`remove:${i}`, () => true)
+      cart.on('remove', () => {}, { signal })()
+    }
+    await bus.emit('cart:add', {})
+    cart.dispose()
+
+    expect(handler).toHaveBeenCalledTimes(12)
+    expect(bus.getListeners().size).toBe(0)
+    expect(emitWarning).not.toHaveBeenCalled()
+    emitWarning.mockRestore()
+  })
+
+  it('should only remove its own listeners with off', () => {
+    const bus = createEventBus<AppEvents>()
+    const cart = bus.scope('cart')
+    const sibling = bus.scope('cart')
+
+    cart.on('add', () => {})
+    sibling.on('add', () => {})
+    const [own, other] = bus.getListeners().get('cart:add') ?? []
+
+    cart.off(other?.id ?? Symbol())
+    expect(bus.getListeners().get('cart:add')).toHaveLength(2)
+
+    cart.off(own?.id ?? Symbol())
+    expect(bus.getListeners().get('cart:add')).toEqual([other])
+    cart.dispose()
+    expect(bus.getListeners().get('cart:add')).toEqual([other])
+  })
+
+  it('should only remove its own listeners by tag and owner', () => {
+    const bus = createEventBus<AppEvents>()
+    const cart = bus.scope('cart')
+    const owner = {}
+
+    cart.on('add', () => {}, { tags: ['ui'] })
+    cart.onPattern('*', () => {}, { owner })
+    bus.on('cart:add', () => {}, { tags: ['ui'], owner })
+
+    expect(cart.getListeners({ tag: 'ui' }).get('add')).toHaveLength(2)
+    expect(cart.offByTag('ui')).toBe(1)
+    expect(cart.offByOwner(owner)).toBe(1)
+    expect(bus.getListeners().get('cart:add')).toHaveLength(1)
+  })
+
+  it('should end pending waitFor calls and remove responders and middleware on dispose', async () => {
+    const bus = createEventBus<AppEvents, { 'cart:add': boolean }>()
+    const cart = bus.scope('cart')
+    const middleware = vi.fn(async (_ctx, next: () => Promise<void>) => {
+      await next()
+    })
+
+    cart.handle('add', () => true)
+    cart.useMiddleware(middleware)
+    const pending = cart.waitFor('add')
+
+    await expect(bus.request('cart:add', { sku: 'a' })).resolves.toBe(true)
+    await bus.emit('cart:add', { sku: 'b' })
+
+    await expect(pending).resolves.toEqual({ sku: 'b' })
+    expect(middleware).toHaveBeenCalledTimes(1)
+    expect(middleware.mock.calls[0]?.[0]).toMatchObject({ event: 'add', payload: { sku: 'b' } })
+
+    const abandoned = cart.waitFor('remove')
+    cart.dispose()
+
+    await expect(abandoned).rejects.toThrow()
+    await expect(bus.request('cart:add', { sku: 'c' })).rejects.toThrow('No responder')
+    await bus.emit('cart:add', { sku: 'd' })
+    expect(middleware).toHaveBeenCalledTimes(1)
+  })
+
+  it('should scope sticky payloads to the namespace', async () => {
+    const bus = createEventBus<AppEvents>({ sticky: ['cart:add', 'user:login'] })
+    const cart = bus.scope('cart')
+    const handler = vi.fn()
+
+    await bus.emit('cart:add', { sku: 'a' })
+    await bus.emit('user:login', { id: '1' })
+    cart.on('add', handler, { replay: true })
+    await Promise.resolve()
+
+    expect(handler).toHaveBeenCalledWith({ sku: 'a' }, expect.objectContaining({ event: 'add' }))
+    expect([...cart.getSticky().keys()]).toEqual(['add'])
+    expect(cart.clearSticky()).toBe(true)
+    expect([...bus.getSticky().keys()]).toEqual(['user:login'])
+  })
+
+  it('should replay sticky payloads to catch-all listeners past the bare namespace', async () => {
+    const bus = createEventBus({ sticky: ['cart', 'cart:add'] })
+    const handler = vi.fn()
+
+    await bus.emit('cart', {})
+    await bus.emit('cart:add', { sku: 'a' })
+    bus.scope('cart').onPattern('**', handler, { replay: true })
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1))
+
+    expect(handler).toHaveBeenCalledWith({ sku: 'a' }, expect.objectContaining({ event: 'add' }))
+  })
+
+  it('should query and replay the namespace history', async () => {
+    const bus = createEventBus<AppEvents>({ historySize: 10 })
+    const cart = bus.scope('cart')
+    const repro = createEventBus<AppEvents>()
+    const handler = vi.fn()
+
+    await cart.emit('add', { sku: 'a' })
+    await bus.emit('user:login', { id: '1' })
+    repro.scope('cart').on('add', handler)
+
+    expect(cart.history.query().map((entry) => entry.event)).toEqual(['add'])
+    await cart.history.replay(repro.scope('cart'))
+    expect(handler).toHaveBeenCalledWith({ sku: 'a' }, expect.anything())
+  })
+
+  it('should only expose dead letters of the namespace', async () => {
+    const bus = createEventBus<AppEvents>({ onError: vi.fn() })
+    const cart = bus.scope('cart')
+    const fail = () => {
+      throw new Error('boom')
+    }
+
+    cart.on('add', fail, { retry: { attempts: 0 } })
+    bus.on('user:login', fail, { retry: { attempts: 0 } })
+    await cart.emit('add', { sku: 'a' })
+    await bus.emit('user:login', { id: '1' })
+
+    expect(cart.deadLetters.list().map((letter) => letter.event)).toEqual(['add'])
+    const userLetter = bus.deadLetters.list().find((letter) => letter.event === 'user:login')
+    expect(cart.deadLetters.remove(userLetter?.id ?? '')).toBe(false)
+
+    cart.deadLetters.clear()
+    expect(bus.deadLetters.list().map((letter) => letter.event)).toEqual(['user:login'])
+  })
+
+  it('should only diagnose listeners of the namespace', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const bus = createEventBus<AppEvents>({ maxListeners: 1 })
+    const cart = bus.scope('cart')
+
+    cart.on('add', () => {})
+    cart.on('add', () => {})
+    bus.on('user:login', () => {})
+    bus.on('user:login', () => {})
+
+    expect(cart.diagnose()).toEqual([
+      expect.objectContaining({ kind: 'max-listeners-exceeded', pattern: 'add' }),
+    ])
+    vi.restoreAllMocks()
+  })
+
+  it('should only recover durable emits of the namespace', async () => {
+    const bus = createEventBus<AppEvents>({ onError: vi.fn() })
+    const fail = () => {
+      throw new Error('offline')
+    }
+    bus.on('cart:add', fail)
+    bus.on('user:login', fail)
+    await bus.emit('cart:add', { sku: 'a' }, { durable: true })
+    await bus.emit('user:login', { id: '1' }, { durable: true })
+    bus.offAll()
+
+    expect(await bus.scope('cart').recover()).toBe(1)
+    expect(await bus.recover()).toBe(1)
+  })
+
+  it('should only report and reset stats of the namespace', async () => {
+    const bus = createEventBus<AppEvents>()
+    const cart = bus.scope('cart')
+    cart.on('add', () => {})
+    bus.on('user:login', () => {})
+    await bus.emit('cart:add', { sku: 'a' })
+    await bus.emit('user:login', { id: '1' })
+
+    const stats = cart.getStats()
+    expect([...stats.events.keys()]).toEqual(['add'])
+    expect([...stats.listeners.keys()]).toEqual(['add'])
+
+    cart.resetStats()
+    expect(cart.getStats().events.size).toBe(0)
+    expect(bus.getStats().events.get('user:login')?.emitCount).toBe(1)
+    expect(bus.getListeners('cart:add').get('cart:add')?.[0]?.executionCount).toBe(0)
+    expect(bus.getListeners('user:login').get('user:login')?.[0]?.executionCount).toBe(1)
+  })
+
+  it('should reject an empty namespace', () => {
+    const bus = createEventBus()
+
+    expect(() => bus.scope('')).toThrow(TypeError)
+  })
+})
@@ -0,0 +1,443 @@
+import type { DeadLetter } from '../dead-letter-store/dead-letter-store.types'
+import type { DiagnoseOptions, Diagnostic } from '../diagnostics/diagnostics.types'
+import { replayEntries } from '../event-history/event-history'
+import type { HistoryEntry, HistoryQuery } from '../event-history/event-history.types'
+import type { StreamOptions } from '../event-stream/event-stream.types'
+import type { EmitOptions, EventBus, EventMap } from '../eventbus/eventbus.types'
+import { createUnsubscribe, listenerIdOf } from '../listener-store/listener-store'
+import type {
+  HandlerContext,
+  ListenerFilter,
+  ListenerHandler,
+  ListenerMap,
+  SubscribeOptions,
+  Unsubscribe,
+} from '../listener-store/listener-store.types'
+import type { EmitContext, Middleware, MiddlewareOptions } from '../middleware/middleware.types'
+import type { PatternMatcher } from '../pattern-matcher/pattern-matcher'
+import type { PatternSyntax } from '../pattern-matcher/pattern-matcher.types'
+import type { Plugin } from '../plugin-manager/plugin-manager.types'
+import type {
+  RequestOptions,
+  Responder,
+  ResponderOptions,
+} from '../request-manager/request-manager.types'
+import type { EventBusStats, EventStats } from '../stats/stats.types'
+import type { StickyMap } from '../sticky-store/sticky-store.types'
+import type { WaitForOptions } from '../wait-for/wait-for.types'
+import type { ScopedEventBus, ScopedEventMap } from './scope.types'
+
+/** A subscription made through a scope, tracked so offAll, offByTag and offByOwner can remove it */
+interface ScopedSubscription {
+  /** Listener on the parent bus (undefined if the parent did not register one) */
+  id?: symbol
+  pattern: string
+  tags: string[]
+  owner?: object
+  unsubscribe: () => void
+}
+
+/**
+ * Creates a child bus whose event names are prefixed with the namespace and the delimiter
+ * Everything is registered on the parent and tracked by the scope, so that `dispose()`
+ * (or aborting `parentSignal`) removes exactly what the scope added
+ * @param bus - The bus that holds the listeners
+ * @param namespace - Prefix for all event names and patterns of the scope
+ * @param patternMatcher - The parent's matcher, for its delimiter and wildcard semantics
+ * @param parentSignal - Signal of an enclosing scope; aborting it disposes this scope
+ * @returns ScopedEventBus instance
+ */
+export function createScopedBus<
+  TEventMap extends EventMap,
+  TResponseMap extends EventMap,
+  TSyntax extends PatternSyntax,
+  TNamespace extends string,
+>(
+  bus: EventBus<TEventMap, TResponseMap, TSyntax>,
+  namespace: TNamespace,
+  patternMatcher: PatternMatcher,
+  parentSignal?: AbortSignal,
+): ScopedEventBus<
+  ScopedEventMap<TEventMap, TNamespace, TSyntax['delimiter']>,
+  ScopedEventMap<TResponseMap, TNamespace, TSyntax['delimiter']>,
+  TSyntax
+> {
+  // Names are mapped at runtime, so the scope works against the untyped bus
+  const parent = bus as EventBus<EventMap, EventMap, TSyntax>
+
+  if (namespace === '') {
+    throw new TypeError('Scope namespace must not be empty')
+  }
+
+  const prefix = `${namespace}${patternMatcher.delimiter}`
+  // Matches every event of the scope, however many segments it has
+  const everything = `${prefix}**`
+  const controller = new AbortController()
+  const subscriptions = new Set<ScopedSubscription>()
+  const responderRemovers = new Set<() => void>()
+  const middlewareRemovers = new Set<() => void>()
+  const pluginNames = new Set<string>()
+
+  const toParent = (name: string): string => `${prefix}${name}`
+
+  const fromParent = (name: string): string =>
+    name.startsWith(prefix) ? name.slice(prefix.length) : name
+
+  // A negated pattern keeps its ! in front of the prefix
+  const toParentPattern = (pattern: string): string =>
+    pattern.startsWith('!') ? `!${toParent(pattern.slice(1))}` : toParent(pattern)
+
+  // Patterns ending in ** or starting with ! also match events outside the scope
+  const inNamespace = (event: string): boolean => event.startsWith(prefix)
+
+  // Always a fresh signal, so pending waits and streams never pile listeners on the scope's own
+  const withScopeSignal = (signal?: AbortSignal): AbortSignal =>
+    AbortSignal.any(signal ? [controller.signal, signal] : [controller.signal])
+
+  const toScopedContext = <T extends { event: string; pattern: string }>(context: T): T => ({
+    ...context,
+    event: fromParent(context.event),
+    pattern: fromParent(context.pattern),
+  })
+
+  const subscribe = (
+    pattern: string,
+    handler: ListenerHandler<unknown>,
+    options: SubscribeOptions = {},
+  ): Unsubscribe => {
+    const { signal } = options
+    if (controller.signal.aborted || signal?.aborted) {
+      return createUnsubscribe(() => {})
+    }
+
+    const subscription: ScopedSubscription = {
+      pattern,
+      tags: options.tags ?? [],
+      owner: options.owner,
+      unsubscribe: () => {},
+    }
+    // The parent removes the listener itself when the signal aborts. Once listeners stay
+    // tracked after running, since the parent keeps one whose handler failed; unsubscribing
+    // a listener the parent already removed is a no-op
+    const forget = (): void => {
+      subscriptions.delete(subscription)
+      signal?.removeEventListener('abort', forget)
+    }
+
+    // A negated pattern becomes "every event of the scope except ...", and patterns ending
+    // in ** must not match the bare namespace, which is not an event of the scope
+    const negated = pattern.startsWith('!')
+    const exclude = [namespace, ...(options.exclude ?? []).map(toParentPattern)]
+    if (negated) {
+      exclude.push(toParent(pattern.slice(1)))
+    }
+
+    const unsubscribeFromParent = parent.onPattern(
+      negated ? everything : toParent(pattern),
+      (payload: unknown, context: HandlerContext) =>
+        handler(payload, { ...toScopedContext(context), pattern }),
+      { ...options, exclude },
+    )
+
+    subscription.id = listenerIdOf(unsubscribeFromParent)
+    subscription.unsubscribe = (): void => {
+      forget()
+      unsubscribeFromParent()
+    }
+    subscriptions.add(subscription)
+    signal?.addEventListener('abort', forget, { once: true })
+
+    return createUnsubscribe(subscription.unsubscribe, subscription.id)
+  }
+
+  const emit = (event: string, payload: unknown, options?: EmitOptions): Promise<void> => {
+    return parent.emit(toParent(event), payload, options)
+  }
+
+  /**
+   * Unsubscribes the matching subscriptions
+   * @returns Number of listeners removed from the parent, leaving out once listeners it
+   *   already removed
+   */
+  const removeSubscriptions = (
+    predicate: (subscription: ScopedSubscription) => boolean,
+  ): number => {
+    const removed = [...subscriptions].filter(predicate)
+    if (removed.length === 0) {
+      return 0
+    }
+
+    const registered = new Set(
+      [...parent.getListeners().values()].flatMap((listeners) => listeners.map(({ id }) => id)),
+    )
+    for (const subscription of removed) {
+      subscription.unsubscribe()
+    }
+    return removed.filter(({ id }) => id !== undefined && registered.has(id)).length
+  }
+
+  const offAll = (event?: string): void => {
+    removeSubscriptions(
+      ({ pattern }) =>
+        event === undefined || patternMatcher.matches(toParentPattern(pattern), toParent(event)),
+    )
+  }
+
+  const getListeners = (filter: string | ListenerFilter = {}): ListenerMap => {
+    const { event, ...criteria } = typeof filter === 'string' ? { event: filter } : filter
+    const result: ListenerMap = new Map()
+    for (const [pattern, listeners] of parent.getListeners({
+      ...criteria,
+      event: event === undefined ? undefined : toParent(event),
+    })) {
+      if (pattern.startsWith(prefix)) {
+        result.set(
+          fromParent(pattern),
+          listeners.map((listener) => ({ ...listener, pattern: fromParent(pattern) })),
+        )
+      }
+    }
+    return result
+  }
+
+  const getStats = (): EventBusStats => {
+    const events = new Map<string, EventStats>()
+    for (const [event, stats] of parent.getStats().events) {
+      if (inNamespace(event)) {
+        events.set(fromParent(event), stats)
+      }
+    }
+    return { events, listeners: getListeners() }
+  }
+
+  const diagnose = (options?: DiagnoseOptions): Diagnostic[] => {
+    return parent
+      .diagnose(options)
+      .filter((diagnostic) => diagnostic.pattern.startsWith(prefix))
+      .map((diagnostic) => ({ ...diagnostic, pattern: fromParent(diagnostic.pattern) }))
+  }
+
+  const getSticky = (pattern?: string): StickyMap => {
+    const result: StickyMap = new Map()
+    for (const [event, sticky] of parent.getSticky(
+      pattern === undefined ? everything : toParentPattern(pattern),
+    )) {
+      if (inNamespace(event)) {
+        result.set(fromParent(event), { ...sticky, event: fromParent(event) })
+      }
+    }
+    return result
+  }
+
+  const clearSticky = (event?: string): boolean => {
+    if (event !== undefined) {
+      return parent.clearSticky(toParent(event))
+    }
+
+    let cleared = false
+    for (const sticky of parent.getSticky(everything).keys()) {
+      if (inNamespace(sticky)) {
+        cleared = parent.clearSticky(sticky) || cleared
+      }
+    }
+    return cleared
+  }
+
+  const queryHistory = (filter: HistoryQuery = {}): HistoryEntry[] => {
+    const pattern = filter.pattern === undefined ? everything : toParentPattern(filter.pattern)
+    return parent.history
+      .query({ ...filter, pattern })
+      .filter((entry) => inNamespace(entry.event))
+      .map((entry) => ({ ...entry, event: fromParent(entry.event) }))
+  }
+
+  const inScope = (deadLetter: DeadLetter): boolean => inNamespace(deadLetter.event)
+
+  const listDeadLetters = (): DeadLetter[] => {
+    return parent.deadLetters
+      .list()
+      .filter(inScope)
+      .map((deadLetter) => ({
+        ...deadLetter,
+        event: fromParent(deadLetter.event),
+        pattern: fromParent(deadLetter.pattern),
+      }))
+  }
+
+  const ownsDeadLetter = (id: string): boolean =>
+    parent.deadLetters.list().some((deadLetter) => deadLetter.id === id && inScope(deadLetter))
+
+  const use = (plugin: Plugin): void => {
+    parent.use(plugin)
+    pluginNames.add(plugin.name)
+  }
+
+  const removePlugin = (name: string): boolean => {
+    pluginNames.delete(name)
+    return parent.removePlugin(name)
+  }
+
+  const handle = (event: string, responder: Responder, options: ResponderOptions = {}) => {
+    if (controller.signal.aborted) {
+      return createUnsubscribe(() => {})
+    }
+
+    const removeFromParent = parent.handle(
+      toParent(event),
+      (payload, context) => responder(payload, toScopedContext(context)),
+      options,
+    )
+    const remove = (): void => {
+      responderRemovers.delete(remove)
+      options.signal?.removeEventListener('abort', remove)
+      removeFromParent()
+    }
+    responderRemovers.add(remove)
+    options.signal?.addEventListener('abort', remove, { once: true })
+    return createUnsubscribe(remove)
+  }
+
+  const request = (event: string, payload: unknown, options?: RequestOptions) => {
+    return parent.request(toParent(event), payload, options)
+  }
+
+  const requestAll = (event: string, payload: unknown, options?: RequestOptions) => {
+    return parent.requestAll(toParent(event), payload, options)
+  }
+
+  const waitFor = (event: string, options: WaitForOptions = {}): Promise<unknown> => {
+    return parent.waitFor(toParent(event), {
+      ...options,
+      signal: withScopeSignal(options.signal),
+    })
+  }
+
+  const stream = (pattern: string, options: StreamOptions = {}): AsyncIterableIterator<unknown> => {
+    return parent.stream(toParentPattern(pattern), {
+      ...options,
+      signal: withScopeSignal(options.signal),
+    })
+  }
+
+  const useMiddleware = (middleware: Middleware, options?: MiddlewareOptions): (() => void) => {
+    // Middleware only sees the scope's events, with relative event names
+    const removeFromParent = parent.useMiddleware((ctx, next) => {
+      if (!ctx.event.startsWith(prefix)) {
+        return next()
+      }
+
+      const scopedCtx = {
+        event: fromParent(ctx.event),
+        get payload() {
+          return ctx.payload
+        },
+        set payload(value: unknown) {
+          ctx.payload = value
+        },
+        get metadata() {
+          return ctx.metadata
+        },
+        set metadata(value: Record<string, unknown>) {
+          ctx.metadata = value
+        },
+        emitId: ctx.emitId,
+        timestamp: ctx.timestamp,
+      } as EmitContext
+      return middleware(scopedCtx, next)
+    }, options)
+
+    const remove = (): void => {
+      middlewareRemovers.delete(remove)
+      removeFromParent()
+    }
+    middlewareRemovers.add(remove)
+    return remove
+  }
+
+  const scope = (child: string): ScopedEventBus => {
+    return createScopedBus(parent, toParent(child), patternMatcher, controller.signal)
+  }
+
+  // Only removes listeners registered through this scope
+  const off = (listenerId: symbol): void => {
+    removeSubscriptions(({ id }) => id === listenerId)
+  }
+
+  const dispose = (): void => {
+    if (controller.signal.aborted) {
+      return
+    }
+
+    // Aborting ends pending waits and streams and disposes nested scopes
+    controller.abort()
+    parentSignal?.removeEventListener('abort', dispose)
+    for (const subscription of [...subscriptions]) {
+      subscription.unsubscribe()
+    }
+    for (const remove of [...responderRemovers, ...middlewareRemovers]) {
+      remove()
+    }
+    for (const name of pluginNames) {
+      parent.removePlugin(name)
+    }
+    pluginNames.clear()
+  }
+
+  if (parentSignal?.aborted) {
+    dispose()
+  } else {
+    parentSignal?.addEventListener('abort', dispose, { once: true })
+  }
+
+  const scoped: ScopedEventBus = {
+    namespace,
+    history: {
+      query: queryHistory,
+      replay: (target, filter) => replayEntries(queryHistory(filter), target),
+    },
+    deadLetters: {
+      list: listDeadLetters,
+      retry: async (id) => (ownsDeadLetter(id) ? parent.deadLetters.retry(id) : 'missing'),
+      remove: (id) => ownsDeadLetter(id) && parent.deadLetters.remove(id),
+      clear: () => {
+        for (const { id } of parent.deadLetters.list().filter(inScope)) {
+          parent.deadLetters.remove(id)
+        }
+      },
+    },
+    on: subscribe,
+    onPattern: subscribe as ScopedEventBus['onPattern'],
+    once: (event, handler, options) => subscribe(event, handler, { ...options, once: true }),
+    emit,
+    recover: (pattern) =>
+      parent.recover(pattern === undefined ? everything : toParentPattern(pattern)),
+    off,
+    offAll,
+    offByTag: (tag) => removeSubscriptions(({ tags }) => tags.includes(tag)),
+    offByOwner: (owner) => removeSubscriptions((subscription) => subscription.owner === owner),
+    getListeners,
+    getStats,
+    resetStats: (pattern) =>
+      parent.resetStats(pattern === undefined ? everything : toParentPattern(pattern)),
+    matches: (pattern, event) => patternMatcher.matches(toParentPattern(pattern), toParent(event)),
+    diagnose,
+    getSticky,
+    clearSticky,
+    use,
+    removePlugin,
+    handle,
+    request,
+    requestAll,
+    waitFor,
+    useMiddleware,
+    stream,
+    scope: scope as ScopedEventBus['scope'],
+    dispose,
+  }
+
+  return scoped as ScopedEventBus<
+    ScopedEventMap<TEventMap, TNamespace, TSyntax['delimiter']>,
+    ScopedEventMap<TResponseMap, TNamespace, TSyntax['delimiter']>,
+    TSyntax
+  >
+}
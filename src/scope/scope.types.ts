@@ -0,0 +1,73 @@
+import type { EventBus, EventMap } from '../eventbus/eventbus.types'
+import type {
+  DefaultPatternSyntax,
+  KnownEvent,
+  PatternSyntax,
+} from '../pattern-matcher/pattern-matcher.types'
+
+/**
+ * Events of a namespace with the namespace and delimiter prefix removed
+ * A string index signature is kept, so untyped maps stay untyped; a delimiter that is
+ * not a literal type leaves the scope untyped as well
+ * @template TEventMap - The event map of the parent bus
+ * @template TNamespace - The namespace of the scope
+ * @template TDelimiter - Separator between the namespace and the event name
+ * @example
+ * ```ts
+ * type CartEvents = ScopedEventMap<{ 'cart:add': Item; 'user:login': User }, 'cart'>
+ * // { add: Item }
+ * ```
+ */
+export type ScopedEventMap<
+  TEventMap extends EventMap,
+  TNamespace extends string,
+  TDelimiter extends string = ':',
+> = string extends TDelimiter
+  ? EventMap
+  : {
+      [K in keyof TEventMap as K extends `${TNamespace}${TDelimiter}${infer Rest}`
+        ? Rest
+        : string extends K
+          ? K
+          : never]: TEventMap[K]
+    }
+
+/**
+ * First segments of the known events of a map, suggested as scope namespaces
+ * @template TEventMap - The event map defining available events
+ * @template TDelimiter - Separator between event name segments
+ */
+export type EventNamespace<
+  TEventMap extends EventMap,
+  TDelimiter extends string = ':',
+> = string extends TDelimiter
+  ? never
+  : KnownEvent<TEventMap> extends infer K
+    ? K extends `${infer Head}${TDelimiter}${string}`
+      ? Head
+      : never
+    : never
+
+/**
+ * Child bus returned by `bus.scope(namespace)`
+ * Event names are relative to the namespace; everything registered through the
+ * scope lives on the parent bus and is removed again by `dispose()`
+ * @template TEventMap - The scoped event map
+ * @template TResponseMap - The scoped response map
+ * @template TSyntax - Wildcard mode and delimiter of the parent bus
+ */
+export interface ScopedEventBus<
+  TEventMap extends EventMap = EventMap,
+  TResponseMap extends EventMap = EventMap,
+  TSyntax extends PatternSyntax = DefaultPatternSyntax,
+> extends EventBus<TEventMap, TResponseMap, TSyntax> {
+  /** Full prefix of the scope, e.g. 'cart' or 'cart:items' for nested scopes */
+  readonly namespace: string
+  /**
+   * Remove every listener, responder, middleware and plugin registered through this
+   * scope and its nested scopes, and end their pending waitFor calls and streams
+   * Listeners registered on the parent or in sibling scopes are left untouched;
+   * a disposed scope ignores new subscriptions
+   */
+  dispose(): void
+}
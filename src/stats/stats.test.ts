@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest'
+import type { ListenerInfo } from '../listener-store/listener-store.types'
+import { createDurationStats, createEventStats, toPrometheus } from './stats'
+
+/** Deterministic shuffle, so the estimator sees samples out of order */
+function shuffled(values: number[]): number[] {
+  const result = [...values]
+  let seed = 42
+  for (let i = result.length - 1; i > 0; i--) {
+    seed = (seed * 1103515245 + 12345) % 2147483648
+    const j = seed % (i + 1)
+    ;[result[i], result[j]] = [result[j] as number, result[i] as number]
+  }
+  return result
+}
+
+const listenerInfo = (overrides: Partial<ListenerInfo> = {}): ListenerInfo => ({
+  id: Symbol('listener'),
+  priority: 0,
+  once: false,
+  pattern: 'user:login',
+  addedAt: 0,
+  executionCount: 0,
+  avgDuration: 0,
+  minDuration: 0,
+  maxDuration: 0,
+  p50Duration: 0,
+  p95Duration: 0,
+  p99Duration: 0,
+  errorCount: 0,
+  timeoutCount: 0,
+  tags: [],
+  ...overrides,
+})
+
+describe('createDurationStats', () => {
+  it('should report exact quantiles for fewer than five samples', () => {
+    const stats = createDurationStats()
+    for (const duration of [30, 10, 20]) {
+      stats.record(duration)
+    }
+
+    expect(stats.summary()).toEqual({ min: 10, max: 30, p50: 20, p95: 30, p99: 30 })
+  })
+
+  it('should estimate quantiles of a large sample closely', () => {
+    const stats = createDurationStats()
+    for (const duration of shuffled(Array.from({ length: 1000 }, (_, i) => i + 1))) {
+      stats.record(duration)
+    }
+
+    const { min, max, p50, p95, p99 } = stats.summary()
+    expect(min).toBe(1)
+    expect(max).toBe(1000)
+    expect(p50).toBeCloseTo(500, -1.5)
+    expect(p95).toBeCloseTo(950, -1.5)
+    expect(p99).toBeCloseTo(990, -1.5)
+  })
+
+  it('should report zeros before the first sample', () => {
+    expect(createDurationStats().summary()).toEqual({ min: 0, max: 0, p50: 0, p95: 0, p99: 0 })
+  })
+})
+
+describe('createEventStats', () => {
+  it('should accumulate counters per event and reset selectively', () => {
+    const stats = createEventStats()
+    stats.record('user:login', 2, 0, 100)
+    stats.record('user:login', 3, 1, 200)
+    stats.record('user:logout', 1, 0, 300)
+
+    expect(stats.getAll().get('user:login')).toEqual({
+      emitCount: 2,
+      listenerCount: 5,
+      errorCount: 1,
+      lastEmittedAt: 200,
+    })
+
+    stats.reset((event) => event === 'user:login')
+    expect([...stats.getAll().keys()]).toEqual(['user:logout'])
+
+    stats.reset()
+    expect(stats.getAll().size).toBe(0)
+  })
+})
+
+describe('toPrometheus', () => {
+  it('should format event and listener metrics in the text exposition format', () => {
+    const text = toPrometheus(
+      {
+        events: new Map([
+          ['user:login', { emitCount: 3, listenerCount: 6, errorCount: 1, lastEmittedAt: 0 }],
+        ]),
+        listeners: new Map([
+          [
+            'user:login',
+            [
+              listenerInfo({
+                executionCount: 2,
+                avgDuration: 15,
+                p50Duration: 10,
+                p95Duration: 20,
+                p99Duration: 20,
+                errorCount: 1,
+              }),
+            ],
+          ],
+        ]),
+      },
+      { prefix: 'app' },
+    )
+
+    expect(text.split('\n')).toEqual(
+      expect.arrayContaining([
+        '# TYPE app_emits_total counter',
+        'app_emits_total{event="user:login"} 3',
+        'app_matched_listeners_total{event="user:login"} 6',
+        'app_emit_errors_total{event="user:login"} 1',
+        'app_listener_executions_total{pattern="user:login"} 2',
+        'app_listener_errors_total{pattern="user:login"} 1',
+        'app_listener_timeouts_total{pattern="user:login"} 0',
+        '# TYPE app_listener_duration_seconds summary',
+        'app_listener_duration_seconds{pattern="user:login",quantile="0.5"} 0.01',
+        'app_listener_duration_seconds{pattern="user:login",quantile="0.99"} 0.02',
+        'app_listener_duration_seconds_sum{pattern="user:login"} 0.03',
+        'app_listener_duration_seconds_count{pattern="user:login"} 2',
+      ]),
+    )
+    expect(text.endsWith('\n')).toBe(true)
+  })
+
+  it('should aggregate the listeners of a pattern into one series', () => {
+    const text = toPrometheus({
+      events: new Map(),
+      listeners: new Map([
+        [
+          'user:*',
+          [
+            listenerInfo({ executionCount: 1, avgDuration: 10, p95Duration: 10, errorCount: 1 }),
+            listenerInfo({ executionCount: 3, avgDuration: 20, p95Duration: 40, timeoutCount: 2 }),
+            listenerInfo({ p95Duration: 90 }),
+          ],
+        ],
+      ]),
+    })
+
+    expect(text.split('\n')).toEqual(
+      expect.arrayContaining([
+        'eventbus_listener_executions_total{pattern="user:*"} 4',
+        'eventbus_listener_errors_total{pattern="user:*"} 1',
+        'eventbus_listener_timeouts_total{pattern="user:*"} 2',
+        'eventbus_listener_duration_seconds{pattern="user:*",quantile="0.95"} 0.04',
+        'eventbus_listener_duration_seconds_sum{pattern="user:*"} 0.07',
+        'eventbus_listener_duration_seconds_count{pattern="user:*"} 4',
+      ]),
+    )
+    expect(text.match(/^eventbus_listener_executions_total/gm)).toHaveLength(1)
+  })
+
+  it('should escape label values and report NaN quantiles before any execution', () => {
+    const text = toPrometheus({
+      events: new Map(),
+      listeners: new Map([['say:"hi"\\', [listenerInfo()]]]),
+    })
+
+    expect(text).toContain(
+      'eventbus_listener_duration_seconds{pattern="say:\\"hi\\"\\\\",quantile="0.5"} NaN',
+    )
+  })
+})
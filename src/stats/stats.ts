@@ -0,0 +1,303 @@
+import type { ListenerInfo } from '../listener-store/listener-store.types'
+import type { DurationSummary, EventBusStats, EventStats, PrometheusOptions } from './stats.types'
+
+/**
+ * Records durations and summarizes them without keeping the samples
+ */
+export interface DurationStats {
+  record(duration: number): void
+  summary(): DurationSummary
+}
+
+/**
+ * Per-event emit counters kept by the bus
+ */
+export interface EventStatsRecorder {
+  /** Count an emit of an event */
+  record(event: string, listenerCount: number, errorCount: number, timestamp: number): void
+  /** Copy of the counters of every event */
+  getAll(): Map<string, EventStats>
+  /** Forget the counters of the events a predicate accepts (or of all events) */
+  reset(predicate?: (event: string) => boolean): void
+}
+
+/** Reads a marker, which always exists once the estimator holds five samples */
+const at = (values: number[], index: number): number => values[index] ?? 0
+
+/**
+ * Creates a P² estimator of one quantile (Jain & Chlamtac), using five markers
+ * whose heights approximate the minimum, p/2, p, (1+p)/2 quantiles and the maximum
+ * @param p - The quantile to estimate, between 0 and 1
+ */
+function createQuantileEstimator(p: number) {
+  const heights: number[] = []
+  const positions = [0, 1, 2, 3, 4]
+  const desired = [0, 2 * p, 4 * p, 2 + 2 * p, 4]
+  const increments = [0, p / 2, p, (1 + p) / 2, 1]
+
+  const parabolic = (i: number, d: number): number => {
+    const [n0, n1, n2] = [at(positions, i - 1), at(positions, i), at(positions, i + 1)]
+    const [q0, q1, q2] = [at(heights, i - 1), at(heights, i), at(heights, i + 1)]
+    return (
+      q1 +
+      (d / (n2 - n0)) *
+        (((n1 - n0 + d) * (q2 - q1)) / (n2 - n1) + ((n2 - n1 - d) * (q1 - q0)) / (n1 - n0))
+    )
+  }
+
+  const linear = (i: number, d: number): number =>
+    at(heights, i) +
+    (d * (at(heights, i + d) - at(heights, i))) / (at(positions, i + d) - at(positions, i))
+
+  return {
+    add(value: number): void {
+      if (heights.length < 5) {
+        heights.push(value)
+        heights.sort((a, b) => a - b)
+        return
+      }
+
+      let cell: number
+      if (value < at(heights, 0)) {
+        heights[0] = value
+        cell = 0
+      } else if (value >= at(heights, 4)) {
+        heights[4] = value
+        cell = 3
+      } else {
+        cell = 0
+        while (value >= at(heights, cell + 1)) {
+          cell++
+        }
+      }
+
+      for (let i = cell + 1; i < 5; i++) {
+        positions[i] = at(positions, i) + 1
+      }
+      for (let i = 0; i < 5; i++) {
+        desired[i] = at(desired, i) + at(increments, i)
+      }
+
+      // Move the middle markers towards their desired positions
+      for (let i = 1; i <= 3; i++) {
+        const offset = at(desired, i) - at(positions, i)
+        const gapAbove = at(positions, i + 1) - at(positions, i)
+        const gapBelow = at(positions, i - 1) - at(positions, i)
+        if ((offset >= 1 && gapAbove > 1) || (offset <= -1 && gapBelow < -1)) {
+          const d = Math.sign(offset)
+          const estimate = parabolic(i, d)
+          heights[i] =
+            at(heights, i - 1) < estimate && estimate < at(heights, i + 1) ? estimate : linear(i, d)
+          positions[i] = at(positions, i) + d
+        }
+      }
+    },
+
+    value(): number {
+      if (heights.length < 5) {
+        // Exact nearest-rank quantile of the few samples seen so far
+        return at(heights, Math.max(0, Math.ceil(p * heights.length) - 1))
+      }
+      return at(heights, 2)
+    },
+  }
+}
+
+/**
+ * Creates a duration recorder tracking min, max and estimated p50, p95 and p99
+ * @returns DurationStats instance
+ */
+export function createDurationStats(): DurationStats {
+  const p50 = createQuantileEstimator(0.5)
+  const p95 = createQuantileEstimator(0.95)
+  const p99 = createQuantileEstimator(0.99)
+  let min = Number.POSITIVE_INFINITY
+  let max = 0
+
+  return {
+    record(duration: number): void {
+      min = Math.min(min, duration)
+      max = Math.max(max, duration)
+      p50.add(duration)
+      p95.add(duration)
+      p99.add(duration)
+    },
+
+    summary(): DurationSummary {
+      return {
+        min: Number.isFinite(min) ? min : 0,
+        max,
+        p50: p50.value(),
+        p95: p95.value(),
+        p99: p99.value(),
+      }
+    },
+  }
+}
+
+/**
+ * Creates the per-event emit counters of a bus
+ * @returns EventStatsRecorder instance
+ */
+export function createEventStats(): EventStatsRecorder {
+  const events = new Map<string, EventStats>()
+
+  return {
+    record(event: string, listenerCount: number, errorCount: number, timestamp: number): void {
+      const stats = events.get(event)
+      if (stats) {
+        stats.emitCount++
+        stats.listenerCount += listenerCount
+        stats.errorCount += errorCount
+        stats.lastEmittedAt = timestamp
+      } else {
+        events.set(event, { emitCount: 1, listenerCount, errorCount, lastEmittedAt: timestamp })
+      }
+    },
+
+    getAll(): Map<string, EventStats> {
+      return new Map([...events].map(([event, stats]) => [event, { ...stats }]))
+    },
+
+    reset(predicate?: (event: string) => boolean): void {
+      for (const event of [...events.keys()]) {
+        if (!predicate || predicate(event)) {
+          events.delete(event)
+        }
+      }
+    },
+  }
+}
+
+/**
+ * Escapes a label value for the Prometheus text format
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+/**
+ * Formats labels as `{name="value",...}`
+ */
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`)
+  return `{${pairs.join(',')}}`
+}
+
+/** Listener metrics of one pattern, summed over its listeners */
+interface PatternTotals {
+  executionCount: number
+  errorCount: number
+  timeoutCount: number
+  /** Total execution time in milliseconds */
+  duration: number
+  /** Highest p50, p95 and p99 among the listeners, in milliseconds */
+  quantiles: Array<[quantile: string, value: number]>
+}
+
+/**
+ * Sums the counters of a pattern's listeners; quantiles cannot be merged, so the
+ * slowest listener's are kept
+ */
+function totalPattern(infos: ListenerInfo[]): PatternTotals {
+  const ran = infos.filter((info) => info.executionCount > 0)
+  const slowest = (value: (info: ListenerInfo) => number): number =>
+    ran.length > 0 ? Math.max(...ran.map(value)) : Number.NaN
+
+  return {
+    executionCount: infos.reduce((sum, info) => sum + info.executionCount, 0),
+    errorCount: infos.reduce((sum, info) => sum + info.errorCount, 0),
+    timeoutCount: infos.reduce((sum, info) => sum + info.timeoutCount, 0),
+    duration: infos.reduce((sum, info) => sum + info.avgDuration * info.executionCount, 0),
+    quantiles: [
+      ['0.5', slowest((info) => info.p50Duration)],
+      ['0.95', slowest((info) => info.p95Duration)],
+      ['0.99', slowest((info) => info.p99Duration)],
+    ],
+  }
+}
+
+/**
+ * Formats bus stats in the Prometheus text exposition format
+ * Listener metrics are aggregated per pattern: counters are summed and each duration
+ * quantile is the highest among the pattern's listeners, in seconds, over successful executions
+ * @param stats - Snapshot from `bus.getStats()`
+ * @param options - Metric name prefix
+ * @returns Text to serve from a metrics endpoint
+ * @example
+ * ```ts
+ * app.get('/metrics', (_req, res) => {
+ *   res.type('text/plain; version=0.0.4').send(toPrometheus(bus.getStats()))
+ * })
+ * ```
+ */
+export function toPrometheus(stats: EventBusStats, options: PrometheusOptions = {}): string {
+  const prefix = options.prefix ?? 'eventbus'
+  const lines: string[] = []
+
+  const metric = (name: string, type: 'counter' | 'summary', help: string): string => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`)
+    return `${prefix}_${name}`
+  }
+
+  const eventCounter = (name: string, help: string, value: (stats: EventStats) => number) => {
+    const metricName = metric(name, 'counter', help)
+    for (const [event, eventStats] of stats.events) {
+      lines.push(`${metricName}${formatLabels({ event })} ${value(eventStats)}`)
+    }
+  }
+
+  const patterns = [...stats.listeners].map(([pattern, infos]) => ({
+    labels: { pattern },
+    totals: totalPattern(infos),
+  }))
+
+  const listenerCounter = (
+    name: string,
+    help: string,
+    value: (totals: PatternTotals) => number,
+  ) => {
+    const metricName = metric(name, 'counter', help)
+    for (const { labels, totals } of patterns) {
+      lines.push(`${metricName}${formatLabels(labels)} ${value(totals)}`)
+    }
+  }
+
+  eventCounter('emits_total', 'Number of emits per event', (s) => s.emitCount)
+  eventCounter(
+    'matched_listeners_total',
+    'Listeners matched by emits per event',
+    (s) => s.listenerCount,
+  )
+  eventCounter('emit_errors_total', 'Handler errors raised by emits per event', (s) => s.errorCount)
+  listenerCounter(
+    'listener_executions_total',
+    'Successful handler executions per pattern',
+    (totals) => totals.executionCount,
+  )
+  listenerCounter(
+    'listener_errors_total',
+    'Handler errors per pattern',
+    (totals) => totals.errorCount,
+  )
+  listenerCounter(
+    'listener_timeouts_total',
+    'Handler timeouts per pattern',
+    (totals) => totals.timeoutCount,
+  )
+
+  const duration = metric(
+    'listener_duration_seconds',
+    'summary',
+    'Handler execution time per pattern; quantiles of its slowest listener',
+  )
+  for (const { labels, totals } of patterns) {
+    for (const [quantile, value] of totals.quantiles) {
+      lines.push(`${duration}${formatLabels({ ...labels, quantile })} ${value / 1000}`)
+    }
+    lines.push(`${duration}_sum${formatLabels(labels)} ${totals.duration / 1000}`)
+    lines.push(`${duration}_count${formatLabels(labels)} ${totals.executionCount}`)
+  }
+
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,45 @@
+import type { ListenerMap } from '../listener-store/listener-store.types'
+
+/**
+ * Distribution of recorded durations in milliseconds
+ * Percentiles are estimated in constant memory, so they are approximate for large samples
+ */
+export interface DurationSummary {
+  min: number
+  max: number
+  p50: number
+  p95: number
+  p99: number
+}
+
+/**
+ * Counters of one event name
+ */
+export interface EventStats {
+  /** Number of times the event was emitted */
+  emitCount: number
+  /** Listeners matched by those emits, summed over all emits */
+  listenerCount: number
+  /** Handler errors (including timeouts) raised by those emits */
+  errorCount: number
+  /** Time of the last emit (milliseconds since epoch) */
+  lastEmittedAt: number
+}
+
+/**
+ * Snapshot returned by `bus.getStats()`
+ */
+export interface EventBusStats {
+  /** Counters per emitted event name, in order of first emit */
+  events: Map<string, EventStats>
+  /** Every listener with its execution stats, as returned by `getListeners()` */
+  listeners: ListenerMap
+}
+
+/**
+ * Options for toPrometheus
+ */
+export interface PrometheusOptions {
+  /** Prefix of every metric name (default: 'eventbus') */
+  prefix?: string
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { createPatternMatcher } from '../pattern-matcher/pattern-matcher'
+import { createStickyStore } from './sticky-store'
+import type { StickyEvent } from './sticky-store.types'
+
+const entry = (event: string, payload: unknown): StickyEvent => ({
+  event,
+  payload,
+  emitId: `emit:${event}`,
+  timestamp: 0,
+  metadata: {},
+})
+
+describe('StickyStore', () => {
+  it('should keep only the last payload per event', () => {
+    const store = createStickyStore(createPatternMatcher())
+
+    store.set(entry('config:loaded', 1))
+    store.set(entry('config:loaded', 2))
+
+    expect(store.getMatching('config:loaded').map((e) => e.payload)).toEqual([2])
+  })
+
+  it('should match patterns in order of the latest emits', () => {
+    const store = createStickyStore(createPatternMatcher())
+
+    store.set(entry('auth:ready', 'a'))
+    store.set(entry('config:loaded', 'c'))
+    store.set(entry('auth:user', 'u'))
+    store.set(entry('auth:ready', 'b'))
+
+    expect(store.getMatching('auth:*').map((e) => e.payload)).toEqual(['u', 'b'])
+    expect([...store.getAll().keys()]).toEqual(['config:loaded', 'auth:user', 'auth:ready'])
+  })
+
+  it('should filter getAll by pattern', () => {
+    const store = createStickyStore(createPatternMatcher())
+
+    store.set(entry('auth:ready', true))
+    store.set(entry('config:loaded', true))
+
+    expect([...store.getAll('config:*').keys()]).toEqual(['config:loaded'])
+    expect(store.getAll('missing').size).toBe(0)
+  })
+
+  it('should clear one or all events', () => {
+    const store = createStickyStore(createPatternMatcher())
+
+    store.set(entry('auth:ready', true))
+    store.set(entry('config:loaded', true))
+
+    expect(store.clear('auth:ready')).toBe(true)
+    expect(store.clear('auth:ready')).toBe(false)
+    expect(store.getAll().size).toBe(1)
+    expect(store.clear()).toBe(true)
+    expect(store.getAll().size).toBe(0)
+  })
+})
@@ -0,0 +1,60 @@
+import type { PatternMatcher } from '../pattern-matcher/pattern-matcher'
+import type { StickyEvent, StickyMap } from './sticky-store.types'
+
+/**
+ * Retains the last payload of sticky events
+ * Entries are kept in the order they were last emitted, oldest first
+ */
+export interface StickyStore {
+  /** Retain a payload, replacing any previous one for the same event */
+  set(entry: StickyEvent): void
+  /** Get all retained events matching a pattern, oldest first */
+  getMatching(pattern: string): StickyEvent[]
+  /** Get retained events, optionally filtered by pattern */
+  getAll(pattern?: string): StickyMap
+  /** Forget the retained payload for an event, or all payloads if no event specified */
+  clear(event?: string): boolean
+}
+
+/**
+ * Creates a sticky event store
+ * @param patternMatcher - Matcher used to find retained events for pattern subscriptions
+ * @returns StickyStore instance
+ */
+export function createStickyStore(patternMatcher: PatternMatcher): StickyStore {
+  const retained = new Map<string, StickyEvent>()
+
+  const getMatching = (pattern: string): StickyEvent[] => {
+    if (patternMatcher.classify(pattern) === 'exact') {
+      const entry = retained.get(pattern)
+      return entry ? [entry] : []
+    }
+
+    return [...retained.values()].filter((entry) => patternMatcher.matches(pattern, entry.event))
+  }
+
+  return {
+    set(entry: StickyEvent): void {
+      // Re-insert so iteration order follows the latest emits
+      retained.delete(entry.event)
+      retained.set(entry.event, entry)
+    },
+
+    getMatching,
+
+    getAll(pattern?: string): StickyMap {
+      const entries = pattern === undefined ? [...retained.values()] : getMatching(pattern)
+      return new Map(entries.map((entry) => [entry.event, { ...entry }]))
+    },
+
+    clear(event?: string): boolean {
+      if (event === undefined) {
+        const hadEntries = retained.size > 0
+        retained.clear()
+        return hadEntries
+      }
+
+      return retained.delete(event)
+    },
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Payload retained for a sticky event, replayed to late subscribers
+ */
+export interface StickyEvent {
+  /** The event name */
+  event: string
+  /** The last delivered payload */
+  payload: unknown
+  /** Identifier of the emit that retained the payload */
+  emitId: string
+  /** Time that emit started (milliseconds since epoch) */
+  timestamp: number
+  /** Metadata middleware attached to that emit */
+  metadata: Readonly<Record<string, unknown>>
+}
+
+/**
+ * Map of event names to their retained sticky payloads
+ */
+export type StickyMap = Map<string, StickyEvent>
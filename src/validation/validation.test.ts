@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ValidationError } from '../errors/errors'
+import type { StandardSchemaV1 } from './standard-schema.types'
+import { isDevelopment, validatePayload } from './validation'
+
+const createSchema = <T>(
+  validate: (value: unknown) => StandardSchemaV1.Result<T> | Promise<StandardSchemaV1.Result<T>>,
+): StandardSchemaV1<unknown, T> => ({
+  '~standard': { version: 1, vendor: 'test', validate },
+})
+
+describe('validatePayload', () => {
+  it('should return the validated value', async () => {
+    const schema = createSchema((value) => ({ value: String(value) }))
+
+    await expect(validatePayload('test:event', schema, 42)).resolves.toBe('42')
+  })
+
+  it('should support async schemas', async () => {
+    const schema = createSchema(async (value) => ({ value }))
+
+    await expect(validatePayload('test:event', schema, 'ok')).resolves.toBe('ok')
+  })
+
+  it('should throw a ValidationError with normalized issue paths', async () => {
+    const schema = createSchema(() => ({
+      issues: [
+        { message: 'Required', path: ['user', { key: 'id' }] },
+        { message: 'Expected object' },
+      ],
+    }))
+
+    const error = await validatePayload('test:event', schema, {}).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(ValidationError)
+    expect((error as ValidationError).event).toBe('test:event')
+    expect((error as ValidationError).issues).toEqual([
+      { message: 'Required', path: ['user', 'id'] },
+      { message: 'Expected object', path: [] },
+    ])
+    expect((error as ValidationError).message).toBe(
+      'Invalid payload for "test:event": user.id: Required; (root): Expected object',
+    )
+  })
+})
+
+describe('isDevelopment', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should be false in production', () => {
+    vi.stubEnv('NODE_ENV', 'production')
+
+    expect(isDevelopment()).toBe(false)
+  })
+
+  it('should be true outside production', () => {
+    vi.stubEnv('NODE_ENV', 'development')
+
+    expect(isDevelopment()).toBe(true)
+  })
+})
@@ -0,0 +1,46 @@
+import { ValidationError } from '../errors/errors'
+import type { StandardSchemaV1 } from './standard-schema.types'
+import type { ValidationIssue } from './validation.types'
+
+/**
+ * Converts Standard Schema path segments to plain property keys
+ */
+const normalizePath = (path: StandardSchemaV1.Issue['path']): PropertyKey[] =>
+  (path ?? []).map((segment) => (typeof segment === 'object' ? segment.key : segment))
+
+/**
+ * Validates a payload against a Standard Schema
+ * @param event - The event the payload belongs to (used in the error)
+ * @param schema - The schema to validate against
+ * @param payload - The payload to validate
+ * @returns The validated (possibly transformed) payload
+ * @throws ValidationError listing every issue if the payload is invalid
+ */
+export async function validatePayload<T>(
+  event: string,
+  schema: StandardSchemaV1<unknown, T>,
+  payload: unknown,
+): Promise<T> {
+  const result = await schema['~standard'].validate(payload)
+
+  if (result.issues) {
+    const issues: ValidationIssue[] = result.issues.map((issue) => ({
+      message: issue.message,
+      path: normalizePath(issue.path),
+    }))
+    throw new ValidationError(event, issues)
+  }
+
+  return result.value
+}
+
+/**
+ * Whether the current runtime is a development environment
+ * Read from the global `process` at runtime rather than `process.env.NODE_ENV`, which the
+ * library build inlines. Runtimes without a `process` global are treated as production
+ */
+export function isDevelopment(): boolean {
+  const { process } = globalThis as { process?: { env?: Record<string, string | undefined> } }
+  const nodeEnv = process?.env?.NODE_ENV
+  return nodeEnv !== undefined && nodeEnv !== 'production'
+}
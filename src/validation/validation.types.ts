@@ -0,0 +1,29 @@
+import type { EventMap } from '../eventbus/eventbus.types'
+import type { StandardSchemaV1 } from './standard-schema.types'
+
+/**
+ * Standard Schema validators for event payloads, keyed by event name
+ * Passed as `schemas` to createEventBus, it also infers the event map
+ * @template TEventMap - The event map defining available events
+ */
+export type EventSchemas<TEventMap extends EventMap = EventMap> = {
+  [K in keyof TEventMap]?: StandardSchemaV1<unknown, TEventMap[K]>
+}
+
+/**
+ * When payloads are validated against their schemas
+ * - `'emit'` - validate every emit before any middleware or listener runs (default)
+ * - `'development'` - validate the payload handlers receive (after middleware), only
+ *   while a global `process.env.NODE_ENV` is set to something other than `'production'`
+ */
+export type ValidationMode = 'emit' | 'development'
+
+/**
+ * A single validation problem with a normalized path
+ */
+export interface ValidationIssue {
+  /** Description of the problem */
+  message: string
+  /** Path to the offending value (empty for the payload itself) */
+  path: PropertyKey[]
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from 'vitest'
+import { systemClock } from '../clock/clock'
+import { WaitForTimeoutError } from '../errors/errors'
+import type { ListenerHandler } from '../listener-store/listener-store.types'
+import { waitForEvent } from './wait-for'
+
+const createSubscription = () => {
+  let current: ListenerHandler<unknown> | undefined
+  const unsubscribe = vi.fn(() => {
+    current = undefined
+  })
+
+  return {
+    subscribe: (handler: ListenerHandler<unknown>) => {
+      current = handler
+      return unsubscribe
+    },
+    deliver: (payload: unknown) => current?.(payload, {} as Parameters<ListenerHandler>[1]),
+    unsubscribe,
+    isSubscribed: () => current !== undefined,
+  }
+}
+
+describe('waitForEvent', () => {
+  it('should resolve with the next payload and unsubscribe', async () => {
+    const subscription = createSubscription()
+
+    const pending = waitForEvent('test:event', subscription.subscribe, systemClock)
+    subscription.deliver({ value: 1 })
+
+    await expect(pending).resolves.toEqual({ value: 1 })
+    expect(subscription.isSubscribed()).toBe(false)
+  })
+
+  it('should skip payloads that do not pass the filter', async () => {
+    const subscription = createSubscription()
+
+    const pending = waitForEvent<number>('test:event', subscription.subscribe, systemClock, {
+      filter: (payload) => payload > 1,
+    })
+    subscription.deliver(1)
+    expect(subscription.isSubscribed()).toBe(true)
+    subscription.deliver(2)
+
+    await expect(pending).resolves.toBe(2)
+  })
+
+  it('should reject with WaitForTimeoutError and unsubscribe on timeout', async () => {
+    vi.useFakeTimers()
+    try {
+      const subscription = createSubscription()
+
+      const pending = waitForEvent('test:event', subscription.subscribe, systemClock, {
+        timeout: 100,
+      })
+      const assertion = expect(pending).rejects.toBeInstanceOf(WaitForTimeoutError)
+      await vi.advanceTimersByTimeAsync(100)
+      await assertion
+
+      expect(subscription.unsubscribe).toHaveBeenCalledTimes(1)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should reject with the abort reason and unsubscribe on abort', async () => {
+    const subscription = createSubscription()
+    const controller = new AbortController()
+    const reason = new Error('Cancelled')
+
+    const pending = waitForEvent('test:event', subscription.subscribe, systemClock, {
+      signal: controller.signal,
+    })
+    controller.abort(reason)
+
+    await expect(pending).rejects.toBe(reason)
+    expect(subscription.unsubscribe).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not subscribe when the signal is already aborted', async () => {
+    const subscription = createSubscription()
+
+    const pending = waitForEvent('test:event', subscription.subscribe, systemClock, {
+      signal: AbortSignal.abort(),
+    })
+
+    await expect(pending).rejects.toThrow()
+    expect(subscription.isSubscribed()).toBe(false)
+  })
+})
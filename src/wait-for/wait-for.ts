@@ -0,0 +1,70 @@
+import type { Clock } from '../clock/clock'
+import { WaitForTimeoutError } from '../errors/errors'
+import type { ListenerHandler } from '../listener-store/listener-store.types'
+import type { WaitForOptions } from './wait-for.types'
+
+/**
+ * Subscribes a handler and returns its unsubscribe function
+ */
+export type SubscribeFn = (handler: ListenerHandler<unknown>) => () => void
+
+/**
+ * Resolves with the next payload delivered to a temporary listener
+ * The listener is removed once a payload passes the filter, on timeout, and on abort
+ * @param event - The event being awaited (used in error messages)
+ * @param subscribe - Registers the temporary listener
+ * @param clock - Time source for the timeout
+ * @param options - Optional filter, timeout and signal
+ * @returns Promise with the matching payload
+ * @throws WaitForTimeoutError if no matching event arrives within `options.timeout`
+ * @throws The abort reason if `options.signal` is aborted
+ */
+export function waitForEvent<T>(
+  event: string,
+  subscribe: SubscribeFn,
+  clock: Clock,
+  options: WaitForOptions<T> = {},
+): Promise<T> {
+  const { filter, timeout, signal } = options
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    let handle: unknown
+    let settled = false
+
+    const cleanup = (): void => {
+      settled = true
+      unsubscribe()
+      signal?.removeEventListener('abort', onAbort)
+      if (handle !== undefined) {
+        clock.clearTimeout(handle)
+      }
+    }
+
+    const onAbort = (): void => {
+      cleanup()
+      reject(signal?.reason)
+    }
+
+    const unsubscribe = subscribe((payload) => {
+      if (settled || (filter && !filter(payload as T))) {
+        return
+      }
+      cleanup()
+      resolve(payload as T)
+    })
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    if (timeout !== undefined) {
+      handle = clock.setTimeout(() => {
+        cleanup()
+        reject(new WaitForTimeoutError(event, timeout))
+      }, timeout)
+    }
+  })
+}
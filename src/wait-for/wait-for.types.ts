@@ -0,0 +1,12 @@
+/**
+ * Options for waiting on the next occurrence of an event
+ * @template T - The type of the awaited payload
+ */
+export interface WaitForOptions<T = unknown> {
+  /** Only resolve for payloads that pass this predicate */
+  filter?: (payload: T) => boolean
+  /** Reject with a WaitForTimeoutError if no matching event arrives in time (milliseconds) */
+  timeout?: number
+  /** Aborting rejects with the abort reason */
+  signal?: AbortSignal
+}